@@ -0,0 +1,17 @@
+ALTER TABLE judgments ADD COLUMN symbol TEXT;
+ALTER TABLE verdicts ADD COLUMN symbol TEXT;
+ALTER TABLE flip_cards ADD COLUMN symbol TEXT;
+
+UPDATE judgments
+SET symbol = COALESCE((SELECT r.symbol FROM rounds r WHERE r.round_id = judgments.round_id), 'BTCUSDT')
+WHERE symbol IS NULL;
+UPDATE verdicts
+SET symbol = COALESCE((SELECT r.symbol FROM rounds r WHERE r.round_id = verdicts.round_id), 'BTCUSDT')
+WHERE symbol IS NULL;
+UPDATE flip_cards
+SET symbol = COALESCE((SELECT r.symbol FROM rounds r WHERE r.round_id = flip_cards.round_id), 'BTCUSDT')
+WHERE symbol IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rounds_symbol_status ON rounds(symbol, status);
+CREATE INDEX IF NOT EXISTS idx_verdicts_symbol ON verdicts(symbol);
+CREATE INDEX IF NOT EXISTS idx_flip_cards_symbol ON flip_cards(symbol);
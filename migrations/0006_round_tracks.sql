@@ -0,0 +1,16 @@
+ALTER TABLE rounds ADD COLUMN track_id TEXT;
+ALTER TABLE rounds ADD COLUMN lock_time TEXT;
+ALTER TABLE verdicts ADD COLUMN track_id TEXT;
+ALTER TABLE score_events ADD COLUMN track_id TEXT;
+ALTER TABLE flip_cards ADD COLUMN track_id TEXT;
+
+UPDATE rounds SET track_id = 'standard' WHERE track_id IS NULL;
+UPDATE rounds
+SET lock_time = strftime('%Y-%m-%dT%H:%M:%fZ', start_time, '+10 minutes')
+WHERE lock_time IS NULL;
+UPDATE verdicts SET track_id = 'standard' WHERE track_id IS NULL;
+UPDATE score_events SET track_id = 'standard' WHERE track_id IS NULL;
+UPDATE flip_cards SET track_id = 'standard' WHERE track_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rounds_track_symbol_status ON rounds(track_id, symbol, status);
+CREATE INDEX IF NOT EXISTS idx_score_events_track ON score_events(track_id);
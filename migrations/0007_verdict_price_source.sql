@@ -0,0 +1,5 @@
+ALTER TABLE verdicts ADD COLUMN start_price REAL;
+ALTER TABLE verdicts ADD COLUMN end_price REAL;
+ALTER TABLE verdicts ADD COLUMN price_source TEXT;
+ALTER TABLE verdicts ADD COLUMN start_close_ms INTEGER;
+ALTER TABLE verdicts ADD COLUMN end_close_ms INTEGER;
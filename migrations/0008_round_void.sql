@@ -0,0 +1,14 @@
+ALTER TABLE rounds ADD COLUMN void_reason TEXT;
+ALTER TABLE rounds ADD COLUMN voided_at TEXT;
+
+CREATE TABLE IF NOT EXISTS round_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  round_id TEXT,
+  track_id TEXT,
+  symbol TEXT,
+  type TEXT,
+  payload TEXT,
+  timestamp TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_events_scope ON round_events(track_id, symbol, id);
@@ -0,0 +1,14 @@
+ALTER TABLE rounds ADD COLUMN submission_mode TEXT DEFAULT 'open';
+
+CREATE TABLE IF NOT EXISTS judgment_commits (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  round_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  commit_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'committed',
+  committed_at TEXT,
+  revealed_at TEXT,
+  UNIQUE (round_id, agent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_judgment_commits_round ON judgment_commits(round_id, status);
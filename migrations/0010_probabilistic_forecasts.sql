@@ -0,0 +1,6 @@
+ALTER TABLE judgments ADD COLUMN prob_up REAL;
+ALTER TABLE judgments ADD COLUMN prob_down REAL;
+ALTER TABLE judgments ADD COLUMN prob_flat REAL;
+
+ALTER TABLE score_events ADD COLUMN brier REAL;
+ALTER TABLE score_events ADD COLUMN log_loss REAL;
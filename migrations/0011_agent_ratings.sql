@@ -0,0 +1,20 @@
+ALTER TABLE agents ADD COLUMN rating REAL DEFAULT 1500;
+ALTER TABLE agents ADD COLUMN rating_rd REAL DEFAULT 350;
+ALTER TABLE agents ADD COLUMN rating_volatility REAL DEFAULT 0.06;
+ALTER TABLE agents ADD COLUMN rated_rounds INTEGER DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS rating_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  agent_id TEXT NOT NULL,
+  round_id TEXT NOT NULL,
+  track_id TEXT,
+  rating REAL NOT NULL,
+  rd REAL NOT NULL,
+  volatility REAL NOT NULL,
+  rating_change REAL NOT NULL,
+  opponents INTEGER NOT NULL,
+  timestamp TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_history_agent ON rating_history(agent_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_rating_history_round ON rating_history(round_id);
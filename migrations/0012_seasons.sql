@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS seasons (
+  id TEXT PRIMARY KEY,
+  number INTEGER NOT NULL,
+  name TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  baseline_score INTEGER NOT NULL DEFAULT 0,
+  closed_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS season_standings (
+  season_id TEXT NOT NULL,
+  rank INTEGER NOT NULL,
+  agent_id TEXT NOT NULL,
+  name TEXT,
+  score INTEGER NOT NULL,
+  rating REAL,
+  rounds INTEGER NOT NULL DEFAULT 0,
+  wins INTEGER NOT NULL DEFAULT 0,
+  frozen_at TEXT,
+  PRIMARY KEY (season_id, agent_id)
+);
+
+ALTER TABLE score_events ADD COLUMN season_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_seasons_status ON seasons(status);
+CREATE INDEX IF NOT EXISTS idx_season_standings_rank ON season_standings(season_id, rank);
+CREATE INDEX IF NOT EXISTS idx_score_events_season ON score_events(season_id, agent_id);
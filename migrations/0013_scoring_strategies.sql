@@ -0,0 +1,2 @@
+ALTER TABLE rounds ADD COLUMN scoring_strategy TEXT DEFAULT 'asymmetric';
+ALTER TABLE score_events ADD COLUMN strategy TEXT;
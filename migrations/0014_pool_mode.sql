@@ -0,0 +1,5 @@
+-- NULL bankroll means the agent has not played a pool round yet and holds POOL_STARTING_BANKROLL.
+ALTER TABLE agents ADD COLUMN bankroll REAL;
+ALTER TABLE agents ADD COLUMN bankroll_topups INTEGER DEFAULT 0;
+ALTER TABLE judgments ADD COLUMN stake INTEGER;
+ALTER TABLE rounds ADD COLUMN game_mode TEXT DEFAULT 'points';
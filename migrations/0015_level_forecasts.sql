@@ -0,0 +1,5 @@
+ALTER TABLE judgments ADD COLUMN target_price REAL;
+ALTER TABLE judgments ADD COLUMN range_low REAL;
+ALTER TABLE judgments ADD COLUMN range_high REAL;
+ALTER TABLE judgments ADD COLUMN target_error_pct REAL;
+ALTER TABLE judgments ADD COLUMN range_hit INTEGER;
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS round_consensus (
+  round_id TEXT PRIMARY KEY,
+  track_id TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  direction TEXT,
+  confidence INTEGER,
+  payload TEXT NOT NULL,
+  computed_at TEXT NOT NULL,
+  result TEXT,
+  correct INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_consensus_track ON round_consensus(track_id, computed_at);
+
+-- Virtual agent scored on the consensus; it has no secret, so it can never authenticate.
+INSERT OR IGNORE INTO agents (id, name, persona, status, score, prompt)
+VALUES ('crowd', 'Crowd', 'Confidence-weighted consensus of all agents', 'virtual', 0, 'Consensus');
@@ -0,0 +1,2 @@
+-- ReasonRule v2: canonical JSON of the indicator params (NULL for v1 catalog patterns).
+ALTER TABLE judgments ADD COLUMN reason_params TEXT;
@@ -0,0 +1,4 @@
+-- Composite reason rules: canonical tree signature and per-leaf truth values at submit
+-- (both NULL for single-pattern rules).
+ALTER TABLE judgments ADD COLUMN reason_signature TEXT;
+ALTER TABLE judgments ADD COLUMN reason_leaf_values TEXT;
@@ -0,0 +1,7 @@
+-- Price meta is keyed per asset (`<key>:<coin>`) since multi-asset rounds. Rows written before
+-- that belong to the default asset; keep any value it has written since.
+INSERT OR IGNORE INTO meta (key, value)
+SELECT key || ':BTC', value FROM meta
+WHERE key IN ('lastPrice', 'currentPrice', 'lastDeltaPct', 'lastPriceAt');
+
+DELETE FROM meta WHERE key IN ('lastPrice', 'currentPrice', 'lastDeltaPct', 'lastPriceAt');
@@ -0,0 +1,24 @@
+-- Per-track, per-season running totals kept at settlement (and backed out by voids), so the
+-- track leaderboard and season standings survive score_events trimming. season_id is '' for
+-- score from before seasons existed.
+CREATE TABLE IF NOT EXISTS track_standings (
+  season_id TEXT NOT NULL DEFAULT '',
+  track_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  score INTEGER NOT NULL DEFAULT 0,
+  rounds INTEGER NOT NULL DEFAULT 0,
+  wins INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (season_id, track_id, agent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_track_standings_track ON track_standings(track_id, agent_id);
+
+-- Seed from the score events still on hand; void refunds net out and voided rounds do not count.
+INSERT OR IGNORE INTO track_standings (season_id, track_id, agent_id, score, rounds, wins)
+SELECT COALESCE(e.season_id, ''), e.track_id, e.agent_id, SUM(e.score_change),
+       COUNT(DISTINCT CASE WHEN r.status IS NOT 'voided' THEN e.round_id END),
+       SUM(CASE WHEN e.correct = 1 AND r.status IS NOT 'voided' THEN 1 ELSE 0 END)
+FROM score_events e
+LEFT JOIN rounds r ON r.round_id = e.round_id
+WHERE e.track_id IS NOT NULL AND e.agent_id IS NOT NULL
+GROUP BY COALESCE(e.season_id, ''), e.track_id, e.agent_id;
@@ -0,0 +1,3 @@
+-- Number of score events written when the round settled. Voids rebuild refunds from those
+-- events and refuse to run once trimming has removed any of them.
+ALTER TABLE rounds ADD COLUMN scored_events INTEGER;
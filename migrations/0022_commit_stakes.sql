@@ -0,0 +1,3 @@
+-- Pool stakes of commit-reveal rounds are escrowed at commit time, so withholding a losing reveal
+-- still costs the stake.
+ALTER TABLE judgment_commits ADD COLUMN stake INTEGER;
@@ -0,0 +1,12 @@
+-- One row per round status change (locked, settled, voided), inserted in the same batch right
+-- after the guarded status UPDATE with `applied = changes()`. When the UPDATE matched nothing the
+-- CHECK fails and the whole batch rolls back, so nothing batched with a transition is written
+-- unless the transition itself happened.
+CREATE TABLE IF NOT EXISTS round_transitions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  round_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  applied INTEGER NOT NULL CHECK (applied = 1),
+  timestamp TEXT NOT NULL,
+  UNIQUE (round_id, status)
+);
@@ -0,0 +1,10 @@
+-- House agents commit to commit-reveal rounds when the round starts; the judgment and salt they
+-- will reveal wait here until the round locks.
+CREATE TABLE IF NOT EXISTS house_reveals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  round_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  committed_at TEXT NOT NULL,
+  UNIQUE (round_id, agent_id)
+);
@@ -0,0 +1,53 @@
+-- Per-track running totals of level forecasts, kept at settlement (and backed out by voids), so
+-- the level leaderboard survives judgments and verdicts trimming. best_error_pct is the best
+-- target error ever settled; a void does not restore an earlier best.
+CREATE TABLE IF NOT EXISTS level_standings (
+  track_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  forecasts INTEGER NOT NULL DEFAULT 0,
+  error_sum REAL NOT NULL DEFAULT 0,
+  best_error_pct REAL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  width_sum REAL NOT NULL DEFAULT 0,
+  PRIMARY KEY (track_id, agent_id, kind)
+);
+
+-- The level score of a judgment also rides on its score event, which is what a void reverses.
+ALTER TABLE score_events ADD COLUMN target_error_pct REAL;
+ALTER TABLE score_events ADD COLUMN range_hit INTEGER;
+ALTER TABLE score_events ADD COLUMN range_width_pct REAL;
+
+-- Seed from the judgments and verdicts still on hand; voided rounds have no verdict.
+INSERT OR IGNORE INTO level_standings (track_id, agent_id, kind, forecasts, error_sum, best_error_pct)
+SELECT v.track_id, j.agent_id, 'target', COUNT(*), SUM(j.target_error_pct), MIN(j.target_error_pct)
+FROM judgments j
+JOIN verdicts v ON v.round_id = j.round_id
+WHERE j.target_error_pct IS NOT NULL
+GROUP BY v.track_id, j.agent_id;
+
+INSERT OR IGNORE INTO level_standings (track_id, agent_id, kind, forecasts, hits, width_sum)
+SELECT v.track_id, j.agent_id, 'range', COUNT(*), SUM(j.range_hit),
+       SUM((j.range_high - j.range_low) * 100.0 / v.end_price)
+FROM judgments j
+JOIN verdicts v ON v.round_id = j.round_id
+WHERE j.range_hit IS NOT NULL
+GROUP BY v.track_id, j.agent_id;
+
+UPDATE score_events
+SET target_error_pct = (
+      SELECT j.target_error_pct FROM judgments j
+      WHERE j.round_id = score_events.round_id AND j.agent_id = score_events.agent_id
+    ),
+    range_hit = (
+      SELECT j.range_hit FROM judgments j
+      WHERE j.round_id = score_events.round_id AND j.agent_id = score_events.agent_id
+    ),
+    range_width_pct = (
+      SELECT (j.range_high - j.range_low) * 100.0 / v.end_price
+      FROM judgments j JOIN verdicts v ON v.round_id = j.round_id
+      WHERE j.round_id = score_events.round_id AND j.agent_id = score_events.agent_id
+        AND j.range_hit IS NOT NULL
+    )
+WHERE reason IS NOT 'Round voided'
+  AND round_id IN (SELECT round_id FROM verdicts);
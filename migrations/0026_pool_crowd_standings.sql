@@ -0,0 +1,5 @@
+-- Pool track standings count chips, so the crowd's points no longer go into them; drop what it
+-- had already been credited there.
+DELETE FROM track_standings
+WHERE agent_id = 'crowd'
+  AND track_id IN (SELECT DISTINCT track_id FROM rounds WHERE game_mode = 'pool');
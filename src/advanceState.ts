@@ -1,29 +1,49 @@
 import { getMeta, setMeta } from './db';
-import type { Env, MetaState } from './types';
+import type { Env, MetaState, Round } from './types';
+import { revealHouseAgents, runHouseAgents } from './services/houseAgentService';
 import { refreshPrice } from './services/priceService';
 import { createRoundService } from './services/roundService';
-import type { RuntimeConfig } from './config';
+import { symbolForCoin } from './services/klineService';
+import { getTrack, type RuntimeConfig, type TrackConfig } from './config';
 
-export async function advanceState(env: Env, config: RuntimeConfig): Promise<MetaState> {
-  let meta = await getMeta(env);
-  const lastAt = meta.lastPriceAt ? Date.parse(meta.lastPriceAt) : 0;
-  if (!lastAt || Date.now() - lastAt >= config.priceRefreshMs) {
-    meta = await refreshPrice(env, meta);
+async function trySettle(
+  roundService: ReturnType<typeof createRoundService>,
+  round: Round
+): Promise<boolean> {
+  try {
+    return await roundService.settleRound(round);
+  } catch (error) {
+    console.warn(`Settlement failed for ${round.round_id}`, error);
+    return false;
   }
+}
 
+async function advanceTrack(
+  env: Env,
+  config: RuntimeConfig,
+  track: TrackConfig,
+  symbol: string,
+  meta: MetaState,
+  priceFresh: boolean
+): Promise<void> {
   const roundService = createRoundService(env, config);
-  let live = await roundService.getLiveRound();
+  let live = await roundService.getLiveRound(symbol, track.id);
 
   if (live && live.status === 'betting') {
     const lockMs = roundService.getLockTimeMs(live);
     if (lockMs <= Date.now()) {
       const submissions = await roundService.countJudgments(live.round_id);
       if (submissions === 0) {
-        await roundService.cancelRound(live);
+        await roundService.voidRound(live, 'no_submissions');
         live = null;
       } else {
         await roundService.lockRound(live);
         live = { ...live, status: 'locked' };
+        try {
+          await revealHouseAgents(env, live);
+        } catch (error) {
+          console.warn(`House reveals failed on ${live.round_id}`, error);
+        }
       }
     }
   }
@@ -31,18 +51,75 @@ export async function advanceState(env: Env, config: RuntimeConfig): Promise<Met
   if (live && live.status === 'locked') {
     const endMs = new Date(live.end_time).getTime();
     if (endMs <= Date.now()) {
-      await roundService.settleRound(live, meta);
+      const settled = await trySettle(roundService, live);
+      if (!settled && Date.now() - endMs > config.settlementToleranceMs) {
+        await roundService.voidRound(live, 'price_unavailable');
+      }
     }
   }
 
-  const liveAfter = await roundService.getLiveRound();
+  if (!priceFresh) return;
+
+  const liveAfter = await roundService.getLiveRound(symbol, track.id);
   if (!liveAfter) {
     const hasAgents = await roundService.hasActiveAgents();
     if (hasAgents) {
-      await roundService.startRound(meta);
+      const started = await roundService.startRound(meta, symbol, track);
+      // House agents give every round baseline opponents, so it never voids for lack of
+      // submissions.
+      if (started) {
+        try {
+          await runHouseAgents(env, config, started);
+        } catch (error) {
+          console.warn(`House agents failed on ${started.round_id}`, error);
+        }
+      }
+    }
+  }
+}
+
+async function advanceAsset(
+  env: Env,
+  config: RuntimeConfig,
+  coin: string,
+  tracks: TrackConfig[]
+): Promise<MetaState> {
+  let meta = await getMeta(env, coin);
+  const lastAt = meta.lastPriceAt ? Date.parse(meta.lastPriceAt) : 0;
+  let priceFresh = Boolean(lastAt) && Date.now() - lastAt < config.priceStaleMs;
+  if (!lastAt || Date.now() - lastAt >= config.priceRefreshMs) {
+    try {
+      meta = await refreshPrice(env, coin, meta);
+      priceFresh = true;
+    } catch (error) {
+      // Locked rounds still settle from klines (or void); only new rounds wait for a fresh price.
+      console.warn(`Price refresh failed for ${coin}`, error);
     }
   }
 
-  await setMeta(env, meta);
+  const symbol = symbolForCoin(coin);
+  for (const track of tracks) {
+    await advanceTrack(env, config, track, symbol, meta, priceFresh);
+  }
+
+  await setMeta(env, coin, meta);
   return meta;
 }
+
+export async function advanceState(
+  env: Env,
+  config: RuntimeConfig,
+  trackId?: string
+): Promise<Record<string, MetaState>> {
+  const tracks = trackId ? [getTrack(config, trackId)] : config.tracks;
+  const metas: Record<string, MetaState> = {};
+  for (const coin of config.assets) {
+    try {
+      metas[coin] = await advanceAsset(env, config, coin, tracks);
+    } catch (error) {
+      // One asset's feed outage must not block rounds on the others.
+      console.error(`advanceState failed for ${coin}`, error);
+    }
+  }
+  return metas;
+}
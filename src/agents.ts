@@ -1,31 +1,81 @@
 import type { Agent } from './types';
 
-export const DEFAULT_AGENTS: Agent[] = [
+type Direction = 'UP' | 'DOWN' | 'FLAT';
+
+// Reason rule attached to every house judgment; its direction always follows the judgment.
+export type HouseReason = {
+  timeframe: string;
+  pattern: string;
+};
+
+export type HouseStrategy =
+  | { kind: 'always'; direction: Direction; confidence: number; reason: HouseReason }
+  | { kind: 'random'; min_confidence: number; max_confidence: number; reason: HouseReason }
+  // Calls `direction` only while `pattern` holds on the latest closed `timeframe` candles, and
+  // sits the round out otherwise. The pattern doubles as the reason rule.
+  | {
+      kind: 'pattern';
+      pattern: string;
+      timeframe: string;
+      direction: Direction;
+      confidence: number;
+    };
+
+export type HouseAgent = Pick<Agent, 'id' | 'name' | 'persona' | 'prompt'> & {
+  strategy: HouseStrategy;
+};
+
+export const DEFAULT_AGENTS: HouseAgent[] = [
   {
     id: 'bull_v1',
     name: 'BullClaw',
     persona: '只判上涨，绝不改口',
-    status: 'active',
-    score: 1000,
     prompt:
       'You are BullClaw. You must ALWAYS choose UP/DOWN/FLAT. You are overconfident and always bullish.',
+    strategy: {
+      kind: 'always',
+      direction: 'UP',
+      confidence: 80,
+      reason: { timeframe: '5m', pattern: 'indicator.ema20_gt_ema50.v1' },
+    },
   },
   {
     id: 'bear_v1',
     name: 'BearClaw',
     persona: '只判下跌，冷酷定罪',
-    status: 'active',
-    score: 1000,
     prompt:
       'You are BearClaw. You must ALWAYS choose UP/DOWN/FLAT. You are overconfident and always bearish.',
+    strategy: {
+      kind: 'always',
+      direction: 'DOWN',
+      confidence: 80,
+      reason: { timeframe: '5m', pattern: 'indicator.ema20_lt_ema50.v1' },
+    },
   },
   {
     id: 'chaos_v1',
     name: 'ChaosClaw',
     persona: '无理由站队，情绪裁决',
-    status: 'active',
-    score: 1000,
     prompt:
       'You are ChaosClaw. You must ALWAYS choose UP/DOWN/FLAT. You are moody and unpredictable.',
+    strategy: {
+      kind: 'random',
+      min_confidence: 30,
+      max_confidence: 95,
+      reason: { timeframe: '1m', pattern: 'candle.doji.v1' },
+    },
+  },
+  {
+    id: 'trend_v1',
+    name: 'TrendClaw',
+    persona: '只跟趋势，不见均线不出手',
+    prompt: 'You are TrendClaw. You only call UP while EMA20 is above EMA50 on the 15m chart.',
+    strategy: {
+      kind: 'pattern',
+      pattern: 'indicator.ema20_gt_ema50.v1',
+      timeframe: '15m',
+      direction: 'UP',
+      confidence: 65,
+    },
   },
 ];
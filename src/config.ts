@@ -1,6 +1,22 @@
-import type { Env } from './types';
+import { DEFAULT_AGENTS } from './agents';
+import { DEFAULT_SCORING_STRATEGY, isScoringStrategy } from './services/scoringService';
+import type { Env, GameMode, SubmissionMode } from './types';
+
+export type TrackConfig = {
+  id: string;
+  durationMin: number;
+  durationMs: number;
+  lockWindowMin: number;
+  lockWindowMs: number;
+  flatThresholdPct: number;
+  submissionMode: SubmissionMode;
+  scoringStrategy: string;
+  gameMode: GameMode;
+};
 
 export type RuntimeConfig = {
+  assets: string[];
+  tracks: TrackConfig[];
   roundDurationMin: number;
   roundDurationMs: number;
   priceRefreshMs: number;
@@ -9,26 +25,51 @@ export type RuntimeConfig = {
   lockWindowMs: number;
   signatureWindowSec: number;
   signatureWindowMs: number;
+  settlementToleranceSec: number;
+  settlementToleranceMs: number;
   flatThresholdPct: number;
+  scoringStrategy: string;
+  poolStartingBankroll: number;
+  poolMinStake: number;
+  poolHouseCutPct: number;
+  houseAgents: string[];
+  seasonStartMs: number | null;
+  seasonLengthDays: number;
+  seasonLengthMs: number;
+  seasonBaselineScore: number;
   feedLimit: number;
   verdictLimit: number;
   judgmentLimit: number;
   roundLimit: number;
   scoreEventLimit: number;
+  ratingHistoryLimit: number;
+  roundEventLimit: number;
 };
 
 const DEFAULTS = {
+  asset: 'BTC',
+  trackId: 'standard',
   roundDurationMin: 30,
   priceRefreshMs: 10_000,
   priceStaleMs: 30_000,
   lockWindowMin: 10,
   signatureWindowSec: 300,
+  settlementToleranceSec: 300,
   flatThresholdPct: 0.2,
+  poolStartingBankroll: 1000,
+  poolMinStake: 10,
+  poolHouseCutPct: 0,
+  seasonLengthDays: 30,
+  seasonBaselineScore: 0,
   feedLimit: 200,
   verdictLimit: 200,
   judgmentLimit: 800,
+  // Per asset × track stream, so adding streams does not shorten each one's history.
   roundLimit: 200,
   scoreEventLimit: 1000,
+  // Per agent: rating history is trimmed agent by agent.
+  ratingHistoryLimit: 500,
+  roundEventLimit: 1000,
 };
 
 function parseNumber(value: string | undefined, fallback: number) {
@@ -36,6 +77,109 @@ function parseNumber(value: string | undefined, fallback: number) {
   return Number.isFinite(parsed) ? parsed : fallback;
 }
 
+export function parseAssets(env?: Env): string[] {
+  const raw = env?.ASSETS || env?.HL_COIN || DEFAULTS.asset;
+  const assets: string[] = [];
+  for (const item of raw.split(',')) {
+    const coin = item.replace(/[^a-zA-Z]/g, '').toUpperCase();
+    if (coin && !assets.includes(coin)) {
+      assets.push(coin);
+    }
+  }
+  return assets.length > 0 ? assets : [DEFAULTS.asset];
+}
+
+function buildTrack(
+  id: string,
+  durationMin: number,
+  lockWindowMin: number,
+  flatThresholdPct: number,
+  modes: Partial<Pick<TrackConfig, 'submissionMode' | 'scoringStrategy' | 'gameMode'>> = {}
+): TrackConfig {
+  return {
+    id,
+    durationMin,
+    durationMs: durationMin * 60 * 1000,
+    lockWindowMin,
+    lockWindowMs: lockWindowMin * 60 * 1000,
+    flatThresholdPct,
+    submissionMode: modes.submissionMode ?? 'open',
+    scoringStrategy: modes.scoringStrategy ?? DEFAULT_SCORING_STRATEGY,
+    gameMode: modes.gameMode ?? 'points',
+  };
+}
+
+function parseTracks(raw: string | undefined, fallback: TrackConfig): TrackConfig[] {
+  if (!raw || raw.trim() === '') return [fallback];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.warn('Invalid TRACKS config, using default track');
+    return [fallback];
+  }
+  if (!Array.isArray(parsed)) return [fallback];
+
+  const tracks: TrackConfig[] = [];
+  for (const item of parsed) {
+    const id = typeof item?.id === 'string' ? item.id.trim().toLowerCase() : '';
+    if (!/^[a-z0-9]+$/.test(id) || tracks.some((track) => track.id === id)) continue;
+    const durationMin = parseNumber(item.duration_min, fallback.durationMin);
+    const lockWindowMin = parseNumber(item.lock_window_min, fallback.lockWindowMin);
+    const flatThresholdPct = parseNumber(item.flat_threshold_pct, fallback.flatThresholdPct);
+    const submissionMode: SubmissionMode =
+      item.submission_mode === 'commit_reveal' ? 'commit_reveal' : 'open';
+    let scoringStrategy = fallback.scoringStrategy;
+    if (item.scoring !== undefined) {
+      if (isScoringStrategy(item.scoring)) {
+        scoringStrategy = item.scoring;
+      } else {
+        console.warn(`Unknown scoring strategy for track ${id}, using ${scoringStrategy}`);
+      }
+    }
+    if (durationMin <= 0 || lockWindowMin <= 0 || lockWindowMin >= durationMin) continue;
+    const gameMode: GameMode = item.game_mode === 'pool' ? 'pool' : 'points';
+    tracks.push(
+      buildTrack(id, durationMin, lockWindowMin, flatThresholdPct, {
+        submissionMode,
+        scoringStrategy,
+        gameMode,
+      })
+    );
+  }
+  return tracks.length > 0 ? tracks : [fallback];
+}
+
+export function findTrack(config: RuntimeConfig, trackId: string | null | undefined) {
+  return config.tracks.find((track) => track.id === trackId) ?? null;
+}
+
+export function getTrack(config: RuntimeConfig, trackId: string | null | undefined): TrackConfig {
+  if (!trackId) return config.tracks[0];
+  const track = findTrack(config, trackId);
+  if (!track) {
+    throw new Error(`Unknown track: ${trackId}`);
+  }
+  return track;
+}
+
+// HOUSE_AGENTS: comma-separated house agent ids; unset runs all of them, "none" (or empty) none.
+export function parseHouseAgents(raw: string | undefined): string[] {
+  const known = DEFAULT_AGENTS.map((agent) => agent.id);
+  if (raw === undefined) return known;
+  const ids: string[] = [];
+  for (const item of raw.split(',')) {
+    const id = item.trim();
+    if (!id || id.toLowerCase() === 'none' || ids.includes(id)) continue;
+    if (!known.includes(id)) {
+      console.warn(`Unknown house agent ${id}, skipping`);
+      continue;
+    }
+    ids.push(id);
+  }
+  return ids;
+}
+
 export function getRuntimeConfig(env?: Env): RuntimeConfig {
   const roundDurationMin = parseNumber(env?.ROUND_DURATION_MIN, DEFAULTS.roundDurationMin);
   const priceRefreshMs = parseNumber(env?.PRICE_REFRESH_MS, DEFAULTS.priceRefreshMs);
@@ -45,9 +189,55 @@ export function getRuntimeConfig(env?: Env): RuntimeConfig {
     env?.SIGNATURE_WINDOW_SEC,
     DEFAULTS.signatureWindowSec
   );
+  const settlementToleranceSec = parseNumber(
+    env?.SETTLEMENT_TOLERANCE_SEC,
+    DEFAULTS.settlementToleranceSec
+  );
   const flatThresholdPct = parseNumber(env?.FLAT_THRESHOLD_PCT, DEFAULTS.flatThresholdPct);
 
+  const poolStartingBankroll = Math.max(
+    1,
+    parseNumber(env?.POOL_STARTING_BANKROLL, DEFAULTS.poolStartingBankroll)
+  );
+  const poolMinStake = Math.max(1, parseNumber(env?.POOL_MIN_STAKE, DEFAULTS.poolMinStake));
+  const poolHouseCutPct = Math.min(
+    Math.max(0, parseNumber(env?.POOL_HOUSE_CUT_PCT, DEFAULTS.poolHouseCutPct)),
+    100
+  );
+
+  const seasonStartMs = env?.SEASON_START ? Date.parse(env.SEASON_START) : NaN;
+  const seasonLengthDays = Math.max(
+    1,
+    parseNumber(env?.SEASON_LENGTH_DAYS, DEFAULTS.seasonLengthDays)
+  );
+  const seasonBaselineScore = parseNumber(
+    env?.SEASON_BASELINE_SCORE,
+    DEFAULTS.seasonBaselineScore
+  );
+
+  let scoringStrategy = DEFAULT_SCORING_STRATEGY;
+  if (env?.SCORING_STRATEGY) {
+    if (isScoringStrategy(env.SCORING_STRATEGY)) {
+      scoringStrategy = env.SCORING_STRATEGY;
+    } else {
+      console.warn(`Unknown SCORING_STRATEGY ${env.SCORING_STRATEGY}, using ${scoringStrategy}`);
+    }
+  }
+
+  const defaultTrack = buildTrack(
+    DEFAULTS.trackId,
+    roundDurationMin,
+    lockWindowMin,
+    flatThresholdPct,
+    { scoringStrategy }
+  );
+
+  const assets = parseAssets(env);
+  const tracks = parseTracks(env?.TRACKS, defaultTrack);
+
   return {
+    assets,
+    tracks,
     roundDurationMin,
     roundDurationMs: roundDurationMin * 60 * 1000,
     priceRefreshMs,
@@ -56,11 +246,24 @@ export function getRuntimeConfig(env?: Env): RuntimeConfig {
     lockWindowMs: lockWindowMin * 60 * 1000,
     signatureWindowSec,
     signatureWindowMs: signatureWindowSec * 1000,
+    settlementToleranceSec,
+    settlementToleranceMs: settlementToleranceSec * 1000,
     flatThresholdPct,
+    scoringStrategy,
+    poolStartingBankroll,
+    poolMinStake,
+    poolHouseCutPct,
+    houseAgents: parseHouseAgents(env?.HOUSE_AGENTS),
+    seasonStartMs: Number.isFinite(seasonStartMs) ? seasonStartMs : null,
+    seasonLengthDays,
+    seasonLengthMs: seasonLengthDays * 24 * 60 * 60 * 1000,
+    seasonBaselineScore,
     feedLimit: DEFAULTS.feedLimit,
     verdictLimit: DEFAULTS.verdictLimit,
     judgmentLimit: DEFAULTS.judgmentLimit,
-    roundLimit: DEFAULTS.roundLimit,
+    roundLimit: DEFAULTS.roundLimit * assets.length * tracks.length,
     scoreEventLimit: DEFAULTS.scoreEventLimit,
+    ratingHistoryLimit: DEFAULTS.ratingHistoryLimit,
+    roundEventLimit: DEFAULTS.roundEventLimit,
   };
 }
@@ -1,37 +1,72 @@
 import type { Env, MetaState } from './types';
 
 const DEFAULT_META: MetaState = {
-  lastPrice: 42000,
-  currentPrice: 42000,
+  lastPrice: 0,
+  currentPrice: 0,
   lastDeltaPct: 0,
   lastPriceAt: null,
 };
 
-type TrimTable = 'rounds' | 'judgments' | 'verdicts' | 'score_events' | 'flip_cards';
+type TrimTable =
+  | 'rounds'
+  | 'judgments'
+  | 'verdicts'
+  | 'score_events'
+  | 'flip_cards'
+  | 'round_events'
+  | 'judgment_commits'
+  | 'rating_history'
+  | 'round_consensus'
+  | 'round_transitions'
+  | 'house_reveals';
 
-const TRIM_CONFIG: Record<TrimTable, { id: string; order: string }> = {
-  rounds: { id: 'round_id', order: 'start_time' },
-  judgments: { id: 'id', order: 'timestamp' },
+// Rounds still to be settled; settlement needs their rows.
+const OPEN_ROUND_SQL = "SELECT round_id FROM rounds WHERE status IN ('betting', 'locked')";
+
+// `partition` keeps `limit` rows per value of that column instead of across the table; rows
+// matching `keep` are never trimmed and do not count towards the limit.
+const TRIM_CONFIG: Record<
+  TrimTable,
+  { id: string; order: string; partition?: string; keep?: string }
+> = {
+  rounds: { id: 'round_id', order: 'start_time', keep: "status IN ('betting', 'locked')" },
+  judgments: { id: 'id', order: 'timestamp', keep: `round_id IN (${OPEN_ROUND_SQL})` },
   verdicts: { id: 'id', order: 'timestamp' },
   score_events: { id: 'id', order: 'timestamp' },
   flip_cards: { id: 'id', order: 'timestamp' },
+  round_events: { id: 'id', order: 'id' },
+  judgment_commits: { id: 'id', order: 'committed_at', keep: `round_id IN (${OPEN_ROUND_SQL})` },
+  rating_history: { id: 'id', order: 'timestamp', partition: 'agent_id' },
+  round_consensus: {
+    id: 'round_id',
+    order: 'computed_at',
+    keep: `round_id IN (${OPEN_ROUND_SQL})`,
+  },
+  round_transitions: { id: 'id', order: 'id' },
+  house_reveals: { id: 'id', order: 'committed_at', keep: `round_id IN (${OPEN_ROUND_SQL})` },
 };
 
-export async function getMeta(env: Env): Promise<MetaState> {
-  const result = await env.DB.prepare('SELECT key, value FROM meta').all<{
-    key: string;
-    value: string;
-  }>();
+function metaKey(coin: string, key: keyof MetaState): string {
+  return `${key}:${coin}`;
+}
+
+export async function getMeta(env: Env, coin: string): Promise<MetaState> {
+  const result = await env.DB.prepare('SELECT key, value FROM meta WHERE key LIKE ?')
+    .bind(`%:${coin}`)
+    .all<{
+      key: string;
+      value: string;
+    }>();
 
   const meta: MetaState = { ...DEFAULT_META };
   for (const row of result.results ?? []) {
-    if (row.key === 'lastPrice') {
+    if (row.key === metaKey(coin, 'lastPrice')) {
       meta.lastPrice = Number(row.value) || meta.lastPrice;
-    } else if (row.key === 'currentPrice') {
+    } else if (row.key === metaKey(coin, 'currentPrice')) {
       meta.currentPrice = Number(row.value) || meta.currentPrice;
-    } else if (row.key === 'lastDeltaPct') {
+    } else if (row.key === metaKey(coin, 'lastDeltaPct')) {
       meta.lastDeltaPct = Number(row.value) || meta.lastDeltaPct;
-    } else if (row.key === 'lastPriceAt') {
+    } else if (row.key === metaKey(coin, 'lastPriceAt')) {
       meta.lastPriceAt = row.value || null;
     }
   }
@@ -39,15 +74,15 @@ export async function getMeta(env: Env): Promise<MetaState> {
   return meta;
 }
 
-export async function setMeta(env: Env, meta: MetaState): Promise<void> {
+export async function setMeta(env: Env, coin: string, meta: MetaState): Promise<void> {
   const stmt = env.DB.prepare(
     'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
   );
   await env.DB.batch([
-    stmt.bind('lastPrice', String(meta.lastPrice)),
-    stmt.bind('currentPrice', String(meta.currentPrice)),
-    stmt.bind('lastDeltaPct', String(meta.lastDeltaPct)),
-    stmt.bind('lastPriceAt', meta.lastPriceAt || ''),
+    stmt.bind(metaKey(coin, 'lastPrice'), String(meta.lastPrice)),
+    stmt.bind(metaKey(coin, 'currentPrice'), String(meta.currentPrice)),
+    stmt.bind(metaKey(coin, 'lastDeltaPct'), String(meta.lastDeltaPct)),
+    stmt.bind(metaKey(coin, 'lastPriceAt'), meta.lastPriceAt || ''),
   ]);
 }
 
@@ -77,6 +112,9 @@ export async function trimTable(
 ): Promise<void> {
   if (!limit || limit <= 0) return;
   const config = TRIM_CONFIG[table];
-  const sql = `DELETE FROM ${table} WHERE ${config.id} NOT IN (SELECT ${config.id} FROM ${table} ORDER BY ${config.order} DESC LIMIT ?)`;
+  const trimmable = config.keep ? `NOT (${config.keep})` : '1 = 1';
+  const sql = config.partition
+    ? `DELETE FROM ${table} WHERE ${config.id} IN (SELECT ${config.id} FROM (SELECT ${config.id}, ROW_NUMBER() OVER (PARTITION BY ${config.partition} ORDER BY ${config.order} DESC) AS rank FROM ${table} WHERE ${trimmable}) WHERE rank > ?)`
+    : `DELETE FROM ${table} WHERE ${trimmable} AND ${config.id} NOT IN (SELECT ${config.id} FROM ${table} WHERE ${trimmable} ORDER BY ${config.order} DESC LIMIT ?)`;
   await env.DB.prepare(sql).bind(limit).run();
 }
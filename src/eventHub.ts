@@ -0,0 +1,161 @@
+import { parseAssets } from './config';
+import {
+  applySubscription,
+  normalizeChannels,
+  notifyPriceSubscriptions,
+  parseClientCommand,
+  subscribedCoins,
+  type HubMessage,
+} from './services/eventHubService';
+import type { Env } from './types';
+
+type SocketAttachment = {
+  channels: string[];
+};
+
+// Fan-out hub for public WebSocket clients. Uses the hibernation API, so idle sockets cost nothing
+// and subscriptions live in each socket's attachment rather than in memory.
+export class EventHubDO {
+  private state: DurableObjectState;
+  private env: Env;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+    this.state.setWebSocketAutoResponse(new WebSocketRequestResponsePair('ping', 'pong'));
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === '/connect') {
+      return this.handleConnect(request, url);
+    }
+    if (url.pathname === '/subscriptions') {
+      return this.json({ ok: true, coins: subscribedCoins(this.channelSets()) });
+    }
+    if (url.pathname === '/publish' && request.method === 'POST') {
+      return this.handlePublish(request);
+    }
+    if (url.pathname === '/diag') {
+      return this.json({ ok: true, sockets: this.state.getWebSockets().length });
+    }
+    return new Response('Not found', { status: 404 });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    if (typeof message !== 'string') return;
+    const command = parseClientCommand(message);
+    if (!command) {
+      this.send(ws, { type: 'error', message: 'Expected {"op":"subscribe"|"unsubscribe","channels":[...]}' });
+      return;
+    }
+    const before = subscribedCoins(this.channelSets());
+    const current = this.getChannels(ws);
+    const { channels, invalid } = applySubscription(current, command, this.coins);
+    ws.serializeAttachment({ channels } satisfies SocketAttachment);
+    this.send(ws, { type: 'subscribed', channels, invalid });
+    await this.syncPriceSubscriptions(before, subscribedCoins(this.channelSets()));
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    try {
+      ws.close(code, reason);
+    } catch {
+      // already closed
+    }
+    await this.dropSubscriptions(ws);
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    try {
+      ws.close(1011, 'WebSocket error');
+    } catch {
+      // already closed
+    }
+    await this.dropSubscriptions(ws);
+  }
+
+  private get coins() {
+    return parseAssets(this.env);
+  }
+
+  private json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  private send(ws: WebSocket, payload: unknown) {
+    try {
+      ws.send(JSON.stringify(payload));
+    } catch {
+      // socket went away between getWebSockets() and send()
+    }
+  }
+
+  private getChannels(ws: WebSocket): string[] {
+    const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+    return Array.isArray(attachment?.channels) ? attachment.channels : [];
+  }
+
+  // Channels of every open socket except `exclude`.
+  private channelSets(exclude?: WebSocket): string[][] {
+    return this.state
+      .getWebSockets()
+      .filter((ws) => ws !== exclude)
+      .map((ws) => this.getChannels(ws));
+  }
+
+  // The closing socket may or may not still be listed, so compare with and without it explicitly.
+  private async dropSubscriptions(ws: WebSocket) {
+    const others = this.channelSets(ws);
+    await this.syncPriceSubscriptions(
+      subscribedCoins([...others, this.getChannels(ws)]),
+      subscribedCoins(others)
+    );
+  }
+
+  // Subscriptions live in socket attachments, so the price feed is only told when the coin set
+  // actually changes; an idle hub then receives no price publishes at all.
+  private async syncPriceSubscriptions(before: string[], after: string[]) {
+    if (before.join(',') === after.join(',')) return;
+    await notifyPriceSubscriptions(this.env, after);
+  }
+
+  private async handleConnect(request: Request, url: URL): Promise<Response> {
+    if (request.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
+      return this.json({ ok: false, message: 'Expected WebSocket upgrade' }, 426);
+    }
+    const { channels, invalid } = normalizeChannels(url.searchParams.get('channels'), this.coins);
+    const before = subscribedCoins(this.channelSets());
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair);
+    this.state.acceptWebSocket(server);
+    server.serializeAttachment({ channels } satisfies SocketAttachment);
+    this.send(server, { type: 'subscribed', channels, invalid });
+    await this.syncPriceSubscriptions(before, subscribedCoins(this.channelSets()));
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  private async handlePublish(request: Request): Promise<Response> {
+    let body: { messages?: HubMessage[] };
+    try {
+      body = (await request.json()) as { messages?: HubMessage[] };
+    } catch {
+      return this.json({ ok: false, message: 'Invalid JSON' }, 400);
+    }
+    const messages = Array.isArray(body?.messages) ? body.messages : [];
+    let delivered = 0;
+    const sockets = this.state.getWebSockets();
+    for (const ws of sockets) {
+      const channels = this.getChannels(ws);
+      for (const message of messages) {
+        if (!channels.includes(message.channel)) continue;
+        this.send(ws, message);
+        delivered += 1;
+      }
+    }
+    return this.json({ ok: true, delivered });
+  }
+}
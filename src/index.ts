@@ -1,20 +1,36 @@
 import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
-import { advanceState } from './advanceState';
-import { getMeta, getMetaValue, setMetaValue, trimTable } from './db';
-import type { Agent, Env } from './types';
+import { getMeta, getMetaValue, setMetaValue } from './db';
+import type { Agent, Env, Round } from './types';
 import { createRoundService } from './services/roundService';
-import { getLivePrice } from './services/priceService';
-import { buildKlinesResponse, getKlineConfig } from './services/klineService';
-import { getRuntimeConfig } from './config';
+import { getLivePrice, getPriceHistory } from './services/priceService';
+import { requestAdvance, requestDiagnostics, requestVoid } from './services/coordinatorService';
+import { listSchedule } from './services/scheduleService';
+import {
+  buildKlinesResponse,
+  coinFromSymbol,
+  getKlineConfig,
+  symbolForCoin,
+} from './services/klineService';
+import { getRuntimeConfig, getTrack, type RuntimeConfig } from './config';
 import {
   generateClaimToken,
   generateVerificationCode,
   slugifyAgentId,
 } from './services/agentService';
-import { validateJudgmentPayload } from './services/judgmentValidation';
-import { evaluatePendingReasonRules, evaluateReasonRuleOnSubmit } from './services/reasonRuleService';
+import { commitJudgment, revealJudgment, submitJudgment } from './services/judgmentService';
+import { evaluatePendingReasonRules } from './services/reasonRuleService';
+import { listIndicators } from './services/indicatorRegistry';
+import { listPatterns, PATTERN_FAMILIES } from './services/patternRegistry';
+import { scanLivePatterns } from './services/patternScanService';
 import { getReasonStats } from './services/reasonStatsService';
+import { getAgentCalibration } from './services/calibrationService';
+import { backtestRule } from './services/backtestService';
+import { getRoundConsensus } from './services/consensusService';
+import { getLevelLeaderboard, isLevelKind } from './services/levelForecastService';
+import { listRatingHistory, ratingOf } from './services/ratingService';
+import { createSeasonService } from './services/seasonService';
+import { listScoringStrategies } from './services/scoringService';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -148,13 +164,41 @@ async function authenticateBearer(
   return { agent, error: null };
 }
 
-async function buildRoundContext(env: Env) {
+function resolveSymbol(
+  config: RuntimeConfig,
+  input: { symbol?: unknown; coin?: unknown }
+): string {
+  const raw =
+    typeof input.coin === 'string' && input.coin.trim()
+      ? input.coin
+      : typeof input.symbol === 'string'
+        ? coinFromSymbol(input.symbol.trim())
+        : null;
+  const coin = raw ? raw.trim().toUpperCase() : config.assets[0];
+  if (!config.assets.includes(coin)) {
+    throw new Error(`Unsupported coin: ${coin}`);
+  }
+  return symbolForCoin(coin);
+}
+
+function resolveTrackId(config: RuntimeConfig, input: unknown): string {
+  const trackId = typeof input === 'string' && input.trim() ? input.trim().toLowerCase() : null;
+  return getTrack(config, trackId).id;
+}
+
+async function buildRoundContext(
+  env: Env,
+  input: { symbol?: unknown; coin?: unknown; trackId?: unknown } = {}
+) {
   const config = getRuntimeConfig(env);
-  const meta = await getMeta(env);
+  const symbol = resolveSymbol(config, input);
+  const trackId = resolveTrackId(config, input.trackId);
+  const coin = coinFromSymbol(symbol) as string;
+  const meta = await getMeta(env, coin);
   const roundService = createRoundService(env, config);
   let currentPrice = meta.currentPrice;
   try {
-    const live = await getLivePrice(env);
+    const live = await getLivePrice(env, coin);
     const updatedAtMs = Date.parse(live.updatedAt);
     if (Number.isFinite(updatedAtMs) && Date.now() - updatedAtMs <= config.priceStaleMs) {
       currentPrice = live.price;
@@ -163,24 +207,39 @@ async function buildRoundContext(env: Env) {
     // ignore
   }
 
-  const live = await roundService.getLiveRound();
+  const symbols = config.assets.map((item) => symbolForCoin(item));
+  const tracks = config.tracks.map((track) => track.id);
+  const live = await roundService.getLiveRound(symbol, trackId);
   if (!live) {
     return {
       server_time: new Date().toISOString(),
+      track_id: trackId,
+      tracks,
+      symbol,
+      symbols,
       live: null,
     };
   }
   const lockTimeMs = roundService.getLockTimeMs(live);
+  const pool = await roundService.getPoolOdds(live);
   return {
     server_time: new Date().toISOString(),
+    track_id: trackId,
+    tracks,
+    symbol,
+    symbols,
     live: {
       round_id: live.round_id,
+      track_id: live.track_id,
       symbol: live.symbol,
       status: live.status,
       start_time: live.start_time,
       end_time: live.end_time,
       lock_time: new Date(lockTimeMs).toISOString(),
+      submission_mode: live.submission_mode ?? 'open',
+      game_mode: live.game_mode ?? 'points',
       current_price: currentPrice,
+      pool,
     },
   };
 }
@@ -191,7 +250,21 @@ app.get('/api/health', (c) => {
 
 app.post('/api/advance', async (c) => {
   const config = getRuntimeConfig(c.env);
-  const meta = await advanceState(c.env, config);
+  const trackQuery = c.req.query('track');
+  let trackId: string | undefined;
+  try {
+    trackId = trackQuery ? resolveTrackId(config, trackQuery) : undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+  let meta;
+  try {
+    meta = await requestAdvance(c.env, trackId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Advance failed';
+    return c.json({ ok: false, message }, 503);
+  }
   return c.json({
     ok: true,
     server_time: new Date().toISOString(),
@@ -222,6 +295,11 @@ app.get('/api/diagnostics/hyperliquid', async (c) => {
   return c.json(payload, res.status as any);
 });
 
+app.get('/api/diagnostics/coordinator', async (c) => {
+  const result = await requestDiagnostics(c.env);
+  return c.json(result.body, result.status);
+});
+
 app.get('/api/diagnostics/hyperliquid/last', async (c) => {
   const raw = await getMetaValue(c.env, 'lastHyperliquidDiag');
   if (!raw) {
@@ -234,6 +312,19 @@ app.get('/api/diagnostics/hyperliquid/last', async (c) => {
   }
 });
 
+app.get('/ws', async (c) => {
+  if (c.req.header('upgrade')?.toLowerCase() !== 'websocket') {
+    return c.json({ ok: false, message: 'Expected WebSocket upgrade' }, 426);
+  }
+  if (!c.env.EVENT_HUB) {
+    return c.json({ ok: false, message: 'Event hub not configured' }, 503);
+  }
+  const url = new URL(c.req.url);
+  const id = c.env.EVENT_HUB.idFromName('primary');
+  const stub = c.env.EVENT_HUB.get(id);
+  return stub.fetch(`https://event-hub/connect${url.search}`, c.req.raw);
+});
+
 app.get('/api/klines', async (c) => {
   const cacheConfig = getKlineConfig(c.env);
   const cache = caches.default;
@@ -242,10 +333,6 @@ app.get('/api/klines', async (c) => {
   if (cached) return cached;
 
   const query = c.req.query();
-  const config = getRuntimeConfig(c.env);
-  const roundService = createRoundService(c.env, config);
-  const live = await roundService.getLiveRound();
-  const fallbackSymbol = live?.symbol ?? null;
 
   try {
     const response = await buildKlinesResponse(c.env, {
@@ -256,7 +343,6 @@ app.get('/api/klines', async (c) => {
       startTime: query.start_time,
       endTime: query.end_time,
       raw: query.raw,
-      fallbackSymbol,
     });
 
     const hasData = Object.values(response.data).some((items) => items.length > 0);
@@ -275,10 +361,24 @@ app.get('/api/klines', async (c) => {
 
 app.get('/api/summary', async (c) => {
   const config = getRuntimeConfig(c.env);
-  const meta = await getMeta(c.env);
+  let symbol: string;
+  let trackId: string;
+  try {
+    symbol = resolveSymbol(config, { symbol: c.req.query('symbol'), coin: c.req.query('coin') });
+    trackId = resolveTrackId(config, c.req.query('track'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+  const sort = c.req.query('sort') ?? 'score';
+  if (sort !== 'score' && sort !== 'rating') {
+    return c.json({ ok: false, message: 'sort must be score or rating' }, 400);
+  }
+  const coin = coinFromSymbol(symbol) as string;
+  const meta = await getMeta(c.env, coin);
   const roundService = createRoundService(c.env, config);
   try {
-    const live = await getLivePrice(c.env);
+    const live = await getLivePrice(c.env, coin);
     const updatedAtMs = Date.parse(live.updatedAt);
     if (Number.isFinite(updatedAtMs) && Date.now() - updatedAtMs <= config.priceStaleMs) {
       meta.currentPrice = live.price;
@@ -286,10 +386,192 @@ app.get('/api/summary', async (c) => {
   } catch (error) {
     console.warn('Live price unavailable', error);
   }
-  const summary = await roundService.buildSummary(meta);
+  const summary = await roundService.buildSummary(meta, symbol, trackId, sort);
   return c.json(summary);
 });
 
+app.get('/api/rounds/:id/price-path', async (c) => {
+  const round = await c.env.DB.prepare('SELECT * FROM rounds WHERE round_id = ?')
+    .bind(c.req.param('id'))
+    .first<Round>();
+  if (!round) {
+    return c.json({ ok: false, message: 'Round not found' }, 404);
+  }
+  const config = getRuntimeConfig(c.env);
+  const coin = coinFromSymbol(round.symbol) ?? config.assets[0];
+  const startMs = Date.parse(round.start_time);
+  const endMs = Math.min(Date.parse(round.end_time), Date.now());
+  try {
+    const history = await getPriceHistory(c.env, coin, startMs, endMs);
+    return c.json({
+      ok: true,
+      round_id: round.round_id,
+      track_id: round.track_id,
+      symbol: round.symbol,
+      status: round.status,
+      start_time: round.start_time,
+      end_time: round.end_time,
+      start_price: round.start_price,
+      end_price: round.end_price,
+      bucket_ms: history.bucket_ms,
+      truncated: history.truncated,
+      points: history.points,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Price history unavailable';
+    return c.json({ ok: false, message }, 503);
+  }
+});
+
+async function loadRoundConsensus(env: Env, roundId: unknown) {
+  if (typeof roundId !== 'string' || roundId.trim() === '') {
+    throw new Error('round_id is required');
+  }
+  const round = await env.DB.prepare('SELECT * FROM rounds WHERE round_id = ?')
+    .bind(roundId.trim())
+    .first<Round>();
+  if (!round) {
+    throw new Error('Round not found');
+  }
+  return { ok: true, ...(await getRoundConsensus(env, round)) };
+}
+
+app.get('/api/rounds/:id/consensus', async (c) => {
+  try {
+    return c.json(await loadRoundConsensus(c.env, c.req.param('id')));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, message === 'Round not found' ? 404 : 400);
+  }
+});
+
+app.get('/api/tracks', (c) => {
+  const config = getRuntimeConfig(c.env);
+  return c.json({
+    ok: true,
+    tracks: config.tracks.map((track) => ({
+      id: track.id,
+      duration_min: track.durationMin,
+      lock_window_min: track.lockWindowMin,
+      flat_threshold_pct: track.flatThresholdPct,
+      submission_mode: track.submissionMode,
+      scoring: track.scoringStrategy,
+      game_mode: track.gameMode,
+    })),
+    scoring_strategies: listScoringStrategies(),
+  });
+});
+
+app.get('/api/tracks/:id/leaderboard', async (c) => {
+  const config = getRuntimeConfig(c.env);
+  let trackId: string;
+  try {
+    trackId = resolveTrackId(config, c.req.param('id'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 404);
+  }
+  const sort = c.req.query('sort') ?? 'score';
+  if (sort !== 'score' && sort !== 'rating') {
+    return c.json({ ok: false, message: 'sort must be score or rating' }, 400);
+  }
+  const roundService = createRoundService(c.env, config);
+  const leaderboard = await roundService.getTrackLeaderboard(trackId, 100, sort);
+  return c.json({ ok: true, track_id: trackId, sort, leaderboard });
+});
+
+app.get('/api/leaderboards/levels', async (c) => {
+  const config = getRuntimeConfig(c.env);
+  const kind = c.req.query('kind') ?? 'target';
+  if (!isLevelKind(kind)) {
+    return c.json({ ok: false, message: 'kind must be target or range' }, 400);
+  }
+  const trackQuery = c.req.query('track');
+  let trackId: string | null = null;
+  try {
+    trackId = trackQuery ? resolveTrackId(config, trackQuery) : null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+  const leaderboard = await getLevelLeaderboard(c.env, { kind, trackId });
+  return c.json({ ok: true, kind, track_id: trackId, leaderboard });
+});
+
+app.get('/api/seasons', async (c) => {
+  const seasonService = createSeasonService(c.env, getRuntimeConfig(c.env));
+  const seasons = await seasonService.listSeasons();
+  return c.json({
+    ok: true,
+    current: seasons.find((season) => season.status === 'active')?.id ?? null,
+    seasons,
+  });
+});
+
+app.get('/api/seasons/:id/leaderboard', async (c) => {
+  const seasonService = createSeasonService(c.env, getRuntimeConfig(c.env));
+  const id = c.req.param('id');
+  const season =
+    id === 'current' ? await seasonService.getActiveSeason() : await seasonService.getSeason(id);
+  if (!season) {
+    return c.json({ ok: false, message: 'Season not found' }, 404);
+  }
+  const leaderboard = await seasonService.getSeasonLeaderboard(season);
+  return c.json({ ok: true, season, leaderboard });
+});
+
+app.get('/api/schedule', (c) => {
+  const config = getRuntimeConfig(c.env);
+  const query = c.req.query();
+  let trackIds: string[] | undefined;
+  let symbols: string[] | undefined;
+  try {
+    trackIds = query.track ? [resolveTrackId(config, query.track)] : undefined;
+    symbols =
+      query.symbol || query.coin
+        ? [resolveSymbol(config, { symbol: query.symbol, coin: query.coin })]
+        : undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+  const count = query.count ? Number(query.count) : undefined;
+  if (count !== undefined && !Number.isFinite(count)) {
+    return c.json({ ok: false, message: 'count must be a number' }, 400);
+  }
+  const now = Date.now();
+  return c.json({
+    ok: true,
+    server_time: new Date(now).toISOString(),
+    rounds: listSchedule(config, { nowMs: now, count, trackIds, symbols }),
+  });
+});
+
+app.get('/api/patterns', (c) => {
+  try {
+    const patterns = listPatterns({ family: c.req.query('family') });
+    return c.json({ ok: true, patterns, indicators: listIndicators() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+});
+
+app.get('/api/patterns/scan', async (c) => {
+  const query = c.req.query();
+  try {
+    const result = await scanLivePatterns(c.env, {
+      timeframes: query.timeframes,
+      coin: query.coin,
+      symbol: query.symbol,
+    });
+    return c.json(result, result.ok ? 200 : 502);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+});
+
 app.get('/api/reason-stats', async (c) => {
   const query = c.req.query();
   try {
@@ -334,6 +616,43 @@ app.get('/api/agents/:id/reason-stats', async (c) => {
   }
 });
 
+app.get('/api/agents/:id/calibration', async (c) => {
+  const agentId = c.req.param('id');
+  if (!agentId) {
+    return c.json({ ok: false, message: 'Invalid agent id' }, 400);
+  }
+  const existing = await c.env.DB.prepare('SELECT id FROM agents WHERE id = ?')
+    .bind(agentId)
+    .first<{ id: string }>();
+  if (!existing) {
+    return c.json({ ok: false, message: 'Agent not found' }, 404);
+  }
+
+  const query = c.req.query();
+  try {
+    const result = await getAgentCalibration(c.env, {
+      agentId,
+      since: query.since,
+      until: query.until,
+    });
+    return c.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+});
+
+app.post('/api/backtest', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  try {
+    const result = await backtestRule(c.env, getRuntimeConfig(c.env), body);
+    return c.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+});
+
 app.post('/api/v1/agents/register', async (c) => {
   const body = await c.req.json().catch(() => null);
   const name = typeof body?.name === 'string' ? body.name.trim() : '';
@@ -351,7 +670,7 @@ app.post('/api/v1/agents/register', async (c) => {
   const claimToken = generateClaimToken();
   const verificationCode = generateVerificationCode();
   const status = 'pending_claim';
-  const score = 0;
+  const score = getRuntimeConfig(c.env).seasonBaselineScore;
   const persona = description || name;
   const prompt = description || `Agent ${name}`;
 
@@ -436,7 +755,14 @@ app.get('/api/v1/agents/me', async (c) => {
       score: agent.score,
       prompt: agent.prompt,
       claimed_at: agent.claimed_at ?? null,
+      bankroll: agent.bankroll ?? getRuntimeConfig(c.env).poolStartingBankroll,
+      bankroll_topups: agent.bankroll_topups ?? 0,
+      rating: {
+        ...ratingOf(agent),
+        rated_rounds: agent.rated_rounds ?? 0,
+      },
     },
+    rating_history: await listRatingHistory(c.env, agent.id),
   });
 });
 
@@ -445,7 +771,33 @@ app.post('/api/v1/judgments', async (c) => {
   if (auth.error) return auth.error;
   const body = await c.req.json().catch(() => null);
   try {
-    const result = await handleSubmitJudgment(c.env, auth.agent!.id, body);
+    const result = await submitJudgment(c.env, auth.agent!.id, body);
+    return c.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+});
+
+app.post('/api/v1/judgments/commit', async (c) => {
+  const auth = await authenticateBearer(c, { requireActive: true });
+  if (auth.error) return auth.error;
+  const body = await c.req.json().catch(() => null);
+  try {
+    const result = await commitJudgment(c.env, auth.agent!.id, body);
+    return c.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+});
+
+app.post('/api/v1/judgments/reveal', async (c) => {
+  const auth = await authenticateBearer(c, { requireActive: true });
+  if (auth.error) return auth.error;
+  const body = await c.req.json().catch(() => null);
+  try {
+    const result = await revealJudgment(c.env, auth.agent!.id, body);
     return c.json(result);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Invalid request';
@@ -470,7 +822,7 @@ app.post('/api/admin/agents', async (c) => {
     return c.json({ ok: false, message: 'Missing required fields' }, 400);
   }
   const status = body.status ?? 'active';
-  const scoreValue = body.score ?? 0;
+  const scoreValue = body.score ?? getRuntimeConfig(c.env).seasonBaselineScore;
   const score = Number(scoreValue);
   if (!Number.isFinite(score)) {
     return c.json({ ok: false, message: 'Invalid score' }, 400);
@@ -553,6 +905,38 @@ app.delete('/api/admin/agents/:id', async (c) => {
   return c.json({ ok: true });
 });
 
+app.patch('/api/admin/seasons/:id', async (c) => {
+  const auth = requireAdmin(c);
+  if (auth) return auth;
+  const body = await c.req.json().catch(() => null);
+  if (!body) {
+    return c.json({ ok: false, message: 'Invalid request' }, 400);
+  }
+  const seasonService = createSeasonService(c.env, getRuntimeConfig(c.env));
+  try {
+    const season = await seasonService.updateSeason(c.req.param('id'), {
+      name: body.name,
+      end_time: body.end_time,
+    });
+    return c.json({ ok: true, season });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+});
+
+app.post('/api/admin/rounds/:id/void', async (c) => {
+  const auth = requireAdmin(c);
+  if (auth) return auth;
+  try {
+    const result = await requestVoid(c.env, c.req.param('id'));
+    return c.json(result.body, result.status);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Void failed';
+    return c.json({ ok: false, message }, 503);
+  }
+});
+
 function jsonRpcResult(id: unknown, result: unknown) {
   return { jsonrpc: '2.0', id, result };
 }
@@ -561,52 +945,203 @@ function jsonRpcError(id: unknown, code: number, message: string, data?: unknown
   return { jsonrpc: '2.0', id, error: { code, message, data } };
 }
 
+const judgmentSchemaProperties = {
+  round_id: { type: 'string' },
+  track_id: { type: 'string', description: 'Optional; must match the round track' },
+  direction: { type: 'string', enum: ['UP', 'DOWN', 'FLAT'] },
+  confidence: { type: 'number', minimum: 0, maximum: 100 },
+  probabilities: {
+    type: 'object',
+    description:
+      'Optional forecast distribution summing to 1; direction/confidence default to its most likely outcome',
+    additionalProperties: false,
+    properties: {
+      UP: { type: 'number', minimum: 0, maximum: 1 },
+      DOWN: { type: 'number', minimum: 0, maximum: 1 },
+      FLAT: { type: 'number', minimum: 0, maximum: 1 },
+    },
+  },
+  stake: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Virtual chips to stake; required in pool rounds and rejected otherwise',
+  },
+  target_price: {
+    type: 'number',
+    exclusiveMinimum: 0,
+    description: 'Optional predicted settlement close; scored by absolute percentage error',
+  },
+  price_range: {
+    type: 'object',
+    description: 'Optional predicted close range (inclusive); not combinable with target_price',
+    additionalProperties: false,
+    properties: {
+      low: { type: 'number', exclusiveMinimum: 0 },
+      high: { type: 'number', exclusiveMinimum: 0 },
+    },
+    required: ['low', 'high'],
+  },
+  comment: { type: 'string', maxLength: 140 },
+  intervals: {
+    anyOf: [
+      { type: 'string', description: 'Comma-separated intervals (e.g. 1m,5m,1h)' },
+      { type: 'array', items: { type: 'string' } },
+    ],
+  },
+  analysis_start_time: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+  analysis_end_time: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+  reason_rule: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      timeframe: { type: 'string' },
+      pattern: { type: 'string', description: 'v1: catalog pattern id (see list_patterns)' },
+      indicator: {
+        type: 'object',
+        description:
+          "v2: parameterized indicator instead of pattern, e.g. { indicator: 'rsi', period: 7, below: 25 }",
+        properties: {
+          indicator: { type: 'string', enum: listIndicators().map((entry) => entry.indicator) },
+        },
+        required: ['indicator'],
+      },
+      condition: {
+        type: 'object',
+        description:
+          "composite: { and | or: [node, ...] }, { not: node } or a leaf { pattern, timeframe? } (v1 ids, depth <= 4, <= 8 leaves), e.g. { and: [{ pattern: 'candle.hammer.v1' }, { pattern: 'indicator.ema20_gt_ema50.v1', timeframe: '1h' }] }",
+      },
+      direction: { type: 'string', enum: ['UP', 'DOWN', 'FLAT'] },
+      horizon_bars: { type: 'number', minimum: 1, maximum: 200 },
+    },
+    required: ['timeframe', 'direction', 'horizon_bars'],
+    oneOf: [{ required: ['pattern'] }, { required: ['indicator'] }, { required: ['condition'] }],
+  },
+};
+
+const judgmentSchemaRequired = [
+  'round_id',
+  'comment',
+  'intervals',
+  'analysis_start_time',
+  'analysis_end_time',
+  'reason_rule',
+];
+
+// Either a binary call or a probability distribution.
+const judgmentSchemaForecast = [
+  { required: ['direction', 'confidence'] },
+  { required: ['probabilities'] },
+];
+
 const mcpTools = [
   {
     name: 'get_round_context',
-    description: 'Return the current live round context, including lock time.',
-    input_schema: { type: 'object', properties: {} },
+    description: 'Return the current live round context for a track and symbol, including lock time.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        track_id: { type: 'string', description: 'Round track, e.g. sprint, standard, swing' },
+        symbol: { type: 'string', description: 'e.g. BTCUSDT, ETHUSDT' },
+        coin: { type: 'string', description: 'e.g. BTC, ETH' },
+      },
+    },
   },
   {
     name: 'submit_judgment',
-    description: 'Submit a judgment for the current round.',
+    description: 'Submit a judgment for the current round (open rounds).',
+    input_schema: {
+      type: 'object',
+      properties: judgmentSchemaProperties,
+      required: judgmentSchemaRequired,
+      anyOf: judgmentSchemaForecast,
+    },
+  },
+  {
+    name: 'commit_judgment',
+    description:
+      'Commit-reveal rounds: before lock, submit sha256(round_id|direction|confidence|salt) as hex; probabilistic forecasts append |up|down|flat (4 decimals).',
     input_schema: {
       type: 'object',
       properties: {
         round_id: { type: 'string' },
-        direction: { type: 'string', enum: ['UP', 'DOWN', 'FLAT'] },
-        confidence: { type: 'number', minimum: 0, maximum: 100 },
-        comment: { type: 'string', maxLength: 140 },
-        intervals: {
-          anyOf: [
-            { type: 'string', description: 'Comma-separated intervals (e.g. 1m,5m,1h)' },
-            { type: 'array', items: { type: 'string' } },
-          ],
+        track_id: { type: 'string', description: 'Optional; must match the round track' },
+        commit_hash: { type: 'string', description: '64-char hex sha256' },
+        stake: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Pool rounds only (required there); escrowed now, the reveal must match it',
         },
-        analysis_start_time: { anyOf: [{ type: 'number' }, { type: 'string' }] },
-        analysis_end_time: { anyOf: [{ type: 'number' }, { type: 'string' }] },
-        reason_rule: {
-          type: 'object',
-          additionalProperties: false,
-          properties: {
-            timeframe: { type: 'string' },
-            pattern: { type: 'string' },
-            direction: { type: 'string', enum: ['UP', 'DOWN', 'FLAT'] },
-            horizon_bars: { type: 'number', minimum: 1, maximum: 200 },
-          },
-          required: ['timeframe', 'pattern', 'direction', 'horizon_bars'],
+      },
+      required: ['round_id', 'commit_hash'],
+    },
+  },
+  {
+    name: 'reveal_judgment',
+    description:
+      'Commit-reveal rounds: after lock, reveal the committed judgment with its salt. Mismatches are forfeited.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        ...judgmentSchemaProperties,
+        salt: { type: 'string', minLength: 8, maxLength: 128 },
+      },
+      required: [...judgmentSchemaRequired, 'salt'],
+      anyOf: judgmentSchemaForecast,
+    },
+  },
+  {
+    name: 'get_round_consensus',
+    description:
+      'Return the crowd consensus of a round (vote counts, confidence- and rating-weighted direction) once it has locked, plus the crowd track record.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        round_id: { type: 'string' },
+      },
+      required: ['round_id'],
+    },
+  },
+  {
+    name: 'list_patterns',
+    description:
+      'List the reason_rule pattern catalog (id, family, implied bias, required bars, description, formal definition) and the v2 indicators with their parameter bounds.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        family: { type: 'string', enum: [...PATTERN_FAMILIES] },
+      },
+    },
+  },
+  {
+    name: 'scan_patterns',
+    description:
+      'Return which catalog patterns hold on the latest closed candle of each timeframe, with the aligned t_close_ms.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        timeframes: { type: 'string', description: 'Comma-separated timeframes (e.g. 15m,1h)' },
+        symbol: { type: 'string' },
+        coin: { type: 'string' },
+      },
+    },
+  },
+  {
+    name: 'backtest_rule',
+    description:
+      'Backtest a reason_rule over a historical range: trigger bars, hit rate, average move and the unconditional baseline hit rate.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        reason_rule: judgmentSchemaProperties.reason_rule,
+        symbol: { type: 'string' },
+        coin: { type: 'string' },
+        start_time: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+        end_time: {
+          anyOf: [{ type: 'number' }, { type: 'string' }],
+          description: 'Defaults to now',
         },
       },
-      required: [
-        'round_id',
-        'direction',
-        'confidence',
-        'comment',
-        'intervals',
-        'analysis_start_time',
-        'analysis_end_time',
-        'reason_rule',
-      ],
+      required: ['reason_rule', 'start_time'],
     },
   },
   {
@@ -627,82 +1162,6 @@ const mcpTools = [
   },
 ];
 
-async function handleSubmitJudgment(
-  env: Env,
-  agentId: string,
-  args: Record<string, unknown> | null
-) {
-  const payload = validateJudgmentPayload(args);
-  const {
-    round_id: roundId,
-    direction,
-    confidence,
-    comment,
-    intervals,
-    analysis_start_time,
-    analysis_end_time,
-    reason_rule,
-  } = payload;
-
-  const round = await env.DB.prepare('SELECT * FROM rounds WHERE round_id = ?')
-    .bind(roundId)
-    .first<{ round_id: string; status: string; start_time: string }>();
-  if (!round) {
-    throw new Error('Round not found');
-  }
-  if (round.status !== 'betting') {
-    throw new Error('Round not accepting submissions');
-  }
-
-  const config = getRuntimeConfig(env);
-  const lockTimeMs = new Date(round.start_time).getTime() + config.lockWindowMs;
-  if (Date.now() >= lockTimeMs) {
-    throw new Error('Round locked');
-  }
-
-  const now = new Date().toISOString();
-  const intervalsJson = JSON.stringify(intervals);
-  const reasonRuleJson = JSON.stringify(reason_rule);
-  const reasonEval = await evaluateReasonRuleOnSubmit(env, reason_rule, analysis_end_time);
-  await env.DB.batch([
-    env.DB.prepare('DELETE FROM judgments WHERE round_id = ? AND agent_id = ?').bind(
-      roundId,
-      agentId
-    ),
-    env.DB.prepare(
-      'INSERT INTO judgments (round_id, agent_id, direction, confidence, comment, intervals, analysis_start_time, analysis_end_time, reason_rule, reason_timeframe, reason_pattern, reason_direction, reason_horizon_bars, reason_t_close_ms, reason_target_close_ms, reason_base_close, reason_pattern_holds, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
-    ).bind(
-      roundId,
-      agentId,
-      direction,
-      Math.round(confidence),
-      comment,
-      intervalsJson,
-      analysis_start_time,
-      analysis_end_time,
-      reasonRuleJson,
-      reason_rule.timeframe,
-      reason_rule.pattern,
-      reason_rule.direction,
-      reason_rule.horizon_bars,
-      reasonEval.t_close_ms,
-      reasonEval.target_close_ms,
-      reasonEval.base_close,
-      reasonEval.pattern_holds ? 1 : 0,
-      now
-    ),
-  ]);
-  await trimTable(env, 'judgments', config.judgmentLimit);
-
-  return {
-    ok: true,
-    reason: {
-      t_close_ms: reasonEval.t_close_ms,
-      target_close_ms: reasonEval.target_close_ms,
-      pattern_holds: reasonEval.pattern_holds,
-    },
-  };
-}
 
 app.post('/mcp', async (c) => {
   const bodyText = await c.req.text();
@@ -741,13 +1200,14 @@ app.post('/mcp', async (c) => {
     const args = payload?.params?.arguments ?? null;
     try {
       if (name === 'get_round_context') {
-        const context = await buildRoundContext(c.env);
+        const context = await buildRoundContext(c.env, {
+          symbol: args?.symbol,
+          coin: args?.coin,
+          trackId: args?.track_id,
+        });
         return c.json(jsonRpcResult(id, context));
       }
       if (name === 'get_klines') {
-        const config = getRuntimeConfig(c.env);
-        const roundService = createRoundService(c.env, config);
-        const live = await roundService.getLiveRound();
         const result = await buildKlinesResponse(c.env, {
           symbol: typeof args?.symbol === 'string' ? args.symbol : undefined,
           coin: typeof args?.coin === 'string' ? args.coin : undefined,
@@ -756,12 +1216,40 @@ app.post('/mcp', async (c) => {
           startTime: args?.start_time,
           endTime: args?.end_time,
           raw: args?.raw,
-          fallbackSymbol: live?.symbol ?? null,
         });
         return c.json(jsonRpcResult(id, result));
       }
+      if (name === 'list_patterns') {
+        const family = typeof args?.family === 'string' ? args.family : null;
+        const patterns = listPatterns({ family });
+        return c.json(jsonRpcResult(id, { ok: true, patterns, indicators: listIndicators() }));
+      }
+      if (name === 'scan_patterns') {
+        const result = await scanLivePatterns(c.env, {
+          timeframes: args?.timeframes,
+          coin: args?.coin,
+          symbol: args?.symbol,
+        });
+        return c.json(jsonRpcResult(id, result));
+      }
+      if (name === 'backtest_rule') {
+        const result = await backtestRule(c.env, getRuntimeConfig(c.env), args);
+        return c.json(jsonRpcResult(id, result));
+      }
+      if (name === 'get_round_consensus') {
+        const result = await loadRoundConsensus(c.env, args?.round_id);
+        return c.json(jsonRpcResult(id, result));
+      }
       if (name === 'submit_judgment') {
-        const result = await handleSubmitJudgment(c.env, auth.agentId, args);
+        const result = await submitJudgment(c.env, auth.agentId, args);
+        return c.json(jsonRpcResult(id, result));
+      }
+      if (name === 'commit_judgment') {
+        const result = await commitJudgment(c.env, auth.agentId, args);
+        return c.json(jsonRpcResult(id, result));
+      }
+      if (name === 'reveal_judgment') {
+        const result = await revealJudgment(c.env, auth.agentId, args);
         return c.json(jsonRpcResult(id, result));
       }
       return c.json(jsonRpcError(id, -32601, 'Method not found'), 400);
@@ -779,13 +1267,44 @@ app.post('/mcp', async (c) => {
 app.get('/mcp', async (c) => {
   const auth = await authenticateMcp(c, '');
   if (auth.error) return auth.error;
+  const contextInput = {
+    symbol: c.req.query('symbol'),
+    coin: c.req.query('coin'),
+    trackId: c.req.query('track'),
+  };
+  const config = getRuntimeConfig(c.env);
+  let symbol: string;
+  let trackId: string;
+  try {
+    symbol = resolveSymbol(config, contextInput);
+    trackId = resolveTrackId(config, contextInput.trackId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    return c.json({ ok: false, message }, 400);
+  }
+  const roundService = createRoundService(c.env, config);
+  let lastEventId = await roundService.getLatestRoundEventId();
 
   const stream = new ReadableStream({
     start(controller) {
       let closed = false;
       const send = async () => {
         if (closed) return;
-        const context = await buildRoundContext(c.env);
+        const events = await roundService.listRoundEvents({
+          afterId: lastEventId,
+          symbol,
+          trackId,
+        });
+        for (const event of events) {
+          lastEventId = Math.max(lastEventId, Number(event.id ?? 0));
+          const payload = JSON.stringify({
+            jsonrpc: '2.0',
+            method: event.type,
+            params: JSON.parse(event.payload),
+          });
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${payload}\n\n`));
+        }
+        const context = await buildRoundContext(c.env, contextInput);
         const payload = JSON.stringify({
           jsonrpc: '2.0',
           method: 'round_context',
@@ -818,11 +1337,21 @@ app.get('/mcp', async (c) => {
 });
 
 export { PriceFeedDO } from './priceFeed';
+export { EventHubDO } from './eventHub';
+export { RoundCoordinatorDO } from './roundCoordinator';
 
 export default {
   fetch: app.fetch,
   async scheduled(_event: ScheduledEvent, env: Env, ctx: ExecutionContext) {
     const config = getRuntimeConfig(env);
-    ctx.waitUntil(Promise.all([advanceState(env, config), evaluatePendingReasonRules(env, config)]));
+    ctx.waitUntil(
+      Promise.all([
+        requestAdvance(env),
+        evaluatePendingReasonRules(env, config),
+        createSeasonService(env, config)
+          .rolloverIfDue()
+          .catch((error) => console.error('Season rollover failed', error)),
+      ])
+    );
   },
 };
@@ -1,42 +1,69 @@
+import { parseAssets } from './config';
+import { createPriceSources, type PriceSource, type PriceSourceHealth } from './priceSources';
+import {
+  aggregateQuotes,
+  getOutlierBandPct,
+  getStaleMs,
+  type AggregatedPrice,
+  type RejectedQuote,
+} from './services/priceService';
+import {
+  buildHubMessage,
+  fetchPriceSubscriptions,
+  priceChannel,
+  publishEvents,
+} from './services/eventHubService';
+import {
+  createTickHistory,
+  getTickRetentionMs,
+  parseTimeParam,
+} from './services/tickHistoryService';
 import type { Env } from './types';
 
 type PriceFeedDiagnostics = {
   ok: boolean;
-  status: 'connected' | 'connecting' | 'closed' | 'error';
-  ws_url: string;
-  feed: string;
-  coin: string;
-  last_price: number | null;
-  last_update_at: string | null;
-  last_event_at: string | null;
-  last_error: string | null;
-  ready_state: number | null;
+  coins: string[];
+  outlier_band_pct: number;
+  prices: Record<
+    string,
+    { price: number; updated_at: string; sources: string[]; rejected: RejectedQuote[] }
+  >;
+  sources: PriceSourceHealth[];
 };
 
 type PriceResponse = {
+  coin: string;
   price: number;
   updated_at: string;
+  sources: string[];
+  rejected: RejectedQuote[];
 };
 
-const DEFAULT_WS_URL = 'wss://api.hyperliquid.xyz/ws';
-const DEFAULT_FEED = 'allMids';
-const DEFAULT_COIN = 'BTC';
 const RECONNECT_DELAY_MS = 5000;
+const TICK_FLUSH_DELAY_MS = 5000;
+const PRICE_PUSH_INTERVAL_MS = 1000;
 
 export class PriceFeedDO {
   private state: DurableObjectState;
   private env: Env;
-  private ws: WebSocket | null = null;
-  private connecting: Promise<void> | null = null;
-  private latestPrice: number | null = null;
-  private lastUpdateAt: string | null = null;
-  private lastEventAt: string | null = null;
-  private lastError: string | null = null;
-  private status: 'connected' | 'connecting' | 'closed' | 'error' = 'closed';
+  private sources: PriceSource[];
+  private ticks: ReturnType<typeof createTickHistory>;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private dirtyCoins = new Set<string>();
+  // Coins with WebSocket subscribers on the event hub; null until the hub has been asked.
+  private subscribedCoins: Set<string> | null = null;
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
+    this.ticks = createTickHistory(state.storage, {
+      retentionMs: getTickRetentionMs(env.TICK_RETENTION_HOURS),
+    });
+    this.sources = createPriceSources(env, this.coins, {
+      onPrice: (_sourceId, coin) => this.recordTick(coin),
+      onDisconnect: () => this.scheduleReconnect(),
+    });
     this.state.blockConcurrencyWhile(async () => {
       await this.ensureConnected();
     });
@@ -45,28 +72,28 @@ export class PriceFeedDO {
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
     if (url.pathname === '/price') {
-      return this.handlePrice();
+      const coin = (url.searchParams.get('coin') || this.coins[0]).toUpperCase();
+      return this.handlePrice(coin);
+    }
+    if (url.pathname === '/history') {
+      return this.handleHistory(url);
+    }
+    if (url.pathname === '/subscriptions' && request.method === 'POST') {
+      return this.handleSubscriptions(request);
     }
     if (url.pathname === '/diag') {
+      await this.ensureConnected();
       return this.json(this.buildDiag());
     }
     return new Response('Not found', { status: 404 });
   }
 
   async alarm(): Promise<void> {
-    await this.ensureConnected(true);
-  }
-
-  private get wsUrl() {
-    return this.env.HL_WS_URL || DEFAULT_WS_URL;
-  }
-
-  private get feed() {
-    return this.env.HL_FEED || DEFAULT_FEED;
+    await this.ensureConnected();
   }
 
-  private get coin() {
-    return this.env.HL_COIN || DEFAULT_COIN;
+  private get coins() {
+    return parseAssets(this.env);
   }
 
   private json(body: unknown, status = 200): Response {
@@ -76,161 +103,149 @@ export class PriceFeedDO {
     });
   }
 
+  private aggregate(coin: string): AggregatedPrice | null {
+    const quotes = this.sources
+      .map((source) => source.getQuote(coin))
+      .filter((quote) => quote !== null);
+    return aggregateQuotes(coin, quotes, {
+      bandPct: getOutlierBandPct(this.env),
+      staleMs: getStaleMs(this.env),
+    });
+  }
+
   private buildDiag(): PriceFeedDiagnostics {
+    const prices: PriceFeedDiagnostics['prices'] = {};
+    for (const coin of this.coins) {
+      const aggregated = this.aggregate(coin);
+      if (!aggregated) continue;
+      prices[coin] = {
+        price: aggregated.price,
+        updated_at: aggregated.updatedAt,
+        sources: aggregated.sources,
+        rejected: aggregated.rejected,
+      };
+    }
     return {
-      ok: this.status === 'connected',
-      status: this.status,
-      ws_url: this.wsUrl,
-      feed: this.feed,
-      coin: this.coin,
-      last_price: this.latestPrice,
-      last_update_at: this.lastUpdateAt,
-      last_event_at: this.lastEventAt,
-      last_error: this.lastError,
-      ready_state: this.ws ? this.ws.readyState : null,
+      ok: this.sources.some((source) => source.isHealthy()),
+      coins: this.coins,
+      outlier_band_pct: getOutlierBandPct(this.env),
+      prices,
+      sources: this.sources.map((source) => source.health()),
     };
   }
 
-  private async handlePrice(): Promise<Response> {
+  private async handlePrice(coin: string): Promise<Response> {
+    if (!this.coins.includes(coin)) {
+      return this.json({ ok: false, message: `Unsupported coin: ${coin}` }, 400);
+    }
     await this.ensureConnected();
-    if (!Number.isFinite(this.latestPrice) || !this.lastUpdateAt) {
+    const aggregated = this.aggregate(coin);
+    if (!aggregated) {
       return this.json(
         { ok: false, message: 'No price available', diag: this.buildDiag() },
         503
       );
     }
     const payload: PriceResponse = {
-      price: this.latestPrice as number,
-      updated_at: this.lastUpdateAt,
+      coin,
+      price: aggregated.price,
+      updated_at: aggregated.updatedAt,
+      sources: aggregated.sources,
+      rejected: aggregated.rejected,
     };
     return this.json(payload);
   }
 
-  private buildSubscription(): Record<string, string> {
-    if (this.feed === 'allMids') {
-      return { type: 'allMids' };
+  private async handleHistory(url: URL): Promise<Response> {
+    const coin = (url.searchParams.get('coin') || this.coins[0]).toUpperCase();
+    if (!this.coins.includes(coin)) {
+      return this.json({ ok: false, message: `Unsupported coin: ${coin}` }, 400);
     }
-    if (this.feed === 'trades') {
-      return { type: 'trades', coin: this.coin };
+    const from = parseTimeParam(url.searchParams.get('from'));
+    const to = parseTimeParam(url.searchParams.get('to')) ?? Date.now();
+    if (from === null || from > to) {
+      return this.json({ ok: false, message: 'from/to must be a valid range' }, 400);
     }
-    return { type: this.feed, coin: this.coin };
+    const history = await this.ticks.query(coin, from, to);
+    return this.json({ ok: true, ...history });
   }
 
-  private scheduleReconnect() {
-    void this.state.storage.setAlarm(Date.now() + RECONNECT_DELAY_MS);
+  private recordTick(coin: string) {
+    const aggregated = this.aggregate(coin);
+    if (!aggregated) return;
+    this.ticks.record(coin, aggregated.price);
+    this.schedulePricePush(coin);
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flushTicks();
+    }, TICK_FLUSH_DELAY_MS);
   }
 
-  private async ensureConnected(force = false): Promise<void> {
-    if (!force && this.ws) {
-      if (
-        this.ws.readyState === WebSocket.OPEN ||
-        this.ws.readyState === WebSocket.CONNECTING
-      ) {
-        return;
-      }
-    }
+  // Coalesces price updates so the event hub sees at most one message per coin per second, and
+  // none at all for coins nobody subscribes to, which lets the hub hibernate.
+  private schedulePricePush(coin: string) {
+    if (this.subscribedCoins && !this.subscribedCoins.has(coin)) return;
+    this.dirtyCoins.add(coin);
+    if (this.pushTimer) return;
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      void this.pushPrices();
+    }, PRICE_PUSH_INTERVAL_MS);
+  }
 
-    if (this.connecting) {
-      return this.connecting;
+  private async pushPrices() {
+    if (!this.subscribedCoins) {
+      const coins = await fetchPriceSubscriptions(this.env);
+      if (coins) this.subscribedCoins = new Set(coins);
     }
-
-    this.status = 'connecting';
-    this.lastError = null;
-
-    this.connecting = new Promise((resolve) => {
-      let settled = false;
-      const settle = () => {
-        if (settled) return;
-        settled = true;
-        resolve();
-      };
-      const ws = new WebSocket(this.wsUrl);
-      this.ws = ws;
-
-      ws.addEventListener('open', () => {
-        this.status = 'connected';
-        this.lastEventAt = new Date().toISOString();
-        try {
-          ws.send(
-            JSON.stringify({
-              method: 'subscribe',
-              subscription: this.buildSubscription(),
-            })
-          );
-        } catch (error) {
-          this.lastError =
-            error instanceof Error ? error.message : 'Failed to send subscribe';
-        }
-        settle();
-      });
-
-      ws.addEventListener('message', (event) => {
-        this.lastEventAt = new Date().toISOString();
-        this.handleMessage(event.data);
-      });
-
-      ws.addEventListener('close', (event) => {
-        this.status = 'closed';
-        this.lastError = `Close ${event.code}: ${event.reason || 'no reason'}`;
-        this.ws = null;
-        this.connecting = null;
-        this.scheduleReconnect();
-        settle();
-      });
-
-      ws.addEventListener('error', () => {
-        this.status = 'error';
-        this.lastError = 'WebSocket error';
-        this.ws = null;
-        this.connecting = null;
-        this.scheduleReconnect();
-        settle();
-      });
-
-      setTimeout(() => {
-        if (this.status === 'connecting') {
-          this.lastError = 'WebSocket connect timeout';
-          this.status = 'error';
-          this.ws = null;
-          this.connecting = null;
-          this.scheduleReconnect();
-        }
-        settle();
-      }, 5000);
-    });
-
-    return this.connecting;
+    const subscribed = this.subscribedCoins;
+    const coins = [...this.dirtyCoins].filter((coin) => !subscribed || subscribed.has(coin));
+    this.dirtyCoins.clear();
+    const messages = [];
+    for (const coin of coins) {
+      const aggregated = this.aggregate(coin);
+      if (!aggregated) continue;
+      messages.push(
+        buildHubMessage(priceChannel(coin), 'price', {
+          coin,
+          price: aggregated.price,
+          updated_at: aggregated.updatedAt,
+          sources: aggregated.sources,
+        })
+      );
+    }
+    await publishEvents(this.env, messages);
   }
 
-  private handleMessage(data: unknown) {
-    if (typeof data !== 'string') return;
-
-    let message: any;
+  private async handleSubscriptions(request: Request): Promise<Response> {
+    let body: { coins?: unknown };
     try {
-      message = JSON.parse(data);
+      body = (await request.json()) as { coins?: unknown };
     } catch {
-      return;
+      return this.json({ ok: false, message: 'Invalid JSON' }, 400);
     }
-
-    if (message?.channel === 'allMids') {
-      const mids = message?.data?.mids;
-      const raw = mids ? mids[this.coin] : null;
-      const price = Number(raw);
-      if (Number.isFinite(price)) {
-        this.latestPrice = price;
-        this.lastUpdateAt = new Date().toISOString();
-      }
-      return;
+    if (!Array.isArray(body?.coins)) {
+      return this.json({ ok: false, message: 'coins must be an array' }, 400);
     }
+    this.subscribedCoins = new Set(body.coins.filter((coin) => typeof coin === 'string'));
+    return this.json({ ok: true, coins: [...this.subscribedCoins] });
+  }
 
-    if (message?.channel === 'trades' && Array.isArray(message?.data)) {
-      const last = message.data[message.data.length - 1];
-      const raw = last?.px ?? last?.price;
-      const price = Number(raw);
-      if (Number.isFinite(price)) {
-        this.latestPrice = price;
-        this.lastUpdateAt = new Date().toISOString();
-      }
+  private async flushTicks() {
+    try {
+      await this.ticks.flush();
+      await this.ticks.prune(this.coins);
+    } catch (error) {
+      console.warn('Tick history flush failed', error);
     }
   }
+
+  private scheduleReconnect() {
+    void this.state.storage.setAlarm(Date.now() + RECONNECT_DELAY_MS);
+  }
+
+  private async ensureConnected(): Promise<void> {
+    await Promise.all(this.sources.map((source) => source.ensureReady()));
+  }
 }
@@ -0,0 +1,35 @@
+import type { PriceSourceDeps } from './types';
+import { WebSocketPriceSource } from './webSocketSource';
+
+const DEFAULT_WS_URL = 'wss://stream.binance.com:9443/stream';
+const QUOTE_ASSET = 'USDT';
+
+export class BinancePriceSource extends WebSocketPriceSource {
+  readonly id = 'binance';
+  private wsUrl: string;
+
+  constructor(coins: string[], options: { wsUrl?: string } = {}, deps: PriceSourceDeps = {}) {
+    super(coins, deps);
+    this.wsUrl = options.wsUrl || DEFAULT_WS_URL;
+  }
+
+  get url() {
+    return this.wsUrl;
+  }
+
+  protected buildSubscriptions(): string[] {
+    const params = this.coins.map((coin) => `${coin.toLowerCase()}${QUOTE_ASSET.toLowerCase()}@trade`);
+    return [JSON.stringify({ method: 'SUBSCRIBE', params, id: 1 })];
+  }
+
+  protected handleMessage(message: any) {
+    // Combined streams wrap payloads as { stream, data }; raw streams send the trade directly.
+    const trade = message?.data ?? message;
+    if (trade?.e !== 'trade' || typeof trade?.s !== 'string') return;
+    const symbol = trade.s.toUpperCase();
+    if (!symbol.endsWith(QUOTE_ASSET)) return;
+    const coin = symbol.slice(0, -QUOTE_ASSET.length);
+    if (!this.coins.includes(coin)) return;
+    this.recordPrice(coin, trade.p);
+  }
+}
@@ -0,0 +1,96 @@
+import type { PriceSource, PriceSourceDeps, PriceSourceHealth, SourceQuote } from './types';
+
+const DEFAULT_API_URL = 'https://api.coinbase.com';
+const DEFAULT_POLL_MS = 5000;
+
+// REST source: polled lazily whenever the feed needs a price and the last poll is older than pollMs.
+export class CoinbasePriceSource implements PriceSource {
+  readonly id = 'coinbase';
+  private coins: string[];
+  private apiUrl: string;
+  private pollMs: number;
+  private deps: PriceSourceDeps;
+  private polling: Promise<void> | null = null;
+  private lastPollAt = 0;
+  private latestPrices = new Map<string, { price: number; updatedAt: string }>();
+  private lastEventAt: string | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    coins: string[],
+    options: { apiUrl?: string; pollMs?: number } = {},
+    deps: PriceSourceDeps = {}
+  ) {
+    this.coins = coins;
+    this.apiUrl = (options.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+    this.pollMs = options.pollMs ?? DEFAULT_POLL_MS;
+    this.deps = deps;
+  }
+
+  async ensureReady(): Promise<void> {
+    if (this.polling) return this.polling;
+    if (Date.now() - this.lastPollAt < this.pollMs) return;
+    this.polling = this.poll().finally(() => {
+      this.polling = null;
+    });
+    return this.polling;
+  }
+
+  getQuote(coin: string): SourceQuote | null {
+    const entry = this.latestPrices.get(coin);
+    if (!entry) return null;
+    return { source: this.id, coin, price: entry.price, updatedAt: entry.updatedAt };
+  }
+
+  isHealthy(): boolean {
+    return this.lastEventAt !== null && this.lastError === null;
+  }
+
+  health(): PriceSourceHealth {
+    const prices: PriceSourceHealth['prices'] = {};
+    for (const [coin, entry] of this.latestPrices) {
+      prices[coin] = { price: entry.price, updated_at: entry.updatedAt };
+    }
+    return {
+      id: this.id,
+      kind: 'rest',
+      url: this.apiUrl,
+      status: this.lastPollAt === 0 ? 'idle' : this.isHealthy() ? 'connected' : 'error',
+      prices,
+      last_event_at: this.lastEventAt,
+      last_error: this.lastError,
+    };
+  }
+
+  close() {
+    // Nothing to tear down for a polled source.
+  }
+
+  private async poll(): Promise<void> {
+    const fetchImpl = this.deps.fetch ?? fetch;
+    this.lastPollAt = Date.now();
+    const errors: string[] = [];
+    await Promise.all(
+      this.coins.map(async (coin) => {
+        try {
+          const res = await fetchImpl(`${this.apiUrl}/v2/prices/${coin}-USD/spot`);
+          if (!res.ok) {
+            throw new Error(`HTTP ${res.status}`);
+          }
+          const body = (await res.json()) as { data?: { amount?: string } };
+          const price = Number(body?.data?.amount);
+          if (!Number.isFinite(price) || price <= 0) {
+            throw new Error('Invalid price');
+          }
+          const now = new Date().toISOString();
+          this.latestPrices.set(coin, { price, updatedAt: now });
+          this.lastEventAt = now;
+          this.deps.onPrice?.(this.id, coin);
+        } catch (error) {
+          errors.push(`${coin}: ${error instanceof Error ? error.message : 'request failed'}`);
+        }
+      })
+    );
+    this.lastError = errors.length > 0 ? errors.join('; ') : null;
+  }
+}
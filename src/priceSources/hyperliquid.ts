@@ -0,0 +1,53 @@
+import type { PriceSourceDeps } from './types';
+import { WebSocketPriceSource } from './webSocketSource';
+
+const DEFAULT_WS_URL = 'wss://api.hyperliquid.xyz/ws';
+const DEFAULT_FEED = 'allMids';
+
+export class HyperliquidPriceSource extends WebSocketPriceSource {
+  readonly id = 'hyperliquid';
+  private wsUrl: string;
+  private feed: string;
+
+  constructor(
+    coins: string[],
+    options: { wsUrl?: string; feed?: string } = {},
+    deps: PriceSourceDeps = {}
+  ) {
+    super(coins, deps);
+    this.wsUrl = options.wsUrl || DEFAULT_WS_URL;
+    this.feed = options.feed || DEFAULT_FEED;
+  }
+
+  get url() {
+    return this.wsUrl;
+  }
+
+  protected buildSubscriptions(): string[] {
+    const subscriptions =
+      this.feed === 'allMids'
+        ? [{ type: 'allMids' }]
+        : this.coins.map((coin) => ({ type: this.feed, coin }));
+    return subscriptions.map((subscription) =>
+      JSON.stringify({ method: 'subscribe', subscription })
+    );
+  }
+
+  protected handleMessage(message: any) {
+    if (message?.channel === 'allMids') {
+      const mids = message?.data?.mids;
+      if (!mids) return;
+      for (const coin of this.coins) {
+        this.recordPrice(coin, mids[coin]);
+      }
+      return;
+    }
+
+    if (message?.channel === 'trades' && Array.isArray(message?.data)) {
+      const last = message.data[message.data.length - 1];
+      const coin = typeof last?.coin === 'string' ? last.coin.toUpperCase() : null;
+      if (!coin || !this.coins.includes(coin)) return;
+      this.recordPrice(coin, last?.px ?? last?.price);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { Env } from '../types';
+import { BinancePriceSource } from './binance';
+import { CoinbasePriceSource } from './coinbase';
+import { HyperliquidPriceSource } from './hyperliquid';
+import type { PriceSource, PriceSourceDeps } from './types';
+
+export type { PriceSource, PriceSourceDeps, PriceSourceHealth, SourceQuote } from './types';
+
+const DEFAULT_SOURCE = 'hyperliquid';
+
+const SOURCE_FACTORIES: Record<
+  string,
+  (env: Env, coins: string[], deps: PriceSourceDeps) => PriceSource
+> = {
+  hyperliquid: (env, coins, deps) =>
+    new HyperliquidPriceSource(coins, { wsUrl: env.HL_WS_URL, feed: env.HL_FEED }, deps),
+  binance: (env, coins, deps) =>
+    new BinancePriceSource(coins, { wsUrl: env.BINANCE_WS_URL }, deps),
+  coinbase: (env, coins, deps) =>
+    new CoinbasePriceSource(coins, { apiUrl: env.COINBASE_API_URL }, deps),
+};
+
+export function parsePriceSources(env?: Env): string[] {
+  const raw = env?.PRICE_SOURCES || DEFAULT_SOURCE;
+  const sources: string[] = [];
+  for (const item of raw.split(',')) {
+    const id = item.trim().toLowerCase();
+    if (!id || sources.includes(id)) continue;
+    if (!SOURCE_FACTORIES[id]) {
+      console.warn(`Unknown price source ignored: ${id}`);
+      continue;
+    }
+    sources.push(id);
+  }
+  return sources.length > 0 ? sources : [DEFAULT_SOURCE];
+}
+
+export function createPriceSources(
+  env: Env,
+  coins: string[],
+  deps: PriceSourceDeps = {}
+): PriceSource[] {
+  return parsePriceSources(env).map((id) => SOURCE_FACTORIES[id](env, coins, deps));
+}
@@ -0,0 +1,46 @@
+export type PriceSourceStatus = 'connected' | 'connecting' | 'closed' | 'error' | 'idle';
+
+export type SourceQuote = {
+  source: string;
+  coin: string;
+  price: number;
+  updatedAt: string;
+};
+
+export type PriceSourceHealth = {
+  id: string;
+  kind: 'websocket' | 'rest';
+  url: string;
+  status: PriceSourceStatus;
+  prices: Record<string, { price: number; updated_at: string }>;
+  last_event_at: string | null;
+  last_error: string | null;
+};
+
+export type WebSocketLike = {
+  readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: string, listener: (event: any) => void): void;
+};
+
+export type WebSocketCtor = new (url: string) => WebSocketLike;
+
+export type PriceSourceDeps = {
+  WebSocket?: WebSocketCtor;
+  fetch?: typeof fetch;
+  // Called whenever a source records a new price for a coin.
+  onPrice?: (sourceId: string, coin: string) => void;
+  // Called when a socket drops so the owner can schedule a reconnect.
+  onDisconnect?: (sourceId: string) => void;
+};
+
+export interface PriceSource {
+  readonly id: string;
+  // Connects (WebSocket) or polls if due (REST). Resolves once the source is usable or has failed.
+  ensureReady(): Promise<void>;
+  getQuote(coin: string): SourceQuote | null;
+  health(): PriceSourceHealth;
+  isHealthy(): boolean;
+  close(): void;
+}
@@ -0,0 +1,171 @@
+import type {
+  PriceSource,
+  PriceSourceDeps,
+  PriceSourceHealth,
+  PriceSourceStatus,
+  SourceQuote,
+  WebSocketCtor,
+  WebSocketLike,
+} from './types';
+
+const CONNECT_TIMEOUT_MS = 5000;
+const WS_OPEN = 1;
+const WS_CONNECTING = 0;
+
+export abstract class WebSocketPriceSource implements PriceSource {
+  abstract readonly id: string;
+  protected coins: string[];
+  protected deps: PriceSourceDeps;
+  private ws: WebSocketLike | null = null;
+  private connecting: Promise<void> | null = null;
+  private latestPrices = new Map<string, { price: number; updatedAt: string }>();
+  private lastEventAt: string | null = null;
+  private lastError: string | null = null;
+  private status: PriceSourceStatus = 'closed';
+
+  constructor(coins: string[], deps: PriceSourceDeps = {}) {
+    this.coins = coins;
+    this.deps = deps;
+  }
+
+  abstract get url(): string;
+
+  // Messages to send right after the socket opens.
+  protected abstract buildSubscriptions(): string[];
+
+  protected abstract handleMessage(message: any): void;
+
+  protected recordPrice(coin: string, raw: unknown) {
+    const price = Number(raw);
+    if (!Number.isFinite(price) || price <= 0) return;
+    this.latestPrices.set(coin, { price, updatedAt: new Date().toISOString() });
+    this.deps.onPrice?.(this.id, coin);
+  }
+
+  getQuote(coin: string): SourceQuote | null {
+    const entry = this.latestPrices.get(coin);
+    if (!entry) return null;
+    return { source: this.id, coin, price: entry.price, updatedAt: entry.updatedAt };
+  }
+
+  isHealthy(): boolean {
+    return this.status === 'connected';
+  }
+
+  health(): PriceSourceHealth {
+    const prices: PriceSourceHealth['prices'] = {};
+    for (const [coin, entry] of this.latestPrices) {
+      prices[coin] = { price: entry.price, updated_at: entry.updatedAt };
+    }
+    return {
+      id: this.id,
+      kind: 'websocket',
+      url: this.url,
+      status: this.status,
+      prices,
+      last_event_at: this.lastEventAt,
+      last_error: this.lastError,
+    };
+  }
+
+  async ensureReady(): Promise<void> {
+    if (this.ws) {
+      if (this.ws.readyState === WS_OPEN) return;
+      if (this.ws.readyState === WS_CONNECTING && this.connecting) return this.connecting;
+    }
+
+    const WebSocketImpl = this.deps.WebSocket ?? (globalThis.WebSocket as unknown as WebSocketCtor);
+    this.status = 'connecting';
+    this.lastError = null;
+
+    let ws: WebSocketLike;
+    try {
+      ws = new WebSocketImpl(this.url);
+    } catch (error) {
+      this.markDown(error instanceof Error ? error.message : 'WebSocket init failed', 'error');
+      return;
+    }
+    this.ws = ws;
+
+    this.connecting = new Promise((resolve) => {
+      let settled = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const settle = () => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        resolve();
+      };
+
+      ws.addEventListener('open', () => {
+        if (this.ws !== ws) return;
+        this.status = 'connected';
+        this.lastEventAt = new Date().toISOString();
+        try {
+          for (const subscription of this.buildSubscriptions()) {
+            ws.send(subscription);
+          }
+        } catch (error) {
+          this.lastError =
+            error instanceof Error ? error.message : 'Failed to send subscribe';
+        }
+        settle();
+      });
+
+      ws.addEventListener('message', (event) => {
+        if (this.ws !== ws) return;
+        this.lastEventAt = new Date().toISOString();
+        if (typeof event.data !== 'string') return;
+        let message: any;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        this.handleMessage(message);
+      });
+
+      ws.addEventListener('close', (event) => {
+        if (this.ws !== ws) return;
+        this.markDown(`Close ${event.code}: ${event.reason || 'no reason'}`, 'closed');
+        settle();
+      });
+
+      ws.addEventListener('error', () => {
+        if (this.ws !== ws) return;
+        this.markDown('WebSocket error', 'error');
+        settle();
+      });
+
+      timer = setTimeout(() => {
+        if (this.ws === ws && this.status === 'connecting') {
+          this.markDown('WebSocket connect timeout', 'error');
+          try {
+            ws.close();
+          } catch {
+            // ignore: the socket never opened
+          }
+        }
+        settle();
+      }, CONNECT_TIMEOUT_MS);
+    });
+
+    return this.connecting;
+  }
+
+  private markDown(message: string, status: PriceSourceStatus) {
+    this.status = status;
+    this.lastError = message;
+    this.ws = null;
+    this.connecting = null;
+    this.deps.onDisconnect?.(this.id);
+  }
+
+  close() {
+    const ws = this.ws;
+    this.ws = null;
+    this.connecting = null;
+    this.status = 'closed';
+    ws?.close();
+  }
+}
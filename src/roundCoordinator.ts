@@ -0,0 +1,135 @@
+import { advanceState } from './advanceState';
+import { getRuntimeConfig } from './config';
+import { createRoundService } from './services/roundService';
+import type { Env, Round } from './types';
+
+type CoordinatorDiagnostics = {
+  ok: boolean;
+  next_alarm_at: string | null;
+  last_run_at: string | null;
+  last_error: string | null;
+};
+
+// Single owner of the round state machine. Every lifecycle transition (start, lock, settle, void)
+// runs through one serialized queue here, and DO alarms fire at the exact lock/end deadlines.
+export class RoundCoordinatorDO {
+  private state: DurableObjectState;
+  private env: Env;
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastRunAt: string | null = null;
+  private lastError: string | null = null;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === '/advance' && request.method === 'POST') {
+      const trackId = url.searchParams.get('track') || undefined;
+      try {
+        const meta = await this.serialize(() => this.advance(trackId));
+        return this.json({ ok: true, meta });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Advance failed';
+        return this.json({ ok: false, message }, 400);
+      }
+    }
+    if (url.pathname === '/void' && request.method === 'POST') {
+      return this.handleVoid(request);
+    }
+    if (url.pathname === '/diag') {
+      return this.json(await this.buildDiag());
+    }
+    return new Response('Not found', { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    await this.serialize(() => this.advance());
+  }
+
+  private json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async advance(trackId?: string) {
+    const config = getRuntimeConfig(this.env);
+    try {
+      const metas = await advanceState(this.env, config, trackId);
+      this.lastError = null;
+      return metas;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Advance failed';
+      throw error;
+    } finally {
+      this.lastRunAt = new Date().toISOString();
+      await this.scheduleNextAlarm();
+    }
+  }
+
+  private async scheduleNextAlarm() {
+    const roundService = createRoundService(this.env, getRuntimeConfig(this.env));
+    try {
+      const next = await roundService.getNextTransitionMs();
+      if (next === null) {
+        await this.state.storage.deleteAlarm();
+      } else {
+        await this.state.storage.setAlarm(next);
+      }
+    } catch (error) {
+      // The cron tick still calls /advance every minute, so a missed alarm only costs precision.
+      console.warn('Failed to schedule coordinator alarm', error);
+    }
+  }
+
+  private async handleVoid(request: Request): Promise<Response> {
+    let body: { round_id?: string };
+    try {
+      body = (await request.json()) as { round_id?: string };
+    } catch {
+      return this.json({ ok: false, message: 'Invalid JSON' }, 400);
+    }
+    const roundId = typeof body?.round_id === 'string' ? body.round_id : '';
+    return this.serialize(async () => {
+      const round = await this.env.DB.prepare('SELECT * FROM rounds WHERE round_id = ?')
+        .bind(roundId)
+        .first<Round>();
+      if (!round) {
+        return this.json({ ok: false, message: 'Round not found' }, 404);
+      }
+      const roundService = createRoundService(this.env, getRuntimeConfig(this.env));
+      let voided: boolean;
+      try {
+        voided = await roundService.voidRound(round, 'admin');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Void failed';
+        return this.json({ ok: false, message }, 409);
+      }
+      if (!voided) {
+        return this.json({ ok: false, message: 'Round already voided' }, 409);
+      }
+      await this.scheduleNextAlarm();
+      return this.json({ ok: true, round_id: round.round_id, status: 'voided' });
+    });
+  }
+
+  private async buildDiag(): Promise<CoordinatorDiagnostics> {
+    const alarm = await this.state.storage.getAlarm();
+    return {
+      ok: this.lastError === null,
+      next_alarm_at: alarm ? new Date(alarm).toISOString() : null,
+      last_run_at: this.lastRunAt,
+      last_error: this.lastError,
+    };
+  }
+}
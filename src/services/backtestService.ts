@@ -0,0 +1,210 @@
+import type { RuntimeConfig } from '../config';
+import type { Env, Kline, ReasonRule } from '../types';
+import { coinFromSymbol, fetchKlines, getKlineConfig, intervalToMs } from './klineService';
+import {
+  computeOutcome,
+  evaluateRule,
+  getRuleRequiredBars,
+  normalizeReasonRule,
+} from './reasonRuleService';
+import { parseTime } from './reasonStatsService';
+
+// Upper bound on candles in one backtest (warm-up and horizon included).
+export const MAX_BACKTEST_BARS = 5000;
+
+export type KlineRequest = {
+  coin: string;
+  interval: string;
+  startTime: number;
+  endTime: number;
+  limit: number;
+};
+
+// Where a backtest reads candles from; tests pass a fake, the API reads Hyperliquid.
+export type KlineSource = (request: KlineRequest) => Promise<Kline[]>;
+
+export type BacktestRequest = {
+  coin: string;
+  rule: ReasonRule;
+  startMs: number;
+  endMs: number;
+};
+
+export type BacktestResult = {
+  // Bars whose close lies in the range and whose horizon candle has closed.
+  bars: number;
+  triggers: number;
+  hits: number;
+  hit_rate: number | null;
+  // Mean signed move from the trigger close to the horizon close, in %.
+  avg_delta_pct: number | null;
+  // Share of all bars whose outcome matches the rule direction, pattern or not.
+  baseline_hit_rate: number | null;
+  // hit_rate minus baseline_hit_rate.
+  edge: number | null;
+  outcomes: { UP: number; DOWN: number; FLAT: number };
+};
+
+const round4 = (value: number) => Number(value.toFixed(4));
+
+export function normalizeBacktestRequest(
+  config: RuntimeConfig,
+  payload: Record<string, unknown> | null,
+  nowMs = Date.now()
+): BacktestRequest {
+  const rule = normalizeReasonRule(payload?.reason_rule);
+  if (rule.condition) {
+    throw new Error('Backtests take a single pattern or indicator, not reason_rule.condition');
+  }
+  const coinInput =
+    typeof payload?.coin === 'string'
+      ? payload.coin.trim().toUpperCase()
+      : coinFromSymbol(typeof payload?.symbol === 'string' ? payload.symbol : null);
+  const coin = coinInput || config.assets[0];
+  if (!config.assets.includes(coin)) {
+    throw new Error(`Unsupported coin: ${coin}`);
+  }
+
+  const startMs = parseTime(payload?.start_time);
+  const endMs = parseTime(payload?.end_time) ?? nowMs;
+  if (startMs === null) {
+    throw new Error('Missing start_time');
+  }
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) {
+    throw new Error('Invalid time range');
+  }
+  if (startMs >= endMs) {
+    throw new Error('start_time must be before end_time');
+  }
+
+  const intervalMs = intervalToMs(rule.timeframe);
+  const totalBars =
+    Math.ceil((endMs - startMs) / intervalMs) +
+    getRuleRequiredBars(rule) +
+    rule.horizon_bars;
+  if (totalBars > MAX_BACKTEST_BARS) {
+    throw new Error(`Backtest range exceeds ${MAX_BACKTEST_BARS} bars`);
+  }
+  return { coin, rule, startMs, endMs };
+}
+
+/**
+ * Replays a reason rule over closed candles. Every bar closing in [startMs, endMs] with enough
+ * history and a closed horizon candle counts towards the baseline; bars where the pattern holds
+ * are triggers. Outcomes use the same flat threshold as live reason-rule evaluation.
+ */
+export function runBacktest(
+  rule: ReasonRule,
+  klines: Kline[],
+  options: { startMs: number; endMs: number; flatThresholdPct: number }
+): BacktestResult {
+  const requiredBars = getRuleRequiredBars(rule);
+  const candles = [...new Map(klines.map((kline) => [kline.close_time, kline])).values()].sort(
+    (a, b) => a.close_time - b.close_time
+  );
+  const intervalMs = intervalToMs(rule.timeframe);
+
+  const outcomes = { UP: 0, DOWN: 0, FLAT: 0 };
+  let bars = 0;
+  let triggers = 0;
+  let hits = 0;
+  let deltaSum = 0;
+  for (let i = requiredBars - 1; i + rule.horizon_bars < candles.length; i += 1) {
+    const base = candles[i];
+    if (base.close_time < options.startMs || base.close_time > options.endMs) continue;
+    const target = candles[i + rule.horizon_bars];
+    // A gap in the candles would shift the horizon; skip rather than mis-score.
+    if (target.close_time !== base.close_time + rule.horizon_bars * intervalMs) continue;
+
+    const { outcome, deltaPct } = computeOutcome(
+      base.close,
+      target.close,
+      options.flatThresholdPct
+    );
+    bars += 1;
+    outcomes[outcome] += 1;
+    if (!evaluateRule(rule, candles.slice(i + 1 - requiredBars, i + 1))) continue;
+    triggers += 1;
+    deltaSum += deltaPct;
+    if (outcome === rule.direction) hits += 1;
+  }
+
+  const hitRate = triggers > 0 ? round4(hits / triggers) : null;
+  const baselineHitRate = bars > 0 ? round4(outcomes[rule.direction] / bars) : null;
+  return {
+    bars,
+    triggers,
+    hits,
+    hit_rate: hitRate,
+    avg_delta_pct: triggers > 0 ? round4(deltaSum / triggers) : null,
+    baseline_hit_rate: baselineHitRate,
+    edge: hitRate !== null && baselineHitRate !== null ? round4(hitRate - baselineHitRate) : null,
+    outcomes,
+  };
+}
+
+// Default source: Hyperliquid candles through fetchKlines.
+export function hyperliquidKlineSource(env: Env): KlineSource {
+  return (request) => fetchKlines(env, request);
+}
+
+// Reads the range in pages of `pageLimit` candles; overlapping candles are deduped later.
+async function loadBacktestKlines(
+  source: KlineSource,
+  request: BacktestRequest,
+  pageLimit: number,
+  nowMs: number
+): Promise<Kline[]> {
+  const { rule } = request;
+  const intervalMs = intervalToMs(rule.timeframe);
+  const fromMs = request.startMs - intervalMs * getRuleRequiredBars(rule);
+  const toMs = Math.min(request.endMs + intervalMs * rule.horizon_bars, nowMs);
+
+  const klines: Kline[] = [];
+  for (let pageStart = fromMs; pageStart < toMs; pageStart += intervalMs * pageLimit) {
+    const page = await source({
+      coin: request.coin,
+      interval: rule.timeframe,
+      startTime: pageStart,
+      endTime: Math.min(pageStart + intervalMs * pageLimit, toMs),
+      limit: pageLimit,
+    });
+    klines.push(...page.filter((kline) => kline.close_time <= nowMs));
+  }
+  return klines;
+}
+
+/**
+ * Backtests `reason_rule` over `start_time`..`end_time` (default now) for `coin` / `symbol`.
+ * Candles before the range warm up the pattern and candles after it resolve the horizon.
+ */
+export async function backtestRule(
+  env: Env,
+  config: RuntimeConfig,
+  payload: Record<string, unknown> | null,
+  options: { source?: KlineSource; nowMs?: number } = {}
+) {
+  const nowMs = options.nowMs ?? Date.now();
+  const request = normalizeBacktestRequest(config, payload, nowMs);
+  const source = options.source ?? hyperliquidKlineSource(env);
+  const klines = await loadBacktestKlines(
+    source,
+    request,
+    getKlineConfig(env).maxLimit,
+    nowMs
+  );
+  const result = runBacktest(request.rule, klines, {
+    startMs: request.startMs,
+    endMs: request.endMs,
+    flatThresholdPct: config.flatThresholdPct,
+  });
+  return {
+    ok: true,
+    coin: request.coin,
+    reason_rule: request.rule,
+    start_time: new Date(request.startMs).toISOString(),
+    end_time: new Date(request.endMs).toISOString(),
+    flat_threshold_pct: config.flatThresholdPct,
+    ...result,
+  };
+}
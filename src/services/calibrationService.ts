@@ -0,0 +1,146 @@
+import type { Env } from '../types';
+import { normalizeWindow, numberOrZero } from './reasonStatsService';
+
+export const CALIBRATION_BUCKETS = 10;
+// 95% two-sided normal quantile for the Wilson score interval.
+const WILSON_Z = 1.959964;
+
+export type CalibrationRow = {
+  bucket: number;
+  n: number;
+  hits: number;
+  avg_confidence: number;
+};
+
+export type CalibrationBucket = {
+  bucket: string;
+  lower: number;
+  upper: number;
+  n: number;
+  hits: number;
+  hit_rate: number | null;
+  avg_confidence: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+};
+
+export type CalibrationReport = {
+  n: number;
+  hit_rate: number | null;
+  avg_confidence: number | null;
+  ece: number | null;
+  buckets: CalibrationBucket[];
+};
+
+export type CalibrationResponse = CalibrationReport & {
+  ok: true;
+  agent_id: string;
+  since: string;
+  until: string;
+};
+
+const round4 = (value: number) => Number(value.toFixed(4));
+
+export function wilsonInterval(hits: number, n: number, z = WILSON_Z) {
+  if (n <= 0) return null;
+  const p = hits / n;
+  const z2 = z * z;
+  const denom = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denom;
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denom;
+  return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}
+
+/**
+ * Builds the decile report from per-bucket aggregates. Bucket `k` covers confidence `[10k, 10k+10)`,
+ * with 100 folded into the top bucket. ECE is the sample-weighted mean of |hit rate - confidence|.
+ */
+export function buildCalibrationReport(rows: CalibrationRow[]): CalibrationReport {
+  const byBucket = new Map(rows.map((row) => [row.bucket, row]));
+  const width = 100 / CALIBRATION_BUCKETS;
+  let total = 0;
+  let totalHits = 0;
+  let confidenceSum = 0;
+  let gapSum = 0;
+
+  const buckets: CalibrationBucket[] = [];
+  for (let index = 0; index < CALIBRATION_BUCKETS; index += 1) {
+    const lower = index * width;
+    const upper = lower + width;
+    const row = byBucket.get(index);
+    const n = row?.n ?? 0;
+    const hits = row?.hits ?? 0;
+    const interval = wilsonInterval(hits, n);
+    const hitRate = n > 0 ? hits / n : null;
+    const avgConfidence = n > 0 ? row!.avg_confidence : null;
+    if (hitRate !== null && avgConfidence !== null) {
+      total += n;
+      totalHits += hits;
+      confidenceSum += avgConfidence * n;
+      gapSum += n * Math.abs(hitRate - avgConfidence / 100);
+    }
+    buckets.push({
+      bucket: `${lower}-${upper}`,
+      lower,
+      upper,
+      n,
+      hits,
+      hit_rate: hitRate === null ? null : round4(hitRate),
+      avg_confidence: avgConfidence === null ? null : round4(avgConfidence),
+      ci_low: interval ? round4(interval.low) : null,
+      ci_high: interval ? round4(interval.high) : null,
+    });
+  }
+
+  return {
+    n: total,
+    hit_rate: total > 0 ? round4(totalHits / total) : null,
+    avg_confidence: total > 0 ? round4(confidenceSum / total) : null,
+    ece: total > 0 ? round4(gapSum / total) : null,
+    buckets,
+  };
+}
+
+/**
+ * Calibration of an agent's settled judgments whose verdict falls in `[since, until]`
+ * (default: the last 30 days). Voided rounds have no verdict and drop out of the join.
+ */
+export async function getAgentCalibration(
+  env: Env,
+  options: { agentId: string; since?: unknown; until?: unknown; nowMs?: number }
+): Promise<CalibrationResponse> {
+  const window = normalizeWindow(options.since, options.until, options.nowMs ?? Date.now());
+  const sql = `
+    SELECT
+      MIN(CAST(j.confidence / 10 AS INTEGER), ${CALIBRATION_BUCKETS - 1}) AS bucket,
+      COUNT(*) AS n,
+      SUM(CASE WHEN j.direction = v.result THEN 1 ELSE 0 END) AS hits,
+      AVG(j.confidence) AS avg_confidence
+    FROM judgments j
+    JOIN verdicts v ON v.round_id = j.round_id
+    WHERE j.agent_id = ? AND v.timestamp >= ? AND v.timestamp <= ?
+    GROUP BY bucket
+  `;
+  const result = await env.DB.prepare(sql)
+    .bind(options.agentId, window.sinceIso, window.untilIso)
+    .all<{
+      bucket: number | string;
+      n: number | string;
+      hits: number | string | null;
+      avg_confidence: number | string | null;
+    }>();
+  const rows: CalibrationRow[] = (result.results ?? []).map((row) => ({
+    bucket: numberOrZero(row.bucket),
+    n: numberOrZero(row.n),
+    hits: numberOrZero(row.hits),
+    avg_confidence: numberOrZero(row.avg_confidence),
+  }));
+
+  return {
+    ok: true,
+    agent_id: options.agentId,
+    since: window.sinceIso,
+    until: window.untilIso,
+    ...buildCalibrationReport(rows),
+  };
+}
@@ -0,0 +1,108 @@
+import type { ConditionLeaf, ReasonCondition } from '../types';
+import { SUPPORTED_INTERVALS } from './klineService';
+import { findPattern } from './patternRegistry';
+
+// Pattern id recorded for composite rules; the tree itself is identified by its signature.
+export const COMPOSITE_PATTERN = 'composite.v1';
+
+// Levels in the tree, leaves included: `and(or(not(leaf)))` is depth 4.
+export const MAX_CONDITION_DEPTH = 4;
+export const MAX_CONDITION_LEAVES = 8;
+
+const VALID_TIMEFRAMES = new Set(SUPPORTED_INTERVALS);
+
+export type LeafValue = ConditionLeaf & { holds: boolean };
+
+function isLeaf(node: ReasonCondition): node is ConditionLeaf {
+  return 'pattern' in node;
+}
+
+export function conditionSignature(node: ReasonCondition): string {
+  if (isLeaf(node)) return `${node.timeframe}:${node.pattern}`;
+  if ('not' in node) return `not(${conditionSignature(node.not)})`;
+  const [op, children] = 'and' in node ? ['and', node.and] : ['or', node.or];
+  return `${op}(${children.map(conditionSignature).join(',')})`;
+}
+
+function normalizeNode(
+  input: unknown,
+  defaultTimeframe: string,
+  depth: number,
+  leaves: { count: number }
+): ReasonCondition {
+  if (depth > MAX_CONDITION_DEPTH) {
+    throw new Error(`reason_rule.condition exceeds depth ${MAX_CONDITION_DEPTH}`);
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Invalid reason_rule.condition');
+  }
+  const raw = input as Record<string, unknown>;
+  const keys = Object.keys(raw);
+
+  if (keys.includes('pattern')) {
+    if (keys.some((key) => key !== 'pattern' && key !== 'timeframe')) {
+      throw new Error('reason_rule.condition leaves take only pattern and timeframe');
+    }
+    const pattern = typeof raw.pattern === 'string' ? raw.pattern.trim() : '';
+    if (!findPattern(pattern)) {
+      throw new Error(`Invalid reason_rule.condition pattern: ${pattern}`);
+    }
+    const timeframe =
+      raw.timeframe === undefined
+        ? defaultTimeframe
+        : typeof raw.timeframe === 'string'
+          ? raw.timeframe.trim().toLowerCase()
+          : '';
+    if (!VALID_TIMEFRAMES.has(timeframe)) {
+      throw new Error('Invalid reason_rule.condition timeframe');
+    }
+    leaves.count += 1;
+    if (leaves.count > MAX_CONDITION_LEAVES) {
+      throw new Error(`reason_rule.condition allows at most ${MAX_CONDITION_LEAVES} patterns`);
+    }
+    return { pattern, timeframe };
+  }
+
+  if (keys.length !== 1 || !['and', 'or', 'not'].includes(keys[0])) {
+    throw new Error('reason_rule.condition nodes are { and }, { or }, { not } or a pattern');
+  }
+  const op = keys[0];
+  if (op === 'not') {
+    return { not: normalizeNode(raw.not, defaultTimeframe, depth + 1, leaves) };
+  }
+  const children = raw[op];
+  if (!Array.isArray(children) || children.length < 2) {
+    throw new Error(`reason_rule.condition ${op} needs at least 2 operands`);
+  }
+  // AND / OR are commutative: sort operands so equivalent trees share one signature.
+  const normalized = children
+    .map((child) => normalizeNode(child, defaultTimeframe, depth + 1, leaves))
+    .sort((a, b) => conditionSignature(a).localeCompare(conditionSignature(b)));
+  return op === 'and' ? { and: normalized } : { or: normalized };
+}
+
+/**
+ * Validates a composite condition: v1 catalog patterns as leaves (each on its own timeframe,
+ * defaulting to the rule timeframe) combined with `and`, `or` and `not`. Enforces the depth and
+ * leaf limits and returns the tree in canonical operand order.
+ */
+export function normalizeCondition(input: unknown, defaultTimeframe: string): ReasonCondition {
+  return normalizeNode(input, defaultTimeframe, 1, { count: 0 });
+}
+
+// Leaves in signature order; their truth values are stored in the same order.
+export function conditionLeaves(node: ReasonCondition): ConditionLeaf[] {
+  if (isLeaf(node)) return [node];
+  if ('not' in node) return conditionLeaves(node.not);
+  return ('and' in node ? node.and : node.or).flatMap(conditionLeaves);
+}
+
+export function evaluateCondition(
+  node: ReasonCondition,
+  holds: (leaf: ConditionLeaf) => boolean
+): boolean {
+  if (isLeaf(node)) return holds(node);
+  if ('not' in node) return !evaluateCondition(node.not, holds);
+  if ('and' in node) return node.and.every((child) => evaluateCondition(child, holds));
+  return node.or.some((child) => evaluateCondition(child, holds));
+}
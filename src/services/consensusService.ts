@@ -0,0 +1,148 @@
+import type { Env, Round } from '../types';
+import {
+  mostLikelyOutcome,
+  OUTCOMES,
+  type ForecastDistribution,
+  type Outcome,
+} from './forecastScoring';
+import { DEFAULT_RATING } from './ratingService';
+import { numberOrZero } from './reasonStatsService';
+
+// Virtual agent that plays the confidence-weighted consensus of every round (seeded by migration).
+export const CROWD_AGENT_ID = 'crowd';
+
+export type ConsensusVote = {
+  direction: string;
+  confidence: number;
+  rating: number | null;
+};
+
+export type WeightedDirection = {
+  direction: Outcome | null;
+  // Share of the weight behind `direction`, as a 0-100 confidence.
+  confidence: number | null;
+  shares: ForecastDistribution;
+};
+
+export type Consensus = {
+  total: number;
+  votes: ForecastDistribution;
+  confidence_weighted: WeightedDirection;
+  rating_weighted: WeightedDirection;
+};
+
+export type RoundConsensus = Consensus & {
+  round_id: string;
+  track_id: string;
+  symbol: string;
+  computed_at: string;
+  result: string | null;
+  correct: boolean | null;
+  crowd: { rounds: number; hits: number; hit_rate: number | null };
+};
+
+type ConsensusRow = {
+  round_id: string;
+  payload: string;
+  computed_at: string;
+  result: string | null;
+  correct: number | null;
+};
+
+const round4 = (value: number) => Number(value.toFixed(4));
+
+// Elo-style strength, so a 400-point rating gap means a 10x louder vote.
+function ratingWeight(rating: number | null) {
+  return 10 ** (((rating ?? DEFAULT_RATING) - DEFAULT_RATING) / 400);
+}
+
+function weightedDirection(weights: ForecastDistribution): WeightedDirection {
+  const total = weights.UP + weights.DOWN + weights.FLAT;
+  if (total <= 0) {
+    return { direction: null, confidence: null, shares: { UP: 0, DOWN: 0, FLAT: 0 } };
+  }
+  const shares = {
+    UP: round4(weights.UP / total),
+    DOWN: round4(weights.DOWN / total),
+    FLAT: round4(weights.FLAT / total),
+  };
+  const direction = mostLikelyOutcome(shares);
+  return { direction, confidence: Math.round(shares[direction] * 100), shares };
+}
+
+/**
+ * Aggregates the judgments of a round: raw vote counts, a confidence-weighted direction and a
+ * rating-weighted direction. Ties resolve in UP, DOWN, FLAT order.
+ */
+export function buildConsensus(votes: ConsensusVote[]): Consensus {
+  const counts: ForecastDistribution = { UP: 0, DOWN: 0, FLAT: 0 };
+  const byConfidence: ForecastDistribution = { UP: 0, DOWN: 0, FLAT: 0 };
+  const byRating: ForecastDistribution = { UP: 0, DOWN: 0, FLAT: 0 };
+  for (const vote of votes) {
+    const side = vote.direction as Outcome;
+    if (!OUTCOMES.includes(side)) continue;
+    counts[side] += 1;
+    byConfidence[side] += Math.max(vote.confidence, 0);
+    byRating[side] += ratingWeight(vote.rating);
+  }
+  return {
+    total: counts.UP + counts.DOWN + counts.FLAT,
+    votes: counts,
+    confidence_weighted: weightedDirection(byConfidence),
+    rating_weighted: weightedDirection(byRating),
+  };
+}
+
+// Statement that snapshots a round's consensus; written at lock (commit-reveal: at settlement).
+export function insertConsensus(env: Env, round: Round, consensus: Consensus, computedAt: string) {
+  return env.DB.prepare(
+    'INSERT OR REPLACE INTO round_consensus (round_id, track_id, symbol, direction, confidence, payload, computed_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).bind(
+    round.round_id,
+    round.track_id,
+    round.symbol,
+    consensus.confidence_weighted.direction,
+    consensus.confidence_weighted.confidence,
+    JSON.stringify(consensus),
+    computedAt
+  );
+}
+
+/**
+ * Published consensus of a round plus the crowd's track record on that track. Rounds still
+ * taking judgments never expose it.
+ */
+export async function getRoundConsensus(env: Env, round: Round): Promise<RoundConsensus> {
+  if (round.status === 'betting') {
+    throw new Error('Consensus is published at lock');
+  }
+  const row = await env.DB.prepare('SELECT * FROM round_consensus WHERE round_id = ?')
+    .bind(round.round_id)
+    .first<ConsensusRow>();
+  if (!row) {
+    throw new Error(
+      round.submission_mode === 'commit_reveal' && round.status === 'locked'
+        ? 'Consensus of commit-reveal rounds is published at settlement'
+        : 'No consensus for this round'
+    );
+  }
+  // The crowd's record is its standing on the track; round_consensus and verdicts are trimmed.
+  const history = await env.DB.prepare(
+    'SELECT SUM(rounds) AS rounds, SUM(wins) AS hits FROM track_standings WHERE track_id = ? AND agent_id = ?'
+  )
+    .bind(round.track_id, CROWD_AGENT_ID)
+    .first<{ rounds: number | string | null; hits: number | string | null }>();
+  const rounds = numberOrZero(history?.rounds);
+  const hits = numberOrZero(history?.hits);
+
+  return {
+    round_id: round.round_id,
+    track_id: round.track_id,
+    symbol: round.symbol,
+    computed_at: row.computed_at,
+    ...(JSON.parse(row.payload) as Consensus),
+    result: row.result ?? null,
+    correct: row.correct === null || row.correct === undefined ? null : Boolean(row.correct),
+    crowd: { rounds, hits, hit_rate: rounds > 0 ? round4(hits / rounds) : null },
+  };
+}
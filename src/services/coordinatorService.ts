@@ -0,0 +1,53 @@
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { Env, MetaState } from '../types';
+
+function getCoordinator(env: Env) {
+  const id = env.ROUND_COORDINATOR.idFromName('primary');
+  return env.ROUND_COORDINATOR.get(id);
+}
+
+async function readJson<T>(res: Response): Promise<T> {
+  if (!res.ok && res.status >= 500) {
+    const body = await res.text();
+    throw new Error(`Round coordinator error ${res.status}: ${body}`);
+  }
+  return (await res.json()) as T;
+}
+
+export async function requestAdvance(
+  env: Env,
+  trackId?: string
+): Promise<Record<string, MetaState>> {
+  const query = trackId ? `?track=${encodeURIComponent(trackId)}` : '';
+  const res = await getCoordinator(env).fetch(`https://round-coordinator/advance${query}`, {
+    method: 'POST',
+  });
+  const body = await readJson<{ ok: boolean; meta?: Record<string, MetaState>; message?: string }>(
+    res
+  );
+  if (!body.ok) {
+    throw new Error(body.message || 'Advance failed');
+  }
+  return body.meta ?? {};
+}
+
+export async function requestVoid(
+  env: Env,
+  roundId: string
+): Promise<{ status: ContentfulStatusCode; body: Record<string, unknown> }> {
+  const res = await getCoordinator(env).fetch('https://round-coordinator/void', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ round_id: roundId, reason: 'admin' }),
+  });
+  const body = await readJson<Record<string, unknown>>(res);
+  return { status: res.status as ContentfulStatusCode, body };
+}
+
+export async function requestDiagnostics(
+  env: Env
+): Promise<{ status: ContentfulStatusCode; body: Record<string, unknown> }> {
+  const res = await getCoordinator(env).fetch('https://round-coordinator/diag');
+  const body = await readJson<Record<string, unknown>>(res);
+  return { status: res.status as ContentfulStatusCode, body };
+}
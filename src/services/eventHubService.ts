@@ -0,0 +1,162 @@
+import type { Env } from '../types';
+
+export const ROUND_CHANNEL = 'round';
+export const FEED_CHANNEL = 'feed';
+export const MAX_CHANNELS_PER_SOCKET = 32;
+
+export type HubMessage = {
+  channel: string;
+  type: string;
+  data: unknown;
+  ts: string;
+};
+
+export type ClientCommand = {
+  op: 'subscribe' | 'unsubscribe';
+  channels: string[];
+};
+
+export function priceChannel(coin: string) {
+  return `price:${coin.toUpperCase()}`;
+}
+
+/** Coins whose price channel has at least one subscriber, given each socket's channels. */
+export function subscribedCoins(channelSets: string[][]): string[] {
+  const coins = new Set<string>();
+  for (const channels of channelSets) {
+    for (const channel of channels) {
+      if (channel.startsWith('price:')) coins.add(channel.slice('price:'.length));
+    }
+  }
+  return [...coins].sort();
+}
+
+export function buildHubMessage(channel: string, type: string, data: unknown): HubMessage {
+  return { channel, type, data, ts: new Date().toISOString() };
+}
+
+/**
+ * Splits requested channels into known ones (`round`, `feed`, `price:<COIN>` for enabled coins)
+ * and rejected ones. Accepts an array or a comma-separated string.
+ */
+export function normalizeChannels(
+  raw: unknown,
+  coins: string[]
+): { channels: string[]; invalid: string[] } {
+  const items = Array.isArray(raw)
+    ? raw
+    : typeof raw === 'string'
+      ? raw.split(',')
+      : [];
+  const channels: string[] = [];
+  const invalid: string[] = [];
+  for (const item of items) {
+    if (typeof item !== 'string' || item.trim() === '') continue;
+    const trimmed = item.trim();
+    const lower = trimmed.toLowerCase();
+    let channel: string | null = null;
+    if (lower === ROUND_CHANNEL || lower === FEED_CHANNEL) {
+      channel = lower;
+    } else if (lower.startsWith('price:')) {
+      const coin = trimmed.slice('price:'.length).toUpperCase();
+      if (coins.includes(coin)) channel = priceChannel(coin);
+    }
+    if (!channel) {
+      invalid.push(trimmed);
+    } else if (!channels.includes(channel)) {
+      channels.push(channel);
+    }
+  }
+  return { channels, invalid };
+}
+
+export function parseClientCommand(raw: string): ClientCommand | null {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (message?.op !== 'subscribe' && message?.op !== 'unsubscribe') return null;
+  const channels = Array.isArray(message.channels)
+    ? message.channels
+    : typeof message.channel === 'string'
+      ? [message.channel]
+      : [];
+  return { op: message.op, channels };
+}
+
+export function applySubscription(
+  current: string[],
+  command: ClientCommand,
+  coins: string[]
+): { channels: string[]; invalid: string[] } {
+  const { channels, invalid } = normalizeChannels(command.channels, coins);
+  if (command.op === 'unsubscribe') {
+    return { channels: current.filter((channel) => !channels.includes(channel)), invalid };
+  }
+  const next = [...current];
+  for (const channel of channels) {
+    if (next.includes(channel)) continue;
+    if (next.length >= MAX_CHANNELS_PER_SOCKET) {
+      invalid.push(channel);
+      continue;
+    }
+    next.push(channel);
+  }
+  return { channels: next, invalid };
+}
+
+// Best effort: a hub outage must never block round lifecycle or price ingestion.
+export async function publishEvents(env: Env, messages: HubMessage[]): Promise<void> {
+  if (!env.EVENT_HUB || messages.length === 0) return;
+  try {
+    const id = env.EVENT_HUB.idFromName('primary');
+    const stub = env.EVENT_HUB.get(id);
+    const res = await stub.fetch('https://event-hub/publish', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ messages }),
+    });
+    if (!res.ok) {
+      console.warn(`Event hub publish failed ${res.status}`);
+    }
+  } catch (error) {
+    console.warn('Event hub publish failed', error);
+  }
+}
+
+/** Asks the hub which coins have price subscribers; null when the hub can't be reached. */
+export async function fetchPriceSubscriptions(env: Env): Promise<string[] | null> {
+  if (!env.EVENT_HUB) return [];
+  try {
+    const id = env.EVENT_HUB.idFromName('primary');
+    const stub = env.EVENT_HUB.get(id);
+    const res = await stub.fetch('https://event-hub/subscriptions');
+    if (!res.ok) return null;
+    const body = (await res.json()) as { coins?: unknown };
+    return Array.isArray(body.coins) ? body.coins.filter((coin) => typeof coin === 'string') : null;
+  } catch (error) {
+    console.warn('Event hub subscriptions lookup failed', error);
+    return null;
+  }
+}
+
+// Called by the hub when the set of subscribed coins changes, so the price feed only publishes
+// (and wakes the hub) for coins somebody is watching.
+export async function notifyPriceSubscriptions(env: Env, coins: string[]): Promise<void> {
+  try {
+    const id = env.PRICE_FEED.idFromName('primary');
+    const stub = env.PRICE_FEED.get(id);
+    const res = await stub.fetch('https://price-feed/subscriptions', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ coins }),
+    });
+    if (!res.ok) {
+      console.warn(`Price feed subscription sync failed ${res.status}`);
+    }
+  } catch (error) {
+    console.warn('Price feed subscription sync failed', error);
+  }
+}
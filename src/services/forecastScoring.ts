@@ -0,0 +1,78 @@
+export const OUTCOMES = ['UP', 'DOWN', 'FLAT'] as const;
+
+export type Outcome = (typeof OUTCOMES)[number];
+
+export type ForecastDistribution = Record<Outcome, number>;
+
+const SUM_TOLERANCE = 0.01;
+// Clamp for log-loss so a confident miss costs ~13.8 instead of Infinity.
+const LOG_LOSS_EPSILON = 1e-6;
+
+function parseProbability(value: unknown): number | null {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Accepts `{ UP, DOWN, FLAT }` (case-insensitive keys, missing keys = 0) summing to 1 within
+ * tolerance, and renormalizes to a sum of 1 (6 decimals, as stored).
+ */
+export function normalizeProbabilities(input: unknown): ForecastDistribution {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('probabilities must be an object of UP/DOWN/FLAT');
+  }
+  const dist: ForecastDistribution = { UP: 0, DOWN: 0, FLAT: 0 };
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    const outcome = key.toUpperCase() as Outcome;
+    if (!OUTCOMES.includes(outcome)) {
+      throw new Error(`Invalid probabilities key: ${key}`);
+    }
+    const probability = parseProbability(value);
+    if (probability === null || probability < 0 || probability > 1) {
+      throw new Error(`Invalid probability for ${outcome}`);
+    }
+    dist[outcome] = probability;
+  }
+  const sum = dist.UP + dist.DOWN + dist.FLAT;
+  if (Math.abs(sum - 1) > SUM_TOLERANCE) {
+    throw new Error('probabilities must sum to 1');
+  }
+  const round = (value: number) => Number((value / sum).toFixed(6));
+  return { UP: round(dist.UP), DOWN: round(dist.DOWN), FLAT: round(dist.FLAT) };
+}
+
+// Most likely outcome; ties resolve in OUTCOMES order.
+export function mostLikelyOutcome(dist: ForecastDistribution): Outcome {
+  return OUTCOMES.reduce((best, outcome) => (dist[outcome] > dist[best] ? outcome : best));
+}
+
+/**
+ * Distribution implied by a legacy binary judgment: `confidence`% on the chosen direction and
+ * the rest split evenly over the other two outcomes.
+ */
+export function impliedDistribution(direction: string, confidence: number): ForecastDistribution {
+  const p = Math.min(Math.max(confidence / 100, 0), 1);
+  const rest = (1 - p) / 2;
+  const dist: ForecastDistribution = { UP: rest, DOWN: rest, FLAT: rest };
+  dist[direction.toUpperCase() as Outcome] = p;
+  return dist;
+}
+
+// Multi-class Brier score: sum of squared errors over outcomes. 0 is perfect, 2 is worst.
+export function brierScore(dist: ForecastDistribution, outcome: Outcome): number {
+  return OUTCOMES.reduce((sum, item) => {
+    const target = item === outcome ? 1 : 0;
+    return sum + (dist[item] - target) ** 2;
+  }, 0);
+}
+
+export function logLoss(dist: ForecastDistribution, outcome: Outcome): number {
+  return Math.log(1 / Math.max(dist[outcome], LOG_LOSS_EPSILON));
+}
+
+export function scoreForecast(dist: ForecastDistribution, outcome: Outcome) {
+  return {
+    brier: Number(brierScore(dist, outcome).toFixed(6)),
+    log_loss: Number(logLoss(dist, outcome).toFixed(6)),
+  };
+}
@@ -0,0 +1,262 @@
+import { DEFAULT_AGENTS, type HouseAgent } from '../agents';
+import type { RuntimeConfig } from '../config';
+import { trimTable } from '../db';
+import type { Env, Round } from '../types';
+import { OUTCOMES } from './forecastScoring';
+import {
+  commitJudgment,
+  computeCommitHash,
+  revealJudgment,
+  submitJudgment,
+} from './judgmentService';
+import { coinFromSymbol, fetchKlines, intervalToMs } from './klineService';
+import { alignCloseTimeMs, evaluatePattern, getPatternRequiredBars } from './reasonRuleService';
+
+export const HOUSE_AGENT_STATUS = 'house';
+
+export type HouseRunResult = {
+  submitted: string[];
+  skipped: string[];
+  errors: number;
+};
+
+type HouseCall = {
+  direction: string;
+  confidence: number;
+  timeframe: string;
+  pattern: string;
+  comment: string;
+};
+
+export function getHouseAgents(config: RuntimeConfig): HouseAgent[] {
+  return DEFAULT_AGENTS.filter((agent) => config.houseAgents.includes(agent.id));
+}
+
+// Whether `pattern` holds on the `timeframe` candles up to and including `tCloseMs`.
+export async function patternHoldsAt(
+  env: Env,
+  coin: string,
+  pattern: string,
+  timeframe: string,
+  tCloseMs: number
+): Promise<boolean> {
+  const requiredBars = getPatternRequiredBars(pattern, timeframe);
+  const intervalMs = intervalToMs(timeframe);
+  const limit = Math.min(500, requiredBars + 10);
+  const klines = await fetchKlines(env, {
+    coin,
+    interval: timeframe,
+    startTime: tCloseMs - intervalMs * limit,
+    endTime: tCloseMs,
+    limit,
+  });
+  const window = klines
+    .filter((kline) => kline.close_time <= tCloseMs)
+    .sort((a, b) => a.close_time - b.close_time)
+    .slice(-requiredBars);
+  if (window.length < requiredBars) return false;
+  return evaluatePattern(pattern, window);
+}
+
+/**
+ * Turns a house agent's declarative strategy into a call for this round, or null when the
+ * strategy sits the round out.
+ */
+export async function decideHouseCall(
+  env: Env,
+  agent: HouseAgent,
+  coin: string,
+  options: { nowMs: number; random: () => number }
+): Promise<HouseCall | null> {
+  const strategy = agent.strategy;
+  switch (strategy.kind) {
+    case 'always':
+      return {
+        direction: strategy.direction,
+        confidence: strategy.confidence,
+        ...strategy.reason,
+        comment: `House rule: always ${strategy.direction}`,
+      };
+    case 'random': {
+      const direction = OUTCOMES[Math.floor(options.random() * OUTCOMES.length)];
+      const span = strategy.max_confidence - strategy.min_confidence;
+      return {
+        direction,
+        confidence: Math.round(strategy.min_confidence + options.random() * span),
+        ...strategy.reason,
+        comment: 'House rule: random call',
+      };
+    }
+    case 'pattern': {
+      const tCloseMs = alignCloseTimeMs(options.nowMs, strategy.timeframe);
+      const holds = await patternHoldsAt(
+        env,
+        coin,
+        strategy.pattern,
+        strategy.timeframe,
+        tCloseMs
+      );
+      if (!holds) return null;
+      return {
+        direction: strategy.direction,
+        confidence: strategy.confidence,
+        timeframe: strategy.timeframe,
+        pattern: strategy.pattern,
+        comment: `House rule: ${strategy.pattern} on ${strategy.timeframe}`,
+      };
+    }
+  }
+}
+
+// Judgment body for a house call; the reason rule horizon spans the round.
+function buildHouseJudgment(
+  config: RuntimeConfig,
+  round: Round,
+  call: HouseCall,
+  nowMs: number
+): Record<string, unknown> {
+  const intervalMs = intervalToMs(call.timeframe);
+  const durationMs = Date.parse(round.end_time) - Date.parse(round.start_time);
+  const horizonBars = Math.min(200, Math.max(1, Math.round(durationMs / intervalMs)));
+  const lookbackBars = getPatternRequiredBars(call.pattern, call.timeframe);
+  return {
+    round_id: round.round_id,
+    direction: call.direction,
+    confidence: call.confidence,
+    comment: call.comment,
+    intervals: [call.timeframe],
+    analysis_start_time: new Date(nowMs - intervalMs * lookbackBars).toISOString(),
+    analysis_end_time: new Date(nowMs).toISOString(),
+    reason_rule: {
+      timeframe: call.timeframe,
+      pattern: call.pattern,
+      direction: call.direction,
+      horizon_bars: horizonBars,
+    },
+    ...(round.game_mode === 'pool' ? { stake: config.poolMinStake } : {}),
+  };
+}
+
+// Commits a house judgment and keeps what it will reveal until revealHouseAgents runs at lock.
+async function commitHouseJudgment(
+  env: Env,
+  round: Round,
+  agentId: string,
+  judgment: Record<string, unknown>
+): Promise<void> {
+  const salt = crypto.randomUUID();
+  const stake = typeof judgment.stake === 'number' ? judgment.stake : null;
+  const commitHash = await computeCommitHash(
+    round.round_id,
+    String(judgment.direction),
+    Number(judgment.confidence),
+    salt,
+    null,
+    stake
+  );
+  const commit = await commitJudgment(env, agentId, {
+    round_id: round.round_id,
+    commit_hash: commitHash,
+    ...(stake !== null ? { stake } : {}),
+  });
+  await env.DB.prepare(
+    'INSERT OR REPLACE INTO house_reveals (round_id, agent_id, payload, committed_at) VALUES (?, ?, ?, ?)'
+  )
+    .bind(round.round_id, agentId, JSON.stringify({ ...judgment, salt }), commit.committed_at)
+    .run();
+}
+
+/**
+ * Seeds the configured house agents and submits their judgments for a freshly started round.
+ * On commit-reveal rounds they commit instead and reveal once the round locks. House agents an
+ * admin moved off the `house` status sit out. Failures are logged per agent and never block the
+ * round.
+ */
+export async function runHouseAgents(
+  env: Env,
+  config: RuntimeConfig,
+  round: Round,
+  options: { nowMs?: number; random?: () => number } = {}
+): Promise<HouseRunResult> {
+  const result: HouseRunResult = { submitted: [], skipped: [], errors: 0 };
+  const agents = getHouseAgents(config);
+  if (agents.length === 0 || round.status !== 'betting') return result;
+
+  await env.DB.batch(
+    agents.map((agent) =>
+      env.DB.prepare(
+        'INSERT OR IGNORE INTO agents (id, name, persona, status, score, prompt) VALUES (?, ?, ?, ?, ?, ?)'
+      ).bind(
+        agent.id,
+        agent.name,
+        agent.persona,
+        HOUSE_AGENT_STATUS,
+        config.seasonBaselineScore,
+        agent.prompt
+      )
+    )
+  );
+  const statusResult = await env.DB.prepare(
+    `SELECT id FROM agents WHERE status = ? AND id IN (${agents.map(() => '?').join(', ')})`
+  )
+    .bind(HOUSE_AGENT_STATUS, ...agents.map((agent) => agent.id))
+    .all<{ id: string }>();
+  const playing = new Set((statusResult.results ?? []).map((row) => row.id));
+
+  const nowMs = options.nowMs ?? Date.now();
+  const random = options.random ?? Math.random;
+  const coin = coinFromSymbol(round.symbol) ?? config.assets[0];
+  for (const agent of agents) {
+    if (!playing.has(agent.id)) {
+      result.skipped.push(agent.id);
+      continue;
+    }
+    try {
+      const call = await decideHouseCall(env, agent, coin, { nowMs, random });
+      if (!call) {
+        result.skipped.push(agent.id);
+        continue;
+      }
+      const judgment = buildHouseJudgment(config, round, call, nowMs);
+      if (round.submission_mode === 'commit_reveal') {
+        await commitHouseJudgment(env, round, agent.id, judgment);
+      } else {
+        await submitJudgment(env, agent.id, judgment);
+      }
+      result.submitted.push(agent.id);
+    } catch (error) {
+      result.errors += 1;
+      console.warn(`House agent ${agent.id} failed on ${round.round_id}`, error);
+    }
+  }
+  if (round.submission_mode === 'commit_reveal') {
+    await trimTable(env, 'house_reveals', config.judgmentLimit);
+  }
+  return result;
+}
+
+/**
+ * Reveals the house commitments of a commit-reveal round once it has locked. Each pending reveal
+ * is attempted once; failures are logged per agent and leave that commitment unrevealed.
+ */
+export async function revealHouseAgents(env: Env, round: Round): Promise<HouseRunResult> {
+  const result: HouseRunResult = { submitted: [], skipped: [], errors: 0 };
+  if (round.submission_mode !== 'commit_reveal') return result;
+
+  const pending = await env.DB.prepare(
+    'SELECT agent_id, payload FROM house_reveals WHERE round_id = ? ORDER BY id'
+  )
+    .bind(round.round_id)
+    .all<{ agent_id: string; payload: string }>();
+  for (const row of pending.results ?? []) {
+    try {
+      await revealJudgment(env, row.agent_id, JSON.parse(row.payload));
+      result.submitted.push(row.agent_id);
+    } catch (error) {
+      result.errors += 1;
+      console.warn(`House agent ${row.agent_id} failed to reveal on ${round.round_id}`, error);
+    }
+  }
+  await env.DB.prepare('DELETE FROM house_reveals WHERE round_id = ?').bind(round.round_id).run();
+  return result;
+}
@@ -0,0 +1,192 @@
+import type { IndicatorParams } from '../types';
+import { computeEma, computeRsi, type Ohlc } from './patternRegistry';
+
+type ParamSpec = (
+  | { type: 'integer' | 'number'; min: number; max: number; default?: number }
+  | { type: 'enum'; values: string[]; default?: string }
+) & { optional?: boolean };
+
+export type IndicatorCatalogEntry = {
+  indicator: string;
+  // Pattern id stored on judgments and used to group reason stats.
+  pattern: string;
+  description: string;
+  params: Record<string, ParamSpec>;
+};
+
+type IndicatorDefinition = IndicatorCatalogEntry & {
+  // Cross-parameter checks once every parameter is within its own bounds.
+  check?: (params: IndicatorParams) => void;
+  requiredBars: (params: IndicatorParams) => number;
+  evaluate: (bars: Ohlc[], params: IndicatorParams) => boolean;
+};
+
+// Periods are capped so that required bars stay within one kline request.
+const MAX_PERIOD = 200;
+
+function emaAt(bars: Ohlc[], period: number, offset: number): number {
+  const ema = computeEma(bars.map((bar) => bar.close), period);
+  return ema[ema.length - 1 + offset];
+}
+
+function checkFastBelowSlow(params: IndicatorParams) {
+  if (Number(params.fast) >= Number(params.slow)) {
+    throw new Error('reason_rule.indicator.fast must be below slow');
+  }
+}
+
+/**
+ * Parameterized indicators accepted by ReasonRule v2. Each parameter is bounds-checked and
+ * defaults are filled in, so the stored params fully describe the rule.
+ */
+export const INDICATOR_REGISTRY: IndicatorDefinition[] = [
+  {
+    indicator: 'ema_cross',
+    pattern: 'indicator.ema_cross.v2',
+    description: 'EMA(fast) crosses above (side=up) or below (side=down) EMA(slow) on this bar.',
+    params: {
+      fast: { type: 'integer', min: 2, max: MAX_PERIOD - 1 },
+      slow: { type: 'integer', min: 3, max: MAX_PERIOD },
+      side: { type: 'enum', values: ['up', 'down'], default: 'up' },
+    },
+    check: checkFastBelowSlow,
+    requiredBars: (params) => Number(params.slow) + 1,
+    evaluate: (bars, params) => {
+      const values = [0, -1].map((offset) => ({
+        fast: emaAt(bars, Number(params.fast), offset),
+        slow: emaAt(bars, Number(params.slow), offset),
+      }));
+      const [now, prev] = values;
+      if (![now.fast, now.slow, prev.fast, prev.slow].every(Number.isFinite)) return false;
+      return params.side === 'up'
+        ? prev.fast <= prev.slow && now.fast > now.slow
+        : prev.fast >= prev.slow && now.fast < now.slow;
+    },
+  },
+  {
+    indicator: 'ema_trend',
+    pattern: 'indicator.ema_trend.v2',
+    description: 'EMA(fast) is above (side=above) or below (side=below) EMA(slow).',
+    params: {
+      fast: { type: 'integer', min: 2, max: MAX_PERIOD - 1 },
+      slow: { type: 'integer', min: 3, max: MAX_PERIOD },
+      side: { type: 'enum', values: ['above', 'below'], default: 'above' },
+    },
+    check: checkFastBelowSlow,
+    requiredBars: (params) => Number(params.slow),
+    evaluate: (bars, params) => {
+      const fast = emaAt(bars, Number(params.fast), 0);
+      const slow = emaAt(bars, Number(params.slow), 0);
+      if (!Number.isFinite(fast) || !Number.isFinite(slow)) return false;
+      return params.side === 'above' ? fast > slow : fast < slow;
+    },
+  },
+  {
+    indicator: 'rsi',
+    pattern: 'indicator.rsi.v2',
+    description: 'RSI(period) with Wilder smoothing is below `below` or above `above` (set one).',
+    params: {
+      period: { type: 'integer', min: 2, max: MAX_PERIOD - 1, default: 14 },
+      below: { type: 'number', min: 1, max: 99, optional: true },
+      above: { type: 'number', min: 1, max: 99, optional: true },
+    },
+    check: (params) => {
+      if ((params.below === undefined) === (params.above === undefined)) {
+        throw new Error('reason_rule.indicator needs exactly one of below/above');
+      }
+    },
+    requiredBars: (params) => Number(params.period) + 1,
+    evaluate: (bars, params) => {
+      const rsi = computeRsi(bars.map((bar) => bar.close), Number(params.period));
+      const value = rsi[rsi.length - 1];
+      if (!Number.isFinite(value)) return false;
+      return params.below !== undefined
+        ? value < Number(params.below)
+        : value > Number(params.above);
+    },
+  },
+];
+
+const INDICATORS_BY_ID = new Map(
+  INDICATOR_REGISTRY.map((definition) => [definition.indicator, definition])
+);
+
+function getIndicator(name: unknown): IndicatorDefinition {
+  const definition = typeof name === 'string' ? INDICATORS_BY_ID.get(name.trim()) : undefined;
+  if (!definition) {
+    throw new Error('Invalid reason_rule.indicator');
+  }
+  return definition;
+}
+
+function normalizeParam(name: string, spec: ParamSpec, value: unknown): string | number {
+  const field = `reason_rule.indicator.${name}`;
+  if (spec.type === 'enum') {
+    const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (!spec.values.includes(text)) {
+      throw new Error(`${field} must be one of ${spec.values.join(', ')}`);
+    }
+    return text;
+  }
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new Error(`${field} must be a number`);
+  }
+  if (spec.type === 'integer' && !Number.isInteger(parsed)) {
+    throw new Error(`${field} must be an integer`);
+  }
+  if (parsed < spec.min || parsed > spec.max) {
+    throw new Error(`${field} must be between ${spec.min} and ${spec.max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Validates a v2 indicator spec such as `{ indicator: 'rsi', period: 7, below: 25 }`. Returns the
+ * params with defaults filled in, in a fixed key order so equal rules serialize identically.
+ */
+export function normalizeIndicatorParams(input: unknown): IndicatorParams {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Invalid reason_rule.indicator');
+  }
+  const raw = input as Record<string, unknown>;
+  const definition = getIndicator(raw.indicator);
+  for (const key of Object.keys(raw)) {
+    if (key !== 'indicator' && !(key in definition.params)) {
+      throw new Error(`Unknown reason_rule.indicator parameter: ${key}`);
+    }
+  }
+
+  const params: IndicatorParams = { indicator: definition.indicator };
+  for (const [name, spec] of Object.entries(definition.params)) {
+    const value = raw[name] ?? spec.default;
+    if (value === undefined || value === null) {
+      if (spec.optional) continue;
+      throw new Error(`Missing reason_rule.indicator.${name}`);
+    }
+    params[name] = normalizeParam(name, spec, value);
+  }
+  definition.check?.(params);
+  return params;
+}
+
+export function indicatorPattern(params: IndicatorParams): string {
+  return getIndicator(params.indicator).pattern;
+}
+
+export function getIndicatorRequiredBars(params: IndicatorParams): number {
+  return getIndicator(params.indicator).requiredBars(params);
+}
+
+export function evaluateIndicator(params: IndicatorParams, bars: Ohlc[]): boolean {
+  return getIndicator(params.indicator).evaluate(bars, params);
+}
+
+export function listIndicators(): IndicatorCatalogEntry[] {
+  return INDICATOR_REGISTRY.map(({ indicator, pattern, description, params }) => ({
+    indicator,
+    pattern,
+    description,
+    params,
+  }));
+}
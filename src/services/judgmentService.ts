@@ -0,0 +1,364 @@
+import { getRuntimeConfig, type RuntimeConfig } from '../config';
+import { trimTable } from '../db';
+import type { Env, JudgmentCommit, Round } from '../types';
+import {
+  validateCommitPayload,
+  validateJudgmentPayload,
+  validateRevealPayload,
+  type NormalizedJudgmentPayload,
+} from './judgmentValidation';
+import { conditionSignature } from './compositeRuleService';
+import { coinFromSymbol } from './klineService';
+import type { ForecastDistribution } from './forecastScoring';
+import type { LevelForecast } from './levelForecastService';
+import { evaluateReasonRuleOnSubmit } from './reasonRuleService';
+import { createRoundService } from './roundService';
+
+const encoder = new TextEncoder();
+
+/**
+ * Commitment for commit-reveal rounds: sha256 hex of `round_id|direction|confidence|salt`,
+ * with confidence as the integer that will be revealed. Probabilistic forecasts append
+ * `|up|down|flat`, each with 4 decimals, pool rounds then append `|stake`, and level forecasts
+ * end with `|target:<price>` or `|range:<low>:<high>`.
+ */
+export async function computeCommitHash(
+  roundId: string,
+  direction: string,
+  confidence: number,
+  salt: string,
+  probabilities: ForecastDistribution | null = null,
+  stake: number | null = null,
+  level: LevelForecast | null = null
+): Promise<string> {
+  const parts: Array<string | number> = [
+    roundId,
+    direction.toUpperCase(),
+    Math.round(confidence),
+    salt,
+  ];
+  if (probabilities) {
+    parts.push(
+      probabilities.UP.toFixed(4),
+      probabilities.DOWN.toFixed(4),
+      probabilities.FLAT.toFixed(4)
+    );
+  }
+  if (stake !== null) {
+    parts.push(stake);
+  }
+  if (level?.kind === 'target') {
+    parts.push(`target:${level.target_price}`);
+  } else if (level?.kind === 'range') {
+    parts.push(`range:${level.low}:${level.high}`);
+  }
+  const message = parts.join('|');
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(message));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function loadRound(env: Env, roundId: string, trackId: string | null): Promise<Round> {
+  const round = await env.DB.prepare('SELECT * FROM rounds WHERE round_id = ?')
+    .bind(roundId)
+    .first<Round>();
+  if (!round) {
+    throw new Error('Round not found');
+  }
+  if (trackId && round.track_id !== trackId) {
+    throw new Error('Round does not belong to track');
+  }
+  return round;
+}
+
+function isCommitReveal(round: Round) {
+  return round.submission_mode === 'commit_reveal';
+}
+
+function isPool(round: Round) {
+  return round.game_mode === 'pool';
+}
+
+function assertStakeForMode(config: RuntimeConfig, round: Round, payload: { stake: number | null }) {
+  if (!isPool(round)) {
+    if (payload.stake !== null) {
+      throw new Error('stake is only accepted in pool rounds');
+    }
+    return;
+  }
+  if (payload.stake === null) {
+    throw new Error('stake is required in pool rounds');
+  }
+  if (payload.stake < config.poolMinStake) {
+    throw new Error(`stake must be at least ${config.poolMinStake}`);
+  }
+}
+
+// Moves the stake (or the difference to an earlier stake on this round) from the bankroll into
+// escrow; settlement pays winners out of the pool. Runs in the same batch as the row holding the
+// stake (a judgment, or a commitment in commit-reveal rounds): the difference is taken against the
+// stake stored at that moment, and the row is only written if this debit went through.
+function escrowStake(
+  env: Env,
+  config: RuntimeConfig,
+  round: Round,
+  agentId: string,
+  stake: number,
+  table: 'judgments' | 'judgment_commits'
+) {
+  const bankroll = config.poolStartingBankroll;
+  const delta = `? - COALESCE((SELECT stake FROM ${table} WHERE round_id = ? AND agent_id = ? ORDER BY id DESC LIMIT 1), 0)`;
+  return env.DB.prepare(
+    `UPDATE agents SET bankroll = COALESCE(bankroll, ?) - (${delta}) WHERE id = ? AND COALESCE(bankroll, ?) >= ${delta}`
+  ).bind(
+    bankroll,
+    stake,
+    round.round_id,
+    agentId,
+    agentId,
+    bankroll,
+    stake,
+    round.round_id,
+    agentId
+  );
+}
+
+function assertBettingOpen(env: Env, config: RuntimeConfig, round: Round) {
+  if (round.status !== 'betting') {
+    throw new Error('Round not accepting submissions');
+  }
+  const roundService = createRoundService(env, config);
+  if (Date.now() >= roundService.getLockTimeMs(round)) {
+    throw new Error('Round locked');
+  }
+}
+
+async function insertJudgment(
+  env: Env,
+  config: RuntimeConfig,
+  round: Round,
+  agentId: string,
+  payload: NormalizedJudgmentPayload,
+  timestamp: string,
+  reveal: { revealedAt: string; stakeEscrowed: boolean } | null = null
+) {
+  const {
+    direction,
+    confidence,
+    probabilities,
+    stake,
+    level,
+    comment,
+    intervals,
+    analysis_start_time,
+    analysis_end_time,
+    reason_rule,
+  } = payload;
+  const coin = coinFromSymbol(round.symbol) ?? config.assets[0];
+  const reasonEval = await evaluateReasonRuleOnSubmit(env, reason_rule, analysis_end_time, coin);
+  const escrow = isPool(round) && stake !== null && !reveal?.stakeEscrowed;
+  // A reveal claims its commitment in the same batch, right before the insert: the judgment is
+  // only written if this call moved the commitment from committed to revealed (after any escrow
+  // debit), so a failed or concurrent reveal never leaves a judgment beside a live commitment.
+  const claim = reveal
+    ? env.DB.prepare(
+        `UPDATE judgment_commits SET status = 'revealed', revealed_at = ? WHERE round_id = ? AND agent_id = ? AND status = 'committed'${escrow ? ' AND changes() = 1' : ''}`
+      ).bind(reveal.revealedAt, round.round_id, agentId)
+    : null;
+  const gated = escrow || claim !== null;
+  // The new judgment is inserted before the earlier one is dropped, so the escrow debit can still
+  // see the earlier stake; an insert skipped for lack of chips leaves the earlier one in place.
+  const results = await env.DB.batch([
+    ...(escrow ? [escrowStake(env, config, round, agentId, stake, 'judgments')] : []),
+    ...(claim ? [claim] : []),
+    env.DB.prepare(
+      `INSERT INTO judgments (round_id, agent_id, symbol, direction, confidence, prob_up, prob_down, prob_flat, stake, target_price, range_low, range_high, comment, intervals, analysis_start_time, analysis_end_time, reason_rule, reason_timeframe, reason_pattern, reason_params, reason_signature, reason_leaf_values, reason_direction, reason_horizon_bars, reason_t_close_ms, reason_target_close_ms, reason_base_close, reason_pattern_holds, timestamp) SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?${gated ? ' WHERE changes() = 1' : ''}`
+    ).bind(
+      round.round_id,
+      agentId,
+      round.symbol,
+      direction,
+      Math.round(confidence),
+      probabilities?.UP ?? null,
+      probabilities?.DOWN ?? null,
+      probabilities?.FLAT ?? null,
+      stake,
+      level?.kind === 'target' ? level.target_price : null,
+      level?.kind === 'range' ? level.low : null,
+      level?.kind === 'range' ? level.high : null,
+      comment,
+      JSON.stringify(intervals),
+      analysis_start_time,
+      analysis_end_time,
+      JSON.stringify(reason_rule),
+      reason_rule.timeframe,
+      reason_rule.pattern,
+      reason_rule.indicator ? JSON.stringify(reason_rule.indicator) : null,
+      reason_rule.condition ? conditionSignature(reason_rule.condition) : null,
+      reasonEval.leaf_values ? JSON.stringify(reasonEval.leaf_values) : null,
+      reason_rule.direction,
+      reason_rule.horizon_bars,
+      reasonEval.t_close_ms,
+      reasonEval.target_close_ms,
+      reasonEval.base_close,
+      reasonEval.pattern_holds ? 1 : 0,
+      timestamp
+    ),
+    env.DB.prepare(
+      'DELETE FROM judgments WHERE round_id = ? AND agent_id = ? AND id < (SELECT MAX(id) FROM judgments WHERE round_id = ? AND agent_id = ?)'
+    ).bind(round.round_id, agentId, round.round_id, agentId),
+  ]);
+  const inserted = results[(escrow ? 1 : 0) + (claim ? 1 : 0)];
+  if (gated && !inserted?.meta?.changes) {
+    if (escrow && !results[0]?.meta?.changes) {
+      throw new Error('Insufficient bankroll');
+    }
+    throw new Error('Commitment already revealed');
+  }
+  await trimTable(env, 'judgments', config.judgmentLimit);
+
+  return {
+    t_close_ms: reasonEval.t_close_ms,
+    target_close_ms: reasonEval.target_close_ms,
+    pattern_holds: reasonEval.pattern_holds,
+    ...(reasonEval.leaf_values ? { leaf_values: reasonEval.leaf_values } : {}),
+  };
+}
+
+export async function submitJudgment(
+  env: Env,
+  agentId: string,
+  args: Record<string, unknown> | null
+) {
+  const payload = validateJudgmentPayload(args);
+  const round = await loadRound(env, payload.round_id, payload.track_id);
+  if (isCommitReveal(round)) {
+    throw new Error('Round uses commit-reveal; submit a commitment instead');
+  }
+  const config = getRuntimeConfig(env);
+  assertBettingOpen(env, config, round);
+  assertStakeForMode(config, round, payload);
+
+  const reason = await insertJudgment(
+    env,
+    config,
+    round,
+    agentId,
+    payload,
+    new Date().toISOString()
+  );
+  return { ok: true, reason };
+}
+
+export async function commitJudgment(
+  env: Env,
+  agentId: string,
+  args: Record<string, unknown> | null
+) {
+  const payload = validateCommitPayload(args);
+  const round = await loadRound(env, payload.round_id, payload.track_id);
+  if (!isCommitReveal(round)) {
+    throw new Error('Round does not use commit-reveal');
+  }
+  const config = getRuntimeConfig(env);
+  assertBettingOpen(env, config, round);
+  assertStakeForMode(config, round, payload);
+
+  // Pool stakes are escrowed with the commitment, so a withheld reveal still forfeits them.
+  const now = new Date().toISOString();
+  const { stake } = payload;
+  const escrow = isPool(round) && stake !== null;
+  const results = await env.DB.batch([
+    ...(escrow ? [escrowStake(env, config, round, agentId, stake, 'judgment_commits')] : []),
+    env.DB.prepare(
+      `INSERT INTO judgment_commits (round_id, agent_id, commit_hash, stake, status, committed_at) SELECT ?, ?, ?, ?, 'committed', ? WHERE ${escrow ? 'changes() = 1' : 'true'} ON CONFLICT(round_id, agent_id) DO UPDATE SET commit_hash = excluded.commit_hash, stake = excluded.stake, committed_at = excluded.committed_at`
+    ).bind(round.round_id, agentId, payload.commit_hash, stake, now),
+  ]);
+  if (escrow && !results[1]?.meta?.changes) {
+    throw new Error('Insufficient bankroll');
+  }
+  await trimTable(env, 'judgment_commits', config.judgmentLimit);
+
+  return {
+    ok: true,
+    round_id: round.round_id,
+    commit_hash: payload.commit_hash,
+    stake,
+    committed_at: now,
+    reveal_from: new Date(createRoundService(env, config).getLockTimeMs(round)).toISOString(),
+    reveal_until: round.end_time,
+  };
+}
+
+export async function revealJudgment(
+  env: Env,
+  agentId: string,
+  args: Record<string, unknown> | null
+) {
+  const payload = validateRevealPayload(args);
+  const round = await loadRound(env, payload.round_id, payload.track_id);
+  if (!isCommitReveal(round)) {
+    throw new Error('Round does not use commit-reveal');
+  }
+  const config = getRuntimeConfig(env);
+  const roundService = createRoundService(env, config);
+  // Settlement may lag end_time; reveals stop at end_time regardless, as advertised on commit.
+  if (
+    (round.status !== 'betting' && round.status !== 'locked') ||
+    Date.now() > Date.parse(round.end_time)
+  ) {
+    throw new Error('Reveal window closed');
+  }
+  if (Date.now() < roundService.getLockTimeMs(round)) {
+    throw new Error('Reveal opens at lock_time');
+  }
+
+  const commit = await env.DB.prepare(
+    'SELECT * FROM judgment_commits WHERE round_id = ? AND agent_id = ?'
+  )
+    .bind(round.round_id, agentId)
+    .first<JudgmentCommit>();
+  if (!commit) {
+    throw new Error('No commitment for this round');
+  }
+  if (commit.status !== 'committed') {
+    throw new Error(`Commitment already ${commit.status}`);
+  }
+  if (Date.parse(payload.analysis_end_time) > Date.parse(commit.committed_at)) {
+    throw new Error('analysis_end_time must not be after the commitment');
+  }
+  assertStakeForMode(config, round, payload);
+  // The escrowed stake is the committed one; the hash alone would let a reveal raise it.
+  if (isPool(round) && commit.stake !== null && commit.stake !== undefined) {
+    if (payload.stake !== commit.stake) {
+      throw new Error('stake must match the committed stake');
+    }
+  }
+
+  const hash = await computeCommitHash(
+    round.round_id,
+    payload.direction,
+    payload.confidence,
+    payload.salt,
+    payload.probabilities,
+    payload.stake,
+    payload.level
+  );
+  const now = new Date().toISOString();
+  if (hash !== commit.commit_hash) {
+    await env.DB.prepare(
+      "UPDATE judgment_commits SET status = 'mismatched', revealed_at = ? WHERE round_id = ? AND agent_id = ? AND status = 'committed'"
+    )
+      .bind(now, round.round_id, agentId)
+      .run();
+    throw new Error('Commitment mismatch; judgment forfeited');
+  }
+
+  // Judgments count from the moment they were committed, not revealed. Commitments made before
+  // stakes were escrowed at commit time still pay theirs now.
+  const reason = await insertJudgment(env, config, round, agentId, payload, commit.committed_at, {
+    revealedAt: now,
+    stakeEscrowed: commit.stake !== null && commit.stake !== undefined,
+  });
+
+  return { ok: true, round_id: round.round_id, revealed_at: now, reason };
+}
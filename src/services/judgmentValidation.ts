@@ -1,13 +1,26 @@
 import { SUPPORTED_INTERVALS } from './klineService';
 import type { ReasonRule } from '../types';
 import { normalizeReasonRule } from './reasonRuleService';
+import {
+  mostLikelyOutcome,
+  normalizeProbabilities,
+  type ForecastDistribution,
+} from './forecastScoring';
+import { normalizeLevelForecast, type LevelForecast } from './levelForecastService';
 
 const VALID_INTERVALS = new Set(SUPPORTED_INTERVALS.map((interval) => interval.toLowerCase()));
 
+// Confidence is stored as an integer, so an explicit value may round the probability either way.
+const CONFIDENCE_TOLERANCE = 1;
+
 export type NormalizedJudgmentPayload = {
   round_id: string;
+  track_id: string | null;
   direction: 'UP' | 'DOWN' | 'FLAT';
   confidence: number;
+  probabilities: ForecastDistribution | null;
+  stake: number | null;
+  level: LevelForecast | null;
   comment: string;
   intervals: string[];
   analysis_start_time: string;
@@ -15,6 +28,17 @@ export type NormalizedJudgmentPayload = {
   reason_rule: ReasonRule;
 };
 
+export type NormalizedCommitPayload = {
+  round_id: string;
+  track_id: string | null;
+  commit_hash: string;
+  stake: number | null;
+};
+
+export type NormalizedRevealPayload = NormalizedJudgmentPayload & {
+  salt: string;
+};
+
 function parseNumber(value: unknown): number | null {
   if (typeof value === 'number' && Number.isFinite(value)) return value;
   if (typeof value === 'string' && value.trim() !== '') {
@@ -86,18 +110,55 @@ export function normalizeTimeRange(start: unknown, end: unknown): {
   };
 }
 
+// Pool rounds only; whether a stake is required is decided against the round.
+function parseStake(payload: Record<string, unknown> | null): number | null {
+  if (payload?.stake === undefined || payload?.stake === null) return null;
+  const stake = parseNumber(payload.stake);
+  if (stake === null || !Number.isInteger(stake) || stake <= 0) {
+    throw new Error('stake must be a positive integer');
+  }
+  return stake;
+}
+
+function parseRoundRef(payload: Record<string, unknown> | null) {
+  const roundId = typeof payload?.round_id === 'string' ? payload.round_id.trim() : '';
+  const trackId =
+    typeof payload?.track_id === 'string' && payload.track_id.trim()
+      ? payload.track_id.trim().toLowerCase()
+      : null;
+  if (!roundId) {
+    throw new Error('Missing round_id');
+  }
+  return { roundId, trackId };
+}
+
 export function validateJudgmentPayload(
   payload: Record<string, unknown> | null
 ): NormalizedJudgmentPayload {
-  const roundId = typeof payload?.round_id === 'string' ? payload.round_id.trim() : '';
+  const { roundId, trackId } = parseRoundRef(payload);
+  const probabilities =
+    payload?.probabilities === undefined || payload?.probabilities === null
+      ? null
+      : normalizeProbabilities(payload.probabilities);
   const directionRaw = typeof payload?.direction === 'string' ? payload.direction : '';
-  const direction = directionRaw.toUpperCase();
-  const confidence = parseNumber(payload?.confidence);
+  let direction = directionRaw.toUpperCase();
+  let confidence = parseNumber(payload?.confidence);
+  // A distribution implies the legacy fields: direction = most likely outcome,
+  // confidence = its probability. Explicit values must agree with it.
+  if (probabilities) {
+    const likely = mostLikelyOutcome(probabilities);
+    if (direction && direction !== likely) {
+      throw new Error('direction must match the most likely outcome in probabilities');
+    }
+    direction = likely;
+    const implied = probabilities[likely] * 100;
+    if (confidence !== null && Math.abs(confidence - implied) > CONFIDENCE_TOLERANCE) {
+      throw new Error('confidence must match the probability of the most likely outcome');
+    }
+    confidence ??= implied;
+  }
   const comment = typeof payload?.comment === 'string' ? payload.comment.trim() : '';
 
-  if (!roundId) {
-    throw new Error('Missing round_id');
-  }
   if (!['UP', 'DOWN', 'FLAT'].includes(direction)) {
     throw new Error('Invalid direction');
   }
@@ -107,6 +168,8 @@ export function validateJudgmentPayload(
   if (!comment || comment.length > 140) {
     throw new Error('Invalid comment');
   }
+  const stake = parseStake(payload);
+  const level = normalizeLevelForecast(payload);
 
   const intervals = normalizeIntervals(payload?.intervals);
   const timeRange = normalizeTimeRange(
@@ -120,8 +183,12 @@ export function validateJudgmentPayload(
 
   return {
     round_id: roundId,
+    track_id: trackId,
     direction: direction as 'UP' | 'DOWN' | 'FLAT',
     confidence: Math.round(confidence),
+    probabilities,
+    stake,
+    level,
     comment,
     intervals,
     analysis_start_time: timeRange.startIso,
@@ -129,3 +196,31 @@ export function validateJudgmentPayload(
     reason_rule: reasonRule,
   };
 }
+
+export function validateCommitPayload(
+  payload: Record<string, unknown> | null
+): NormalizedCommitPayload {
+  const { roundId, trackId } = parseRoundRef(payload);
+  const commitHash =
+    typeof payload?.commit_hash === 'string' ? payload.commit_hash.trim().toLowerCase() : '';
+  if (!/^[0-9a-f]{64}$/.test(commitHash)) {
+    throw new Error('commit_hash must be a 64-char hex sha256');
+  }
+  return {
+    round_id: roundId,
+    track_id: trackId,
+    commit_hash: commitHash,
+    stake: parseStake(payload),
+  };
+}
+
+export function validateRevealPayload(
+  payload: Record<string, unknown> | null
+): NormalizedRevealPayload {
+  const judgment = validateJudgmentPayload(payload);
+  const salt = typeof payload?.salt === 'string' ? payload.salt : '';
+  if (salt.length < 8 || salt.length > 128) {
+    throw new Error('salt must be 8-128 characters');
+  }
+  return { ...judgment, salt };
+}
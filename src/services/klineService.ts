@@ -1,3 +1,4 @@
+import { parseAssets } from '../config';
 import type { Env, Kline, KlinesResponse } from '../types';
 
 const DEFAULT_INFO_URL = 'https://api.hyperliquid.xyz/info';
@@ -22,6 +23,7 @@ const VALID_INTERVALS = new Set(SUPPORTED_INTERVALS);
 
 export type KlineConfig = {
   infoUrl: string;
+  assets: string[];
   defaultIntervals: string[];
   defaultLimit: number;
   maxLimit: number;
@@ -136,7 +138,7 @@ function normalizeCoin(raw: string | null | undefined): string | null {
   return cleaned ? cleaned.toUpperCase() : null;
 }
 
-function coinFromSymbol(symbol: string | null | undefined): string | null {
+export function coinFromSymbol(symbol: string | null | undefined): string | null {
   if (!symbol) return null;
   const upper = symbol.toUpperCase();
   if (upper.endsWith('USDT')) return upper.slice(0, -4);
@@ -159,6 +161,7 @@ export function getKlineConfig(env: Env): KlineConfig {
 
   return {
     infoUrl,
+    assets: parseAssets(env),
     defaultIntervals: defaultIntervals.length > 0 ? defaultIntervals : DEFAULT_INTERVALS,
     defaultLimit: Number.isFinite(defaultLimit) ? defaultLimit : DEFAULT_LIMIT,
     maxLimit: Number.isFinite(maxLimit) ? maxLimit : DEFAULT_MAX_LIMIT,
@@ -172,10 +175,16 @@ function normalizeSymbol(input: unknown): string | null {
   return symbol ? symbol.toUpperCase() : null;
 }
 
-function buildFallbackSymbol(coin: string): string {
+export function symbolForCoin(coin: string): string {
   return `${coin}USDT`;
 }
 
+function assertSupportedCoin(config: KlineConfig, coin: string) {
+  if (!config.assets.includes(coin)) {
+    throw new Error(`Unsupported coin: ${coin}`);
+  }
+}
+
 async function fetchHyperliquidCandles(
   infoUrl: string,
   coin: string,
@@ -249,9 +258,7 @@ export async function fetchKlines(
   if (!coin) {
     throw new Error('Missing coin');
   }
-  if (coin !== 'BTC') {
-    throw new Error('Only BTC is supported right now');
-  }
+  assertSupportedCoin(config, coin);
 
   const interval = String(options.interval).trim().toLowerCase();
   if (!VALID_INTERVALS.has(interval)) {
@@ -281,6 +288,23 @@ export async function fetchKlines(
   return normalizeKlines(candles, intervalMs);
 }
 
+export async function fetchCandleAt(
+  env: Env,
+  options: { coin: string; interval: string; closeTimeMs: number }
+): Promise<Kline | null> {
+  const intervalMs = intervalToMs(options.interval);
+  const limit = 50;
+  const klines = await fetchKlines(env, {
+    coin: options.coin,
+    interval: options.interval,
+    startTime: options.closeTimeMs - intervalMs * limit,
+    endTime: options.closeTimeMs,
+    limit,
+  });
+
+  return klines.find((kline) => kline.close_time === options.closeTimeMs) ?? null;
+}
+
 export async function buildKlinesResponse(
   env: Env,
   options: KlineServiceOptions
@@ -292,27 +316,21 @@ export async function buildKlinesResponse(
 
   const providedCoin = normalizeCoin(options.coin ? String(options.coin) : null);
   const providedSymbol = normalizeSymbol(options.symbol);
-  const fallbackCoin = normalizeCoin(options.fallbackCoin || env.HL_COIN || null);
+  const fallbackCoin = normalizeCoin(options.fallbackCoin || config.assets[0]);
   const fallbackSymbol = normalizeSymbol(options.fallbackSymbol);
 
-  let coin =
+  const coin =
     providedCoin ||
     coinFromSymbol(providedSymbol) ||
     coinFromSymbol(fallbackSymbol) ||
     fallbackCoin ||
-    'BTC';
+    config.assets[0];
+  assertSupportedCoin(config, coin);
 
-  let symbol = providedSymbol || fallbackSymbol || buildFallbackSymbol(coin);
-
-  if (!coin) {
-    coin = 'BTC';
-  }
-  if (coin !== 'BTC') {
-    throw new Error('Only BTC is supported right now');
-  }
-  if (!symbol) {
-    symbol = buildFallbackSymbol(coin);
-  }
+  const symbol =
+    providedSymbol ||
+    (providedCoin ? symbolForCoin(coin) : fallbackSymbol) ||
+    symbolForCoin(coin);
 
   const data: Record<string, Kline[]> = {};
   const errors: Record<string, string> = {};
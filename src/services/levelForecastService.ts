@@ -0,0 +1,184 @@
+import type { Env, Judgment } from '../types';
+import { numberOrZero } from './reasonStatsService';
+
+export const LEVEL_KINDS = ['target', 'range'] as const;
+
+export type LevelKind = (typeof LEVEL_KINDS)[number];
+
+export type LevelForecast =
+  | { kind: 'target'; target_price: number }
+  | { kind: 'range'; low: number; high: number };
+
+export type LevelScore = {
+  target_error_pct: number | null;
+  range_hit: boolean | null;
+};
+
+export type LevelLeaderboardEntry = {
+  agent_id: string;
+  name: string;
+  forecasts: number;
+  // target: mean absolute percentage error (lower is better); range: null
+  mean_error_pct: number | null;
+  best_error_pct: number | null;
+  // range: share of closes inside the range and the mean width as % of the close; target: null
+  hits: number | null;
+  hit_rate: number | null;
+  avg_width_pct: number | null;
+};
+
+const DEFAULT_LEADERBOARD_LIMIT = 100;
+const MAX_LEADERBOARD_LIMIT = 500;
+
+function parsePrice(value: unknown, field: string): number {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${field} must be a positive number`);
+  }
+  return parsed;
+}
+
+const round4 = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Optional level forecast on a judgment: either `target_price` or `price_range: { low, high }`,
+ * never both. Returns null when neither is present.
+ */
+export function normalizeLevelForecast(
+  payload: Record<string, unknown> | null
+): LevelForecast | null {
+  const hasTarget = payload?.target_price !== undefined && payload?.target_price !== null;
+  const hasRange = payload?.price_range !== undefined && payload?.price_range !== null;
+  if (hasTarget && hasRange) {
+    throw new Error('Provide target_price or price_range, not both');
+  }
+  if (hasTarget) {
+    return { kind: 'target', target_price: parsePrice(payload?.target_price, 'target_price') };
+  }
+  if (!hasRange) return null;
+
+  const range = payload?.price_range;
+  if (typeof range !== 'object' || Array.isArray(range)) {
+    throw new Error('price_range must be an object of low/high');
+  }
+  const { low, high } = range as Record<string, unknown>;
+  const lowPrice = parsePrice(low, 'price_range.low');
+  const highPrice = parsePrice(high, 'price_range.high');
+  if (lowPrice >= highPrice) {
+    throw new Error('price_range.low must be below price_range.high');
+  }
+  return { kind: 'range', low: lowPrice, high: highPrice };
+}
+
+export function levelForecastOf(judgment: Judgment): LevelForecast | null {
+  if (judgment.target_price != null) {
+    return { kind: 'target', target_price: judgment.target_price };
+  }
+  if (judgment.range_low != null && judgment.range_high != null) {
+    return { kind: 'range', low: judgment.range_low, high: judgment.range_high };
+  }
+  return null;
+}
+
+// Score written at settlement, if any.
+export function storedLevelScore(judgment: Judgment): LevelScore | null {
+  if (judgment.target_error_pct == null && judgment.range_hit == null) return null;
+  return {
+    target_error_pct: judgment.target_error_pct ?? null,
+    range_hit: judgment.range_hit == null ? null : Boolean(judgment.range_hit),
+  };
+}
+
+// Targets score by absolute percentage error against the settlement close; ranges by whether the
+// close landed inside them (bounds inclusive).
+export function scoreLevelForecast(forecast: LevelForecast, endPrice: number): LevelScore {
+  if (forecast.kind === 'target') {
+    return {
+      target_error_pct: round4((Math.abs(endPrice - forecast.target_price) / endPrice) * 100),
+      range_hit: null,
+    };
+  }
+  return {
+    target_error_pct: null,
+    range_hit: endPrice >= forecast.low && endPrice <= forecast.high,
+  };
+}
+
+// Range width as a percentage of the settlement close; null for targets.
+export function levelWidthPct(forecast: LevelForecast, endPrice: number): number | null {
+  return forecast.kind === 'range' ? ((forecast.high - forecast.low) * 100) / endPrice : null;
+}
+
+export function describeLevelForecast(forecast: LevelForecast, score: LevelScore): string {
+  if (forecast.kind === 'target') {
+    return `目标价：${forecast.target_price}（偏差 ${score.target_error_pct?.toFixed(2)}%）`;
+  }
+  return `区间：${forecast.low}–${forecast.high}（${score.range_hit ? '命中' : '未中'}）`;
+}
+
+export function isLevelKind(value: unknown): value is LevelKind {
+  return typeof value === 'string' && (LEVEL_KINDS as readonly string[]).includes(value);
+}
+
+type LevelStandingRow = {
+  agent_id: string;
+  name: string;
+  forecasts: number | string;
+  mean_error_pct: number | string | null;
+  best_error_pct: number | string | null;
+  hits: number | string | null;
+  hit_rate: number | string | null;
+  avg_width_pct: number | string | null;
+};
+
+/**
+ * Level-forecast leaderboard over settled rounds, optionally for one track, read from the
+ * level_standings totals kept at settlement. Targets rank by mean absolute percentage error,
+ * ranges by hit rate and then by the narrower average range. Voided rounds are backed out.
+ */
+export async function getLevelLeaderboard(
+  env: Env,
+  options: { kind: LevelKind; trackId?: string | null; limit?: number }
+): Promise<LevelLeaderboardEntry[]> {
+  const limit = Math.min(
+    Math.max(1, Math.floor(options.limit ?? DEFAULT_LEADERBOARD_LIMIT)),
+    MAX_LEADERBOARD_LIMIT
+  );
+  const trackId = options.trackId ?? null;
+  const order =
+    options.kind === 'target'
+      ? 'mean_error_pct ASC, forecasts DESC'
+      : 'hit_rate DESC, avg_width_pct ASC, forecasts DESC';
+  const sql = `SELECT s.agent_id AS agent_id,
+                COALESCE(a.name, s.agent_id) AS name,
+                SUM(s.forecasts) AS forecasts,
+                SUM(s.error_sum) / SUM(s.forecasts) AS mean_error_pct,
+                MIN(s.best_error_pct) AS best_error_pct,
+                SUM(s.hits) AS hits,
+                SUM(s.hits) * 1.0 / SUM(s.forecasts) AS hit_rate,
+                SUM(s.width_sum) / SUM(s.forecasts) AS avg_width_pct
+         FROM level_standings s
+         LEFT JOIN agents a ON a.id = s.agent_id
+         WHERE s.kind = ? AND (? IS NULL OR s.track_id = ?)
+         GROUP BY s.agent_id
+         HAVING SUM(s.forecasts) > 0
+         ORDER BY ${order}
+         LIMIT ?`;
+  const result = await env.DB.prepare(sql)
+    .bind(options.kind, trackId, trackId, limit)
+    .all<LevelStandingRow>();
+
+  return (result.results ?? []).map((row) => {
+    const isTarget = options.kind === 'target';
+    return {
+      agent_id: row.agent_id,
+      name: row.name,
+      forecasts: numberOrZero(row.forecasts),
+      mean_error_pct: isTarget ? round4(numberOrZero(row.mean_error_pct)) : null,
+      best_error_pct: isTarget ? round4(numberOrZero(row.best_error_pct)) : null,
+      hits: isTarget ? null : numberOrZero(row.hits),
+      hit_rate: isTarget ? null : round4(numberOrZero(row.hit_rate)),
+      avg_width_pct: isTarget ? null : round4(numberOrZero(row.avg_width_pct)),
+    };
+  });
+}
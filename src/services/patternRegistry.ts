@@ -0,0 +1,979 @@
+import type { Kline } from '../types';
+import { intervalToMs } from './klineService';
+
+export const PATTERN_FAMILIES = [
+  'candle',
+  'indicator',
+  'breakout',
+  'structure',
+  'volatility',
+  'volume',
+] as const;
+
+export type PatternFamily = (typeof PATTERN_FAMILIES)[number];
+
+// Direction a pattern implies; neutral patterns (indecision, volatility) imply none.
+export type PatternBias = 'bullish' | 'bearish' | 'neutral';
+
+export type PatternCatalogEntry = {
+  id: string;
+  family: PatternFamily;
+  bias: PatternBias;
+  // Closed candles the pattern reads, ending with the candle at `t`; for patterns with
+  // `min_timeframe`, the count on that (longest-window) timeframe.
+  required_bars: number;
+  // Shortest timeframe the pattern accepts, for patterns whose window spans wall-clock time.
+  min_timeframe?: string;
+  description: string;
+  // Formal condition, evaluated on the last `required_bars` closed candles. C is the candle at
+  // `t`, P the one before and P2 the one before that.
+  definition: string;
+};
+
+export type PatternDefinition = PatternCatalogEntry & {
+  // Candles read on a timeframe of `intervalMs`, when that depends on the timeframe.
+  requiredBarsAt?: (intervalMs: number) => number;
+  evaluate: (bars: Ohlc[]) => boolean;
+};
+
+const PIVOT_SPAN = 2;
+
+export type Ohlc = {
+  open_time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+function body(bar: Ohlc): number {
+  return Math.abs(bar.close - bar.open);
+}
+
+function range(bar: Ohlc): number {
+  return bar.high - bar.low;
+}
+
+function upper(bar: Ohlc): number {
+  return bar.high - Math.max(bar.open, bar.close);
+}
+
+function lower(bar: Ohlc): number {
+  return Math.min(bar.open, bar.close) - bar.low;
+}
+
+function clampSlice(bars: Ohlc[], count: number): Ohlc[] {
+  return count >= bars.length ? bars : bars.slice(bars.length - count);
+}
+
+function atRel(bars: Ohlc[], rel: number): Ohlc | null {
+  const idx = bars.length - 1 + rel;
+  if (idx < 0 || idx >= bars.length) return null;
+  return bars[idx];
+}
+
+function isBetween(value: number, a: number, b: number): boolean {
+  const min = Math.min(a, b);
+  const max = Math.max(a, b);
+  return value >= min && value <= max;
+}
+
+export function computeEma(closes: number[], period: number): number[] {
+  const out = new Array<number>(closes.length).fill(Number.NaN);
+  if (closes.length < period) return out;
+
+  let sum = 0;
+  for (let i = 0; i < period; i += 1) sum += closes[i];
+  let emaPrev = sum / period;
+  out[period - 1] = emaPrev;
+
+  const alpha = 2 / (period + 1);
+  for (let i = period; i < closes.length; i += 1) {
+    emaPrev = alpha * closes[i] + (1 - alpha) * emaPrev;
+    out[i] = emaPrev;
+  }
+  return out;
+}
+
+export function computeRsi(closes: number[], period: number): number[] {
+  const out = new Array<number>(closes.length).fill(Number.NaN);
+  if (closes.length <= period) return out;
+
+  let gainSum = 0;
+  let lossSum = 0;
+  for (let i = 1; i <= period; i += 1) {
+    const delta = closes[i] - closes[i - 1];
+    if (delta >= 0) gainSum += delta;
+    else lossSum -= delta;
+  }
+
+  let avgGain = gainSum / period;
+  let avgLoss = lossSum / period;
+
+  const toRsi = (g: number, l: number) => {
+    if (l === 0) return 100;
+    if (g === 0) return 0;
+    const rs = g / l;
+    return 100 - 100 / (1 + rs);
+  };
+
+  out[period] = toRsi(avgGain, avgLoss);
+  for (let i = period + 1; i < closes.length; i += 1) {
+    const delta = closes[i] - closes[i - 1];
+    const gain = delta > 0 ? delta : 0;
+    const loss = delta < 0 ? -delta : 0;
+    avgGain = (avgGain * (period - 1) + gain) / period;
+    avgLoss = (avgLoss * (period - 1) + loss) / period;
+    out[i] = toRsi(avgGain, avgLoss);
+  }
+
+  return out;
+}
+
+type Pivot = { idx: number; price: number };
+
+function findPivots(
+  bars: Ohlc[],
+  lookbackBars: number
+): { highs: Pivot[]; lows: Pivot[] } {
+  const highs: Pivot[] = [];
+  const lows: Pivot[] = [];
+  const startIdx = Math.max(PIVOT_SPAN, bars.length - lookbackBars);
+  const endExclusive = bars.length - PIVOT_SPAN;
+
+  for (let i = startIdx; i < endExclusive; i += 1) {
+    const currentHigh = bars[i].high;
+    const currentLow = bars[i].low;
+
+    let isHigh = true;
+    let isLow = true;
+    for (let offset = 1; offset <= PIVOT_SPAN; offset += 1) {
+      if (currentHigh <= bars[i - offset].high || currentHigh <= bars[i + offset].high) {
+        isHigh = false;
+      }
+      if (currentLow >= bars[i - offset].low || currentLow >= bars[i + offset].low) {
+        isLow = false;
+      }
+    }
+
+    if (isHigh) highs.push({ idx: i, price: currentHigh });
+    if (isLow) lows.push({ idx: i, price: currentLow });
+  }
+
+  return { highs, lows };
+}
+
+function evaluateStructureDoubleTop(bars: Ohlc[], lookback: number): boolean {
+  const { highs } = findPivots(bars, lookback);
+  if (highs.length < 2) return false;
+
+  const p2 = highs[highs.length - 1];
+  let p1: Pivot | null = null;
+  for (let i = highs.length - 2; i >= 0; i -= 1) {
+    if (p2.idx - highs[i].idx >= 5) {
+      p1 = highs[i];
+      break;
+    }
+  }
+  if (!p1) return false;
+
+  const avg = (p1.price + p2.price) / 2;
+  if (avg <= 0) return false;
+  if (Math.abs(p2.price - p1.price) / avg > 0.01) return false;
+
+  if (p2.idx - p1.idx < 2) return false;
+  let neckline = Number.POSITIVE_INFINITY;
+  for (let i = p1.idx + 1; i < p2.idx; i += 1) {
+    neckline = Math.min(neckline, bars[i].low);
+  }
+  if (!Number.isFinite(neckline)) return false;
+  const currentClose = bars[bars.length - 1].close;
+  return currentClose < neckline;
+}
+
+function evaluateStructureDoubleBottom(bars: Ohlc[], lookback: number): boolean {
+  const { lows } = findPivots(bars, lookback);
+  if (lows.length < 2) return false;
+
+  const p2 = lows[lows.length - 1];
+  let p1: Pivot | null = null;
+  for (let i = lows.length - 2; i >= 0; i -= 1) {
+    if (p2.idx - lows[i].idx >= 5) {
+      p1 = lows[i];
+      break;
+    }
+  }
+  if (!p1) return false;
+
+  const avg = (p1.price + p2.price) / 2;
+  if (avg <= 0) return false;
+  if (Math.abs(p2.price - p1.price) / avg > 0.01) return false;
+
+  if (p2.idx - p1.idx < 2) return false;
+  let neckline = Number.NEGATIVE_INFINITY;
+  for (let i = p1.idx + 1; i < p2.idx; i += 1) {
+    neckline = Math.max(neckline, bars[i].high);
+  }
+  if (!Number.isFinite(neckline)) return false;
+  const currentClose = bars[bars.length - 1].close;
+  return currentClose > neckline;
+}
+
+function evaluateStructureHeadAndShoulders(bars: Ohlc[], lookback: number): boolean {
+  const { highs, lows } = findPivots(bars, lookback);
+  if (highs.length < 3) return false;
+
+  const currentClose = bars[bars.length - 1].close;
+
+  const findMostRecentLowBetween = (startIdx: number, endIdx: number): Pivot | null => {
+    for (let i = lows.length - 1; i >= 0; i -= 1) {
+      const pivot = lows[i];
+      if (pivot.idx > startIdx && pivot.idx < endIdx) return pivot;
+    }
+    return null;
+  };
+
+  // Pick the most-recent valid pattern (RS as late as possible) within the pivot set.
+  for (let rsPos = highs.length - 1; rsPos >= 2; rsPos -= 1) {
+    const rs = highs[rsPos];
+    for (let headPos = rsPos - 1; headPos >= 1; headPos -= 1) {
+      const head = highs[headPos];
+      if (head.idx >= rs.idx) continue;
+      for (let lsPos = headPos - 1; lsPos >= 0; lsPos -= 1) {
+        const ls = highs[lsPos];
+        if (ls.idx >= head.idx) continue;
+
+        const shoulderAvg = (ls.price + rs.price) / 2;
+        if (shoulderAvg <= 0) continue;
+        if (Math.abs(ls.price - rs.price) / shoulderAvg > 0.01) continue;
+        if (head.price < Math.max(ls.price, rs.price) * 1.01) continue;
+
+        const trough1 = findMostRecentLowBetween(ls.idx, head.idx);
+        const trough2 = findMostRecentLowBetween(head.idx, rs.idx);
+        if (!trough1 || !trough2) continue;
+
+        const neckline = (trough1.price + trough2.price) / 2;
+        if (currentClose < neckline) return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+function evaluateStructureInverseHeadAndShoulders(bars: Ohlc[], lookback: number): boolean {
+  const { highs, lows } = findPivots(bars, lookback);
+  if (lows.length < 3) return false;
+
+  const currentClose = bars[bars.length - 1].close;
+
+  const findMostRecentHighBetween = (startIdx: number, endIdx: number): Pivot | null => {
+    for (let i = highs.length - 1; i >= 0; i -= 1) {
+      const pivot = highs[i];
+      if (pivot.idx > startIdx && pivot.idx < endIdx) return pivot;
+    }
+    return null;
+  };
+
+  for (let rsPos = lows.length - 1; rsPos >= 2; rsPos -= 1) {
+    const rs = lows[rsPos];
+    for (let headPos = rsPos - 1; headPos >= 1; headPos -= 1) {
+      const head = lows[headPos];
+      if (head.idx >= rs.idx) continue;
+      for (let lsPos = headPos - 1; lsPos >= 0; lsPos -= 1) {
+        const ls = lows[lsPos];
+        if (ls.idx >= head.idx) continue;
+
+        const shoulderAvg = (ls.price + rs.price) / 2;
+        if (shoulderAvg <= 0) continue;
+        if (Math.abs(ls.price - rs.price) / shoulderAvg > 0.01) continue;
+        if (head.price > Math.min(ls.price, rs.price) * 0.99) continue;
+
+        const peak1 = findMostRecentHighBetween(ls.idx, head.idx);
+        const peak2 = findMostRecentHighBetween(head.idx, rs.idx);
+        if (!peak1 || !peak2) continue;
+
+        const neckline = (peak1.price + peak2.price) / 2;
+        if (currentClose > neckline) return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+function current(bars: Ohlc[]): Ohlc {
+  return bars[bars.length - 1];
+}
+
+function closes(bars: Ohlc[]): number[] {
+  return bars.map((bar) => bar.close);
+}
+
+function emaPair(bars: Ohlc[]) {
+  const values = closes(bars);
+  const ema20 = computeEma(values, 20);
+  const ema50 = computeEma(values, 50);
+  const last = values.length - 1;
+  return {
+    e20: ema20[last],
+    e50: ema50[last],
+    e20Prev: ema20[last - 1],
+    e50Prev: ema50[last - 1],
+  };
+}
+
+function lastRsi14(bars: Ohlc[]): number {
+  const rsi = computeRsi(closes(bars), 14);
+  return rsi[rsi.length - 1];
+}
+
+// MACD(12, 26, 9): EMA12 - EMA26 and its EMA9 signal line, at C and P.
+function macdPair(bars: Ohlc[]) {
+  const values = closes(bars);
+  const ema12 = computeEma(values, 12);
+  const ema26 = computeEma(values, 26);
+  const line = values.map((_value, i) => ema12[i] - ema26[i]);
+  const firstIdx = line.findIndex(Number.isFinite);
+  const signal =
+    firstIdx === -1
+      ? line.map(() => Number.NaN)
+      : [...line.slice(0, firstIdx), ...computeEma(line.slice(firstIdx), 9)];
+  const last = values.length - 1;
+  return {
+    macd: line[last],
+    signal: signal[last],
+    macdPrev: line[last - 1],
+    signalPrev: signal[last - 1],
+  };
+}
+
+function macdCrosses(bars: Ohlc[], side: 'up' | 'down'): boolean {
+  const { macd, signal, macdPrev, signalPrev } = macdPair(bars);
+  if (![macd, signal, macdPrev, signalPrev].every(Number.isFinite)) return false;
+  return side === 'up'
+    ? macdPrev <= signalPrev && macd > signal
+    : macdPrev >= signalPrev && macd < signal;
+}
+
+// Bollinger(20, 2) on the 20 closes ending `offset` candles before C; population stdev.
+function bollinger(bars: Ohlc[], offset = 0) {
+  const end = bars.length - offset;
+  if (end < 20) return null;
+  const window = closes(bars.slice(end - 20, end));
+  const middle = window.reduce((sum, value) => sum + value, 0) / 20;
+  const variance = window.reduce((sum, value) => sum + (value - middle) ** 2, 0) / 20;
+  const spread = 2 * Math.sqrt(variance);
+  return { middle, upper: middle + spread, lower: middle - spread };
+}
+
+function bandwidth(bars: Ohlc[], offset: number): number {
+  const bands = bollinger(bars, offset);
+  if (!bands || bands.middle <= 0) return Number.NaN;
+  return (bands.upper - bands.lower) / bands.middle;
+}
+
+// Bandwidth at C is the lowest of the last `lookback` candles.
+function bollingerSqueeze(bars: Ohlc[], lookback: number): boolean {
+  const widths = Array.from({ length: lookback }, (_value, offset) => bandwidth(bars, offset));
+  if (!widths.every(Number.isFinite)) return false;
+  return widths[0] <= Math.min(...widths.slice(1));
+}
+
+// ATR(14) with Wilder smoothing; true range needs the previous close, so ATR starts at index 14.
+function computeAtr14(bars: Ohlc[]): number[] {
+  const out = new Array<number>(bars.length).fill(Number.NaN);
+  if (bars.length <= 14) return out;
+  const tr = bars.map((bar, i) =>
+    i === 0
+      ? range(bar)
+      : Math.max(
+          range(bar),
+          Math.abs(bar.high - bars[i - 1].close),
+          Math.abs(bar.low - bars[i - 1].close)
+        )
+  );
+  let atr = tr.slice(1, 15).reduce((sum, value) => sum + value, 0) / 14;
+  out[14] = atr;
+  for (let i = 15; i < bars.length; i += 1) {
+    atr = (atr * 13 + tr[i]) / 14;
+    out[i] = atr;
+  }
+  return out;
+}
+
+function volumeSpike(bars: Ohlc[], lookback: number, multiple: number): boolean {
+  if (bars.length < lookback + 1) return false;
+  const previous = clampSlice(bars, lookback + 1).slice(0, -1);
+  const average = previous.reduce((sum, bar) => sum + bar.volume, 0) / lookback;
+  return average > 0 && current(bars).volume >= multiple * average;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// VWAP of the UTC day of C, from the session open through C. Null when the window does not
+// reach back to the session open or the session has no volume.
+function sessionVwap(bars: Ohlc[]): number | null {
+  const sessionStart = Math.floor(current(bars).open_time / DAY_MS) * DAY_MS;
+  if (bars[0].open_time > sessionStart) return null;
+  let notional = 0;
+  let volume = 0;
+  for (const bar of bars) {
+    if (bar.open_time < sessionStart) continue;
+    notional += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    volume += bar.volume;
+  }
+  return volume > 0 ? notional / volume : null;
+}
+
+function closeVersusVwap(bars: Ohlc[], side: 'above' | 'below'): boolean {
+  const vwap = sessionVwap(bars);
+  if (vwap === null) return false;
+  const close = current(bars).close;
+  return side === 'above' ? close > vwap : close < vwap;
+}
+
+// Close against the extreme of the `lookback` candles before C.
+function closeBreaks(bars: Ohlc[], lookback: number, side: 'high' | 'low'): boolean {
+  if (bars.length < lookback + 1) return false;
+  const previous = clampSlice(bars, lookback + 1).slice(0, -1);
+  const close = current(bars).close;
+  return side === 'high'
+    ? close > Math.max(...previous.map((bar) => bar.high))
+    : close < Math.min(...previous.map((bar) => bar.low));
+}
+
+function starShape(bars: Ohlc[], bullish: boolean): boolean {
+  const b2 = atRel(bars, -2);
+  const b1 = atRel(bars, -1);
+  const c = current(bars);
+  if (!b2 || !b1) return false;
+  const r2 = range(b2);
+  const r1 = range(b1);
+  if (r2 <= 0 || r1 <= 0) return false;
+  const midpoint = (b2.open + b2.close) / 2;
+  return bullish
+    ? b2.close < b2.open &&
+        body(b2) / r2 >= 0.5 &&
+        body(b1) / r1 <= 0.3 &&
+        c.close > c.open &&
+        c.close >= midpoint
+    : b2.close > b2.open &&
+        body(b2) / r2 >= 0.5 &&
+        body(b1) / r1 <= 0.3 &&
+        c.close < c.open &&
+        c.close <= midpoint;
+}
+
+function threeInARow(bars: Ohlc[], bullish: boolean): boolean {
+  const b2 = atRel(bars, -2);
+  const b1 = atRel(bars, -1);
+  const c = current(bars);
+  if (!b2 || !b1) return false;
+  const body2Low = Math.min(b2.open, b2.close);
+  const body2High = Math.max(b2.open, b2.close);
+  const body1Low = Math.min(b1.open, b1.close);
+  const body1High = Math.max(b1.open, b1.close);
+  const opensInside =
+    isBetween(b1.open, body2Low, body2High) && isBetween(c.open, body1Low, body1High);
+  return bullish
+    ? b2.close > b2.open &&
+        b1.close > b1.open &&
+        c.close > c.open &&
+        b1.close > b2.close &&
+        c.close > b1.close &&
+        opensInside
+    : b2.close < b2.open &&
+        b1.close < b1.open &&
+        c.close < c.open &&
+        b1.close < b2.close &&
+        c.close < b1.close &&
+        opensInside;
+}
+
+const PIVOT_DEFINITION =
+  `pivot high/low: a high (low) strictly above (below) the ${PIVOT_SPAN} candles on each side`;
+
+// A full UTC day of candles, so the session always fits in the window. 1m would need 1440 candles,
+// more than one kline request returns, so 3m is the shortest timeframe.
+const SESSION_VWAP_MIN_TIMEFRAME = '3m';
+
+function sessionVwapBars(intervalMs: number): number {
+  return Math.ceil(DAY_MS / intervalMs);
+}
+
+const SESSION_VWAP_DEFINITION =
+  'sum(typical * volume) / sum(volume) over the candles from the UTC-day open through C, ' +
+  'typical = (high + low + close) / 3; false if the window starts after the session open';
+
+/**
+ * Every reason-rule pattern. Validation, required bars, evaluation, `GET /api/patterns` and the
+ * catalog in docs/REASON_RULE_V1.md all read this list; ids are versioned and never change
+ * meaning, so a new behaviour gets a new id.
+ */
+export const PATTERN_REGISTRY: PatternDefinition[] = [
+  {
+    id: 'candle.bullish_engulfing.v1',
+    family: 'candle',
+    bias: 'bullish',
+    required_bars: 2,
+    description: 'A bullish candle whose body engulfs the previous bearish body.',
+    definition: 'P.close < P.open && C.close > C.open && C.open <= P.close && C.close >= P.open',
+    evaluate: (bars) => {
+      const prev = atRel(bars, -1);
+      const c = current(bars);
+      if (!prev) return false;
+      return (
+        prev.close < prev.open &&
+        c.close > c.open &&
+        c.open <= prev.close &&
+        c.close >= prev.open
+      );
+    },
+  },
+  {
+    id: 'candle.bearish_engulfing.v1',
+    family: 'candle',
+    bias: 'bearish',
+    required_bars: 2,
+    description: 'A bearish candle whose body engulfs the previous bullish body.',
+    definition: 'P.close > P.open && C.close < C.open && C.open >= P.close && C.close <= P.open',
+    evaluate: (bars) => {
+      const prev = atRel(bars, -1);
+      const c = current(bars);
+      if (!prev) return false;
+      return (
+        prev.close > prev.open &&
+        c.close < c.open &&
+        c.open >= prev.close &&
+        c.close <= prev.open
+      );
+    },
+  },
+  {
+    id: 'candle.hammer.v1',
+    family: 'candle',
+    bias: 'bullish',
+    required_bars: 1,
+    description: 'Small body near the high with a long lower wick.',
+    definition:
+      'range > 0 && body / range <= 0.3 && lower_wick >= 2 * body && upper_wick <= 0.25 * range',
+    evaluate: (bars) => {
+      const c = current(bars);
+      const r = range(c);
+      if (r <= 0) return false;
+      const b = body(c);
+      return b / r <= 0.3 && lower(c) >= 2 * b && upper(c) <= 0.25 * r;
+    },
+  },
+  {
+    id: 'candle.shooting_star.v1',
+    family: 'candle',
+    bias: 'bearish',
+    required_bars: 1,
+    description: 'Small body near the low with a long upper wick.',
+    definition:
+      'range > 0 && body / range <= 0.3 && upper_wick >= 2 * body && lower_wick <= 0.25 * range',
+    evaluate: (bars) => {
+      const c = current(bars);
+      const r = range(c);
+      if (r <= 0) return false;
+      const b = body(c);
+      return b / r <= 0.3 && upper(c) >= 2 * b && lower(c) <= 0.25 * r;
+    },
+  },
+  {
+    id: 'candle.doji.v1',
+    family: 'candle',
+    bias: 'neutral',
+    required_bars: 1,
+    description: 'Open and close almost equal: indecision.',
+    definition: 'range > 0 && body / range <= 0.1',
+    evaluate: (bars) => {
+      const c = current(bars);
+      const r = range(c);
+      if (r <= 0) return false;
+      return body(c) / r <= 0.1;
+    },
+  },
+  {
+    id: 'candle.inside_bar.v1',
+    family: 'candle',
+    bias: 'neutral',
+    required_bars: 2,
+    description: 'The candle trades inside the previous candle range.',
+    definition: 'C.high <= P.high && C.low >= P.low',
+    evaluate: (bars) => {
+      const prev = atRel(bars, -1);
+      const c = current(bars);
+      if (!prev) return false;
+      return c.high <= prev.high && c.low >= prev.low;
+    },
+  },
+  {
+    id: 'candle.outside_bar.v1',
+    family: 'candle',
+    bias: 'neutral',
+    required_bars: 2,
+    description: 'The candle range covers the previous candle range.',
+    definition: 'C.high >= P.high && C.low <= P.low',
+    evaluate: (bars) => {
+      const prev = atRel(bars, -1);
+      const c = current(bars);
+      if (!prev) return false;
+      return c.high >= prev.high && c.low <= prev.low;
+    },
+  },
+  {
+    id: 'candle.morning_star.v1',
+    family: 'candle',
+    bias: 'bullish',
+    required_bars: 3,
+    description: 'Strong bearish candle, small pause, then a bullish close past its midpoint.',
+    definition:
+      'P2.close < P2.open && body(P2) / range(P2) >= 0.5 && body(P) / range(P) <= 0.3 && ' +
+      'C.close > C.open && C.close >= (P2.open + P2.close) / 2',
+    evaluate: (bars) => starShape(bars, true),
+  },
+  {
+    id: 'candle.evening_star.v1',
+    family: 'candle',
+    bias: 'bearish',
+    required_bars: 3,
+    description: 'Strong bullish candle, small pause, then a bearish close past its midpoint.',
+    definition:
+      'P2.close > P2.open && body(P2) / range(P2) >= 0.5 && body(P) / range(P) <= 0.3 && ' +
+      'C.close < C.open && C.close <= (P2.open + P2.close) / 2',
+    evaluate: (bars) => starShape(bars, false),
+  },
+  {
+    id: 'candle.three_white_soldiers.v1',
+    family: 'candle',
+    bias: 'bullish',
+    required_bars: 3,
+    description: 'Three bullish candles with rising closes, each opening inside the prior body.',
+    definition:
+      'P2, P, C bullish && P.close > P2.close && C.close > P.close && ' +
+      'P.open in body(P2) && C.open in body(P)',
+    evaluate: (bars) => threeInARow(bars, true),
+  },
+  {
+    id: 'candle.three_black_crows.v1',
+    family: 'candle',
+    bias: 'bearish',
+    required_bars: 3,
+    description: 'Three bearish candles with falling closes, each opening inside the prior body.',
+    definition:
+      'P2, P, C bearish && P.close < P2.close && C.close < P.close && ' +
+      'P.open in body(P2) && C.open in body(P)',
+    evaluate: (bars) => threeInARow(bars, false),
+  },
+  {
+    id: 'indicator.ema20_gt_ema50.v1',
+    family: 'indicator',
+    bias: 'bullish',
+    required_bars: 50,
+    description: 'EMA20 above EMA50 on closes.',
+    definition: 'EMA20(C) > EMA50(C); EMA(n) seeded with the SMA of the first n closes',
+    evaluate: (bars) => {
+      const { e20, e50 } = emaPair(bars);
+      return Number.isFinite(e20) && Number.isFinite(e50) && e20 > e50;
+    },
+  },
+  {
+    id: 'indicator.ema20_lt_ema50.v1',
+    family: 'indicator',
+    bias: 'bearish',
+    required_bars: 50,
+    description: 'EMA20 below EMA50 on closes.',
+    definition: 'EMA20(C) < EMA50(C); EMA(n) seeded with the SMA of the first n closes',
+    evaluate: (bars) => {
+      const { e20, e50 } = emaPair(bars);
+      return Number.isFinite(e20) && Number.isFinite(e50) && e20 < e50;
+    },
+  },
+  {
+    id: 'indicator.ema20_cross_up_ema50.v1',
+    family: 'indicator',
+    bias: 'bullish',
+    required_bars: 51,
+    description: 'EMA20 crosses above EMA50 on this candle.',
+    definition: 'EMA20(P) <= EMA50(P) && EMA20(C) > EMA50(C)',
+    evaluate: (bars) => {
+      const { e20, e50, e20Prev, e50Prev } = emaPair(bars);
+      if (![e20, e50, e20Prev, e50Prev].every(Number.isFinite)) return false;
+      return e20Prev <= e50Prev && e20 > e50;
+    },
+  },
+  {
+    id: 'indicator.ema20_cross_down_ema50.v1',
+    family: 'indicator',
+    bias: 'bearish',
+    required_bars: 51,
+    description: 'EMA20 crosses below EMA50 on this candle.',
+    definition: 'EMA20(P) >= EMA50(P) && EMA20(C) < EMA50(C)',
+    evaluate: (bars) => {
+      const { e20, e50, e20Prev, e50Prev } = emaPair(bars);
+      if (![e20, e50, e20Prev, e50Prev].every(Number.isFinite)) return false;
+      return e20Prev >= e50Prev && e20 < e50;
+    },
+  },
+  {
+    id: 'indicator.rsi14_lt_30.v1',
+    family: 'indicator',
+    bias: 'bullish',
+    required_bars: 15,
+    description: 'RSI14 below 30: oversold, expecting a rebound.',
+    definition: 'RSI14(C) < 30; Wilder smoothing',
+    evaluate: (bars) => {
+      const value = lastRsi14(bars);
+      return Number.isFinite(value) && value < 30;
+    },
+  },
+  {
+    id: 'indicator.rsi14_gt_70.v1',
+    family: 'indicator',
+    bias: 'bearish',
+    required_bars: 15,
+    description: 'RSI14 above 70: overbought, expecting a pullback.',
+    definition: 'RSI14(C) > 70; Wilder smoothing',
+    evaluate: (bars) => {
+      const value = lastRsi14(bars);
+      return Number.isFinite(value) && value > 70;
+    },
+  },
+  {
+    id: 'indicator.macd_cross_up_signal.v1',
+    family: 'indicator',
+    bias: 'bullish',
+    required_bars: 35,
+    description: 'MACD(12,26,9) line crosses above its signal line on this candle.',
+    definition:
+      'MACD = EMA12(C) - EMA26(C), SIGNAL = EMA9(MACD); ' +
+      'MACD(P) <= SIGNAL(P) && MACD(C) > SIGNAL(C)',
+    evaluate: (bars) => macdCrosses(bars, 'up'),
+  },
+  {
+    id: 'indicator.macd_cross_down_signal.v1',
+    family: 'indicator',
+    bias: 'bearish',
+    required_bars: 35,
+    description: 'MACD(12,26,9) line crosses below its signal line on this candle.',
+    definition:
+      'MACD = EMA12(C) - EMA26(C), SIGNAL = EMA9(MACD); ' +
+      'MACD(P) >= SIGNAL(P) && MACD(C) < SIGNAL(C)',
+    evaluate: (bars) => macdCrosses(bars, 'down'),
+  },
+  {
+    id: 'breakout.close_gt_high_20.v1',
+    family: 'breakout',
+    bias: 'bullish',
+    required_bars: 21,
+    description: 'Close above the highest high of the previous 20 candles.',
+    definition: 'C.close > max(high of the 20 candles before C)',
+    evaluate: (bars) => closeBreaks(bars, 20, 'high'),
+  },
+  {
+    id: 'breakout.close_lt_low_20.v1',
+    family: 'breakout',
+    bias: 'bearish',
+    required_bars: 21,
+    description: 'Close below the lowest low of the previous 20 candles.',
+    definition: 'C.close < min(low of the 20 candles before C)',
+    evaluate: (bars) => closeBreaks(bars, 20, 'low'),
+  },
+  {
+    id: 'breakout.close_gt_high_55.v1',
+    family: 'breakout',
+    bias: 'bullish',
+    required_bars: 56,
+    description: 'Close above the highest high of the previous 55 candles.',
+    definition: 'C.close > max(high of the 55 candles before C)',
+    evaluate: (bars) => closeBreaks(bars, 55, 'high'),
+  },
+  {
+    id: 'breakout.close_lt_low_55.v1',
+    family: 'breakout',
+    bias: 'bearish',
+    required_bars: 56,
+    description: 'Close below the lowest low of the previous 55 candles.',
+    definition: 'C.close < min(low of the 55 candles before C)',
+    evaluate: (bars) => closeBreaks(bars, 55, 'low'),
+  },
+  {
+    id: 'structure.double_top_60.v1',
+    family: 'structure',
+    bias: 'bearish',
+    required_bars: 60 + PIVOT_SPAN * 2,
+    description: 'Two matching highs within 60 candles, then a close below the neckline.',
+    definition:
+      `${PIVOT_DEFINITION}; last pivot high H2 and the latest pivot high H1 at least 5 candles ` +
+      'before it, |H2 - H1| / mean <= 1%; C.close < min(low between H1 and H2)',
+    evaluate: (bars) => evaluateStructureDoubleTop(bars, 60),
+  },
+  {
+    id: 'structure.double_bottom_60.v1',
+    family: 'structure',
+    bias: 'bullish',
+    required_bars: 60 + PIVOT_SPAN * 2,
+    description: 'Two matching lows within 60 candles, then a close above the neckline.',
+    definition:
+      `${PIVOT_DEFINITION}; last pivot low L2 and the latest pivot low L1 at least 5 candles ` +
+      'before it, |L2 - L1| / mean <= 1%; C.close > max(high between L1 and L2)',
+    evaluate: (bars) => evaluateStructureDoubleBottom(bars, 60),
+  },
+  {
+    id: 'structure.head_and_shoulders_90.v1',
+    family: 'structure',
+    bias: 'bearish',
+    required_bars: 90 + PIVOT_SPAN * 2,
+    description: 'Head and shoulders within 90 candles, then a close below the neckline.',
+    definition:
+      `${PIVOT_DEFINITION}; pivot highs LS < H < RS in time, |LS - RS| / mean <= 1%, ` +
+      'H >= 1.01 * max(LS, RS), a pivot low T1 between LS and H and T2 between H and RS; ' +
+      'C.close < (T1 + T2) / 2',
+    evaluate: (bars) => evaluateStructureHeadAndShoulders(bars, 90),
+  },
+  {
+    id: 'structure.inverse_head_and_shoulders_90.v1',
+    family: 'structure',
+    bias: 'bullish',
+    required_bars: 90 + PIVOT_SPAN * 2,
+    description: 'Inverse head and shoulders within 90 candles, then a close above the neckline.',
+    definition:
+      `${PIVOT_DEFINITION}; pivot lows LS < H < RS in time, |LS - RS| / mean <= 1%, ` +
+      'H <= 0.99 * min(LS, RS), a pivot high P1 between LS and H and P2 between H and RS; ' +
+      'C.close > (P1 + P2) / 2',
+    evaluate: (bars) => evaluateStructureInverseHeadAndShoulders(bars, 90),
+  },
+  {
+    id: 'volatility.bb20_touch_upper.v1',
+    family: 'volatility',
+    bias: 'bearish',
+    required_bars: 20,
+    description: 'High reaches the upper Bollinger band (20, 2): stretched, expecting a pullback.',
+    definition: 'C.high >= SMA20(C) + 2 * STDEV20(C); population stdev of closes',
+    evaluate: (bars) => {
+      const bands = bollinger(bars);
+      return bands !== null && current(bars).high >= bands.upper;
+    },
+  },
+  {
+    id: 'volatility.bb20_touch_lower.v1',
+    family: 'volatility',
+    bias: 'bullish',
+    required_bars: 20,
+    description: 'Low reaches the lower Bollinger band (20, 2): stretched, expecting a rebound.',
+    definition: 'C.low <= SMA20(C) - 2 * STDEV20(C); population stdev of closes',
+    evaluate: (bars) => {
+      const bands = bollinger(bars);
+      return bands !== null && current(bars).low <= bands.lower;
+    },
+  },
+  {
+    id: 'volatility.bb20_squeeze_50.v1',
+    family: 'volatility',
+    bias: 'neutral',
+    required_bars: 69,
+    description: 'Bollinger bandwidth (20, 2) at its lowest of the last 50 candles.',
+    definition:
+      'BW = 4 * STDEV20 / SMA20 on closes (population stdev); BW(C) <= min(BW of the 49 candles ' +
+      'before C)',
+    evaluate: (bars) => bollingerSqueeze(bars, 50),
+  },
+  {
+    id: 'volatility.atr14_expansion.v1',
+    family: 'volatility',
+    bias: 'neutral',
+    required_bars: 29,
+    description: 'ATR14 at least 1.5x its value 14 candles earlier: volatility expanding.',
+    definition:
+      'TR = max(high - low, |high - prev close|, |low - prev close|), ATR14 = Wilder average ' +
+      'of TR; ATR14(C) >= 1.5 * ATR14(14 candles before C)',
+    evaluate: (bars) => {
+      const atr = computeAtr14(bars);
+      const now = atr[atr.length - 1];
+      const before = atr[atr.length - 15];
+      return Number.isFinite(now) && Number.isFinite(before) && before > 0 && now >= 1.5 * before;
+    },
+  },
+  {
+    id: 'volume.spike_20.v1',
+    family: 'volume',
+    bias: 'neutral',
+    required_bars: 21,
+    description: 'Volume at least twice the average volume of the previous 20 candles.',
+    definition: 'C.volume >= 2 * mean(volume of the 20 candles before C), mean > 0',
+    evaluate: (bars) => volumeSpike(bars, 20, 2),
+  },
+  {
+    id: 'volume.close_gt_session_vwap.v1',
+    family: 'volume',
+    bias: 'bullish',
+    required_bars: sessionVwapBars(intervalToMs(SESSION_VWAP_MIN_TIMEFRAME)),
+    min_timeframe: SESSION_VWAP_MIN_TIMEFRAME,
+    requiredBarsAt: sessionVwapBars,
+    description: 'Close above the UTC-session VWAP (3m and longer timeframes).',
+    definition: `C.close > ${SESSION_VWAP_DEFINITION}`,
+    evaluate: (bars) => closeVersusVwap(bars, 'above'),
+  },
+  {
+    id: 'volume.close_lt_session_vwap.v1',
+    family: 'volume',
+    bias: 'bearish',
+    required_bars: sessionVwapBars(intervalToMs(SESSION_VWAP_MIN_TIMEFRAME)),
+    min_timeframe: SESSION_VWAP_MIN_TIMEFRAME,
+    requiredBarsAt: sessionVwapBars,
+    description: 'Close below the UTC-session VWAP (3m and longer timeframes).',
+    definition: `C.close < ${SESSION_VWAP_DEFINITION}`,
+    evaluate: (bars) => closeVersusVwap(bars, 'below'),
+  },
+];
+
+const PATTERNS_BY_ID = new Map(PATTERN_REGISTRY.map((pattern) => [pattern.id, pattern]));
+
+export function findPattern(patternId: string): PatternDefinition | null {
+  return PATTERNS_BY_ID.get(patternId) ?? null;
+}
+
+export function getPattern(patternId: string): PatternDefinition {
+  const pattern = findPattern(patternId);
+  if (!pattern) {
+    throw new Error(`Unsupported pattern: ${patternId}`);
+  }
+  return pattern;
+}
+
+export function patternAllowsTimeframe(pattern: PatternDefinition, timeframe: string): boolean {
+  return !pattern.min_timeframe || intervalToMs(timeframe) >= intervalToMs(pattern.min_timeframe);
+}
+
+// Candles the pattern reads on `timeframe`.
+export function patternRequiredBars(pattern: PatternDefinition, timeframe: string): number {
+  return pattern.requiredBarsAt
+    ? pattern.requiredBarsAt(intervalToMs(timeframe))
+    : pattern.required_bars;
+}
+
+// Public catalog: the registry without the evaluators, optionally for one family.
+export function listPatterns(options: { family?: string | null } = {}): PatternCatalogEntry[] {
+  const family = options.family?.trim().toLowerCase() || null;
+  if (family && !(PATTERN_FAMILIES as readonly string[]).includes(family)) {
+    throw new Error(`Unknown family: ${family}`);
+  }
+  return PATTERN_REGISTRY.filter((pattern) => !family || pattern.family === family).map(
+    ({ evaluate: _evaluate, requiredBarsAt: _requiredBarsAt, ...entry }) => entry
+  );
+}
+
+export function toOhlc(klines: Kline[]): Ohlc[] {
+  return klines.map((kline) => ({
+    open_time: kline.open_time,
+    open: kline.open,
+    high: kline.high,
+    low: kline.low,
+    close: kline.close,
+    volume: kline.volume,
+  }));
+}
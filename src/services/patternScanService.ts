@@ -0,0 +1,153 @@
+import type { Env, Kline } from '../types';
+import { normalizeIntervals } from './judgmentValidation';
+import {
+  coinFromSymbol,
+  fetchKlines,
+  getKlineConfig,
+  intervalToMs,
+  symbolForCoin,
+} from './klineService';
+import {
+  PATTERN_REGISTRY,
+  patternAllowsTimeframe,
+  patternRequiredBars,
+  toOhlc,
+  type PatternBias,
+  type PatternFamily,
+} from './patternRegistry';
+import { alignCloseTimeMs } from './reasonRuleService';
+
+export type PatternHit = { id: string; family: PatternFamily; bias: PatternBias };
+
+export type TimeframeScan = {
+  t_close_ms: number;
+  t_close_time: string;
+  holds: PatternHit[];
+};
+
+// Subset of the Workers Cache API the scanner uses, so tests can pass an in-memory cache.
+export type ScanCache = Pick<Cache, 'match' | 'put'>;
+
+// Registry patterns accepted on `timeframe`.
+function patternsFor(timeframe: string) {
+  return PATTERN_REGISTRY.filter((pattern) => patternAllowsTimeframe(pattern, timeframe));
+}
+
+// Longest window any pattern reads on `timeframe`, so one fetch covers the whole scan.
+function maxRequiredBars(timeframe: string): number {
+  return Math.max(
+    ...patternsFor(timeframe).map((pattern) => patternRequiredBars(pattern, timeframe))
+  );
+}
+
+/**
+ * Every registry pattern accepted on `timeframe` that holds on the candle closing at `tCloseMs`,
+ * each evaluated on its own window. Patterns without enough history do not hold.
+ */
+export function scanPatterns(klines: Kline[], tCloseMs: number, timeframe: string): PatternHit[] {
+  const closed = klines
+    .filter((kline) => kline.close_time <= tCloseMs)
+    .sort((a, b) => a.close_time - b.close_time);
+  if (closed[closed.length - 1]?.close_time !== tCloseMs) {
+    throw new Error('Unable to align to a closed candle');
+  }
+  const bars = toOhlc(closed);
+  return patternsFor(timeframe)
+    .filter((pattern) => {
+      const required = patternRequiredBars(pattern, timeframe);
+      return bars.length >= required && pattern.evaluate(bars.slice(-required));
+    })
+    .map((pattern) => ({ id: pattern.id, family: pattern.family, bias: pattern.bias }));
+}
+
+function defaultCache(): ScanCache | null {
+  return typeof caches === 'undefined' ? null : caches.default;
+}
+
+// Scan of one timeframe, cached under its candle close until the next candle closes.
+async function scanTimeframe(
+  env: Env,
+  coin: string,
+  timeframe: string,
+  nowMs: number,
+  cache: ScanCache | null
+): Promise<TimeframeScan> {
+  const intervalMs = intervalToMs(timeframe);
+  const tCloseMs = alignCloseTimeMs(nowMs, timeframe);
+  const cacheKey = new Request(`https://pattern-scan/${coin}/${timeframe}/${tCloseMs}`);
+  const cached = await cache?.match(cacheKey);
+  if (cached) return (await cached.json()) as TimeframeScan;
+
+  const limit = Math.min(getKlineConfig(env).maxLimit, maxRequiredBars(timeframe) + 10);
+  const klines = await fetchKlines(env, {
+    coin,
+    interval: timeframe,
+    startTime: tCloseMs - intervalMs * limit,
+    endTime: tCloseMs,
+    limit,
+  });
+  const scan: TimeframeScan = {
+    t_close_ms: tCloseMs,
+    t_close_time: new Date(tCloseMs).toISOString(),
+    holds: scanPatterns(klines, tCloseMs, timeframe),
+  };
+
+  const ttlSec = Math.max(1, Math.ceil((tCloseMs + 1 + intervalMs - nowMs) / 1000));
+  await cache?.put(
+    cacheKey,
+    new Response(JSON.stringify(scan), {
+      headers: { 'content-type': 'application/json', 'cache-control': `max-age=${ttlSec}` },
+    })
+  );
+  return scan;
+}
+
+/**
+ * Live scan: which catalog patterns hold on the latest closed candle of each timeframe
+ * (default: the kline default intervals). A timeframe that fails is reported under `errors`.
+ */
+export async function scanLivePatterns(
+  env: Env,
+  options: {
+    timeframes?: unknown;
+    coin?: unknown;
+    symbol?: unknown;
+    nowMs?: number;
+    cache?: ScanCache | null;
+  } = {}
+) {
+  const klineConfig = getKlineConfig(env);
+  const timeframes = normalizeIntervals(
+    options.timeframes === undefined || options.timeframes === ''
+      ? klineConfig.defaultIntervals
+      : options.timeframes
+  );
+  const coin =
+    (typeof options.coin === 'string' && options.coin.trim().toUpperCase()) ||
+    coinFromSymbol(typeof options.symbol === 'string' ? options.symbol : null) ||
+    klineConfig.assets[0];
+  if (!klineConfig.assets.includes(coin)) {
+    throw new Error(`Unsupported coin: ${coin}`);
+  }
+  const nowMs = options.nowMs ?? Date.now();
+  const cache = options.cache === undefined ? defaultCache() : options.cache;
+
+  const scans: Record<string, TimeframeScan> = {};
+  const errors: Record<string, string> = {};
+  for (const timeframe of timeframes) {
+    try {
+      scans[timeframe] = await scanTimeframe(env, coin, timeframe, nowMs, cache);
+    } catch (error) {
+      errors[timeframe] = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  return {
+    ok: Object.keys(scans).length > 0,
+    coin,
+    symbol: symbolForCoin(coin),
+    scanned_at: new Date(nowMs).toISOString(),
+    timeframes: scans,
+    ...(Object.keys(errors).length > 0 ? { errors } : {}),
+  };
+}
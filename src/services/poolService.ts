@@ -0,0 +1,98 @@
+import type { PoolOdds } from '../types';
+import { OUTCOMES, type ForecastDistribution, type Outcome } from './forecastScoring';
+import type { ScoringOutcome } from './scoringService';
+
+// Recorded as score_events.strategy for pool rounds; not part of the points strategy registry.
+export const POOL_STRATEGY_ID = 'pool';
+
+export type PoolEntry = {
+  agent_id: string;
+  direction: string;
+  stake: number;
+};
+
+export type PoolPayout = {
+  agent_id: string;
+  direction: string;
+  stake: number;
+  payout: number;
+  net: number;
+};
+
+export type PoolSettlement = {
+  pools: ForecastDistribution;
+  total: number;
+  house_cut: number;
+  refunded: boolean;
+  payouts: PoolPayout[];
+};
+
+export function poolSizes(entries: PoolEntry[]): ForecastDistribution {
+  const pools: ForecastDistribution = { UP: 0, DOWN: 0, FLAT: 0 };
+  for (const entry of entries) {
+    const side = entry.direction as Outcome;
+    if (side in pools) pools[side] += entry.stake;
+  }
+  return pools;
+}
+
+export function impliedOdds(entries: PoolEntry[], houseCutPct: number): PoolOdds {
+  const pools = poolSizes(entries);
+  const total = pools.UP + pools.DOWN + pools.FLAT;
+  const keep = 1 - houseCutPct / 100;
+  const odds = { UP: null, DOWN: null, FLAT: null } as PoolOdds['odds'];
+  const impliedProb = { UP: null, DOWN: null, FLAT: null } as PoolOdds['implied_prob'];
+  for (const side of OUTCOMES) {
+    if (pools[side] <= 0) continue;
+    odds[side] = Number((1 + ((total - pools[side]) * keep) / pools[side]).toFixed(4));
+    impliedProb[side] = Number((pools[side] / total).toFixed(4));
+  }
+  return { pools, total_staked: total, house_cut_pct: houseCutPct, odds, implied_prob: impliedProb };
+}
+
+/**
+ * Parimutuel settlement: winners get their stake back plus the losing pools, minus the house cut,
+ * pro rata to their stake. Payouts are floored to whole chips and the dust goes to the house. With
+ * no stake on the winning side every stake is refunded.
+ */
+export function settlePool(
+  entries: PoolEntry[],
+  result: string,
+  houseCutPct: number
+): PoolSettlement {
+  const pools = poolSizes(entries);
+  const total = pools.UP + pools.DOWN + pools.FLAT;
+  const winningPool = pools[result as Outcome] ?? 0;
+
+  if (winningPool <= 0) {
+    return {
+      pools,
+      total,
+      house_cut: 0,
+      refunded: true,
+      payouts: entries.map((entry) => ({ ...entry, payout: entry.stake, net: 0 })),
+    };
+  }
+
+  const losingPool = total - winningPool;
+  const distributable = losingPool * (1 - houseCutPct / 100);
+  let paid = 0;
+  const payouts = entries.map((entry) => {
+    const payout =
+      entry.direction === result
+        ? entry.stake + Math.floor((distributable * entry.stake) / winningPool)
+        : 0;
+    paid += payout;
+    return { ...entry, payout, net: payout - entry.stake };
+  });
+  return { pools, total, house_cut: total - paid, refunded: false, payouts };
+}
+
+export function poolOutcome(payout: PoolPayout, refunded: boolean): ScoringOutcome {
+  if (refunded) {
+    return { correct: false, score_change: 0, reason: 'Pool refunded' };
+  }
+  return payout.payout > 0
+    ? { correct: true, score_change: payout.net, reason: 'Pool win' }
+    : { correct: false, score_change: payout.net, reason: 'Pool loss' };
+}
@@ -1,21 +1,99 @@
+import type { SourceQuote } from '../priceSources';
 import type { Env, MetaState } from '../types';
+import type { TickHistoryQuery } from './tickHistoryService';
 
 const DEFAULT_PRICE_STALE_MS = 30_000;
+const DEFAULT_OUTLIER_BAND_PCT = 0.5;
 
 export type LivePrice = {
   price: number;
   updatedAt: string;
 };
 
-function getStaleMs(env: Env) {
+export function getStaleMs(env: Env) {
   const parsed = Number(env.PRICE_STALE_MS);
   return Number.isFinite(parsed) ? parsed : DEFAULT_PRICE_STALE_MS;
 }
 
-export async function getLivePrice(env: Env): Promise<LivePrice> {
+export type RejectedQuote = {
+  source: string;
+  price: number;
+  reason: 'stale' | 'outlier';
+  deviation_pct?: number;
+};
+
+export type AggregatedPrice = {
+  coin: string;
+  price: number;
+  updatedAt: string;
+  sources: string[];
+  rejected: RejectedQuote[];
+};
+
+export function getOutlierBandPct(env: Env) {
+  const parsed = Number(env.PRICE_OUTLIER_BAND_PCT);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_OUTLIER_BAND_PCT;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Median of fresh source quotes, after dropping any quote that sits further than bandPct
+ * from the raw median. Returns null when no quote survives.
+ */
+export function aggregateQuotes(
+  coin: string,
+  quotes: SourceQuote[],
+  options: { bandPct: number; staleMs: number; now?: number }
+): AggregatedPrice | null {
+  const now = options.now ?? Date.now();
+  const rejected: RejectedQuote[] = [];
+  const fresh: SourceQuote[] = [];
+  for (const quote of quotes) {
+    const updatedAtMs = Date.parse(quote.updatedAt);
+    if (!Number.isFinite(updatedAtMs) || now - updatedAtMs > options.staleMs) {
+      rejected.push({ source: quote.source, price: quote.price, reason: 'stale' });
+    } else {
+      fresh.push(quote);
+    }
+  }
+  if (fresh.length === 0) return null;
+
+  const center = median(fresh.map((quote) => quote.price));
+  const accepted: SourceQuote[] = [];
+  for (const quote of fresh) {
+    const deviationPct = (Math.abs(quote.price - center) / center) * 100;
+    if (deviationPct > options.bandPct) {
+      rejected.push({
+        source: quote.source,
+        price: quote.price,
+        reason: 'outlier',
+        deviation_pct: deviationPct,
+      });
+    } else {
+      accepted.push(quote);
+    }
+  }
+  if (accepted.length === 0) return null;
+
+  const updatedAtMs = Math.max(...accepted.map((quote) => Date.parse(quote.updatedAt)));
+  return {
+    coin,
+    price: median(accepted.map((quote) => quote.price)),
+    updatedAt: new Date(updatedAtMs).toISOString(),
+    sources: accepted.map((quote) => quote.source),
+    rejected,
+  };
+}
+
+export async function getLivePrice(env: Env, coin: string): Promise<LivePrice> {
   const id = env.PRICE_FEED.idFromName('primary');
   const stub = env.PRICE_FEED.get(id);
-  const res = await stub.fetch('https://price-feed/price');
+  const res = await stub.fetch(`https://price-feed/price?coin=${encodeURIComponent(coin)}`);
   if (!res.ok) {
     const body = await res.text();
     throw new Error(`Price feed error ${res.status}: ${body}`);
@@ -28,8 +106,29 @@ export async function getLivePrice(env: Env): Promise<LivePrice> {
   return { price, updatedAt: data.updated_at };
 }
 
-export async function refreshPrice(env: Env, meta: MetaState): Promise<MetaState> {
-  const live = await getLivePrice(env);
+export async function getPriceHistory(
+  env: Env,
+  coin: string,
+  fromMs: number,
+  toMs: number
+): Promise<TickHistoryQuery> {
+  const id = env.PRICE_FEED.idFromName('primary');
+  const stub = env.PRICE_FEED.get(id);
+  const params = new URLSearchParams({ coin, from: String(fromMs), to: String(toMs) });
+  const res = await stub.fetch(`https://price-feed/history?${params.toString()}`);
+  if (!res.ok) {
+    const body = await res.text();
+    throw new Error(`Price feed error ${res.status}: ${body}`);
+  }
+  return (await res.json()) as TickHistoryQuery;
+}
+
+export async function refreshPrice(
+  env: Env,
+  coin: string,
+  meta: MetaState
+): Promise<MetaState> {
+  const live = await getLivePrice(env, coin);
   const updatedAtMs = Date.parse(live.updatedAt);
   if (!Number.isFinite(updatedAtMs)) {
     throw new Error('Invalid updated_at');
@@ -43,7 +142,7 @@ export async function refreshPrice(env: Env, meta: MetaState): Promise<MetaState
   const price = live.price;
   const next: MetaState = {
     ...meta,
-    lastDeltaPct: ((price - meta.lastPrice) / meta.lastPrice) * 100,
+    lastDeltaPct: meta.lastPrice > 0 ? ((price - meta.lastPrice) / meta.lastPrice) * 100 : 0,
     lastPrice: price,
     currentPrice: price,
     lastPriceAt: new Date(updatedAtMs).toISOString(),
@@ -0,0 +1,163 @@
+import type { Env, RatingHistoryEntry } from '../types';
+
+// Glicko-2 (Glickman, 2012). Each settled round is one rating period in which every participant
+// plays every other participant once; the better round score wins, equal scores draw.
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_RD = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+// System constant constraining volatility changes; Glickman suggests 0.3-1.2.
+const TAU = 0.5;
+const GLICKO2_SCALE = 173.7178;
+const CONVERGENCE_EPSILON = 1e-6;
+const MIN_RD = 30;
+
+export type Rating = {
+  rating: number;
+  rd: number;
+  volatility: number;
+};
+
+export type MatchParticipant = {
+  id: string;
+  rating: Rating;
+  points: number;
+};
+
+export type RatingUpdate = {
+  id: string;
+  before: Rating;
+  after: Rating;
+  rating_change: number;
+};
+
+type Opponent = { mu: number; phi: number; score: number };
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+const expectedScore = (mu: number, opponent: Opponent) =>
+  1 / (1 + Math.exp(-g(opponent.phi) * (mu - opponent.mu)));
+
+export function ratingOf(row: {
+  rating?: number | null;
+  rating_rd?: number | null;
+  rating_volatility?: number | null;
+}): Rating {
+  return {
+    rating: row.rating ?? DEFAULT_RATING,
+    rd: row.rating_rd ?? DEFAULT_RD,
+    volatility: row.rating_volatility ?? DEFAULT_VOLATILITY,
+  };
+}
+
+// Step 5 of the paper: solve for the new volatility with the Illinois variant of regula falsi.
+function nextVolatility(phi: number, sigma: number, delta: number, v: number, tau: number) {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (tau * tau);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + v) {
+    upper = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k += 1;
+    upper = a - k * tau;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_EPSILON) {
+    const candidate = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fCandidate = f(candidate);
+    if (fCandidate * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = candidate;
+    fUpper = fCandidate;
+  }
+  return Math.exp(lower / 2);
+}
+
+export function updateRating(player: Rating, opponents: Opponent[], tau = TAU): Rating {
+  const mu = (player.rating - DEFAULT_RATING) / GLICKO2_SCALE;
+  const phi = player.rd / GLICKO2_SCALE;
+  if (opponents.length === 0) {
+    const inflated = Math.sqrt(phi * phi + player.volatility * player.volatility);
+    return { ...player, rd: Math.min(DEFAULT_RD, inflated * GLICKO2_SCALE) };
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const opponent of opponents) {
+    const e = expectedScore(mu, opponent);
+    const gPhi = g(opponent.phi);
+    vInverse += gPhi * gPhi * e * (1 - e);
+    improvement += gPhi * (opponent.score - e);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  const sigma = nextVolatility(phi, player.volatility, delta, v, tau);
+  const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+  const phiNext = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNext = mu + phiNext * phiNext * improvement;
+
+  return {
+    rating: muNext * GLICKO2_SCALE + DEFAULT_RATING,
+    rd: Math.max(MIN_RD, Math.min(DEFAULT_RD, phiNext * GLICKO2_SCALE)),
+    volatility: sigma,
+  };
+}
+
+/**
+ * Rates one round as a multi-player match: each pair of participants is a game decided by round
+ * points. All updates use the pre-round ratings. Fewer than two participants is not a match.
+ */
+export function rateMatch(participants: MatchParticipant[], tau = TAU): RatingUpdate[] {
+  if (participants.length < 2) return [];
+  const scaled = participants.map((item) => ({
+    mu: (item.rating.rating - DEFAULT_RATING) / GLICKO2_SCALE,
+    phi: item.rating.rd / GLICKO2_SCALE,
+  }));
+
+  return participants.map((player, index) => {
+    const opponents: Opponent[] = [];
+    participants.forEach((other, otherIndex) => {
+      if (otherIndex === index) return;
+      const score = player.points > other.points ? 1 : player.points < other.points ? 0 : 0.5;
+      opponents.push({ ...scaled[otherIndex], score });
+    });
+    const next = updateRating(player.rating, opponents, tau);
+    const after = {
+      rating: Number(next.rating.toFixed(2)),
+      rd: Number(next.rd.toFixed(2)),
+      volatility: Number(next.volatility.toFixed(6)),
+    };
+    return {
+      id: player.id,
+      before: player.rating,
+      after,
+      rating_change: Number((after.rating - player.rating.rating).toFixed(2)),
+    };
+  });
+}
+
+export async function listRatingHistory(
+  env: Env,
+  agentId: string,
+  limit = 20
+): Promise<RatingHistoryEntry[]> {
+  const result = await env.DB.prepare(
+    'SELECT * FROM rating_history WHERE agent_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?'
+  )
+    .bind(agentId, limit)
+    .all<RatingHistoryEntry>();
+  return result.results ?? [];
+}
@@ -1,4 +1,4 @@
-import type { Env } from '../types';
+import type { Env, IndicatorParams } from '../types';
 
 const DEFAULT_LIMIT = 5000;
 const MAX_LIMIT = 20000;
@@ -34,6 +34,10 @@ export type ReasonStatsResponse = {
   avg_abs_delta_pct: number;
   by_timeframe: Array<ReasonStatsRow & { timeframe: string }>;
   by_pattern: Array<ReasonStatsRow & { pattern: string }>;
+  // ReasonRule v2: one row per indicator and parameter set.
+  by_params: Array<ReasonStatsRow & { pattern: string; params: IndicatorParams }>;
+  // Composite rules: one row per canonical tree signature.
+  by_signature: Array<ReasonStatsRow & { signature: string }>;
 };
 
 type ReasonStatsOptions = {
@@ -54,7 +58,7 @@ function parseNumber(value: unknown): number | null {
   return null;
 }
 
-function parseTime(value: unknown): number | null {
+export function parseTime(value: unknown): number | null {
   const numeric = parseNumber(value);
   if (numeric !== null) return numeric;
   if (typeof value === 'string' && value.trim() !== '') {
@@ -64,7 +68,7 @@ function parseTime(value: unknown): number | null {
   return null;
 }
 
-function normalizeWindow(
+export function normalizeWindow(
   sinceInput: unknown,
   untilInput: unknown,
   nowMs: number
@@ -102,7 +106,7 @@ function normalizeLimit(value: unknown): number {
   return limit;
 }
 
-function numberOrZero(value: unknown): number {
+export function numberOrZero(value: unknown): number {
   const num = typeof value === 'number' ? value : Number(value);
   return Number.isFinite(num) ? num : 0;
 }
@@ -161,14 +165,20 @@ async function querySummary(
 
 type BreakdownRow = ReasonStatsRow & { label: string };
 
+const BREAKDOWN_COLUMNS = {
+  timeframe: 'reason_timeframe',
+  pattern: 'reason_pattern',
+  signature: 'reason_signature',
+};
+
 async function queryBreakdown(
   env: Env,
   filterSql: string,
   params: Array<string | number>,
-  dimension: 'timeframe' | 'pattern'
+  dimension: keyof typeof BREAKDOWN_COLUMNS
 ): Promise<BreakdownRow[]> {
-  const column = dimension === 'timeframe' ? 'reason_timeframe' : 'reason_pattern';
-  const alias = dimension === 'timeframe' ? 'timeframe' : 'pattern';
+  const column = BREAKDOWN_COLUMNS[dimension];
+  const alias = dimension;
   const sql = `
     WITH filtered AS (
       SELECT ${column} AS ${alias}, reason_pattern_holds, reason_correct
@@ -199,6 +209,44 @@ async function queryBreakdown(
   }));
 }
 
+// v2 params are stored as canonical JSON, so equal parameter sets group together.
+async function queryParamsBreakdown(
+  env: Env,
+  filterSql: string,
+  params: Array<string | number>
+): Promise<ReasonStatsResponse['by_params']> {
+  const sql = `
+    WITH filtered AS (
+      SELECT reason_pattern, reason_params, reason_pattern_holds, reason_correct
+      FROM judgments
+      WHERE ${filterSql}
+      ORDER BY reason_evaluated_at DESC
+      LIMIT ?
+    )
+    SELECT
+      reason_pattern AS pattern,
+      reason_params AS params,
+      COUNT(*) AS total_evaluated,
+      SUM(CASE WHEN reason_pattern_holds = 1 THEN 1 ELSE 0 END) AS total_valid,
+      AVG(reason_correct) AS accuracy_all,
+      AVG(CASE WHEN reason_pattern_holds = 1 THEN reason_correct END) AS accuracy_valid
+    FROM filtered
+    WHERE reason_params IS NOT NULL
+    GROUP BY reason_pattern, reason_params
+    ORDER BY total_evaluated DESC
+  `;
+
+  const result = await env.DB.prepare(sql).bind(...params).all<any>();
+  return (result.results ?? []).map((row) => ({
+    pattern: String(row.pattern),
+    params: JSON.parse(String(row.params)) as IndicatorParams,
+    total_evaluated: numberOrZero(row.total_evaluated),
+    total_valid: numberOrZero(row.total_valid),
+    accuracy_all: numberOrZero(row.accuracy_all),
+    accuracy_valid: numberOrZero(row.accuracy_valid),
+  }));
+}
+
 export async function getReasonStats(
   env: Env,
   options: ReasonStatsOptions
@@ -218,6 +266,8 @@ export async function getReasonStats(
   const summary = await querySummary(env, filterSql, params);
   const byTimeframe = await queryBreakdown(env, filterSql, params, 'timeframe');
   const byPattern = await queryBreakdown(env, filterSql, params, 'pattern');
+  const byParams = await queryParamsBreakdown(env, filterSql, params);
+  const bySignature = await queryBreakdown(env, filterSql, params, 'signature');
 
   return {
     ok: true,
@@ -245,5 +295,13 @@ export async function getReasonStats(
       accuracy_all: row.accuracy_all,
       accuracy_valid: row.accuracy_valid,
     })),
+    by_params: byParams,
+    by_signature: bySignature.map((row) => ({
+      signature: row.label,
+      total_evaluated: row.total_evaluated,
+      total_valid: row.total_valid,
+      accuracy_all: row.accuracy_all,
+      accuracy_valid: row.accuracy_valid,
+    })),
   };
 }
@@ -1,24 +1,83 @@
-import type { RuntimeConfig } from '../config';
+import { findTrack, type RuntimeConfig, type TrackConfig } from '../config';
 import { trimTable } from '../db';
+import {
+  buildConsensus,
+  CROWD_AGENT_ID,
+  insertConsensus,
+  type ConsensusVote,
+} from './consensusService';
+import {
+  impliedDistribution,
+  scoreForecast,
+  type ForecastDistribution,
+  type Outcome,
+} from './forecastScoring';
+import { coinFromSymbol, fetchCandleAt, symbolForCoin } from './klineService';
+import {
+  DEFAULT_RATING,
+  DEFAULT_RD,
+  rateMatch,
+  ratingOf,
+  type MatchParticipant,
+} from './ratingService';
+import {
+  describeLevelForecast,
+  levelForecastOf,
+  levelWidthPct,
+  scoreLevelForecast,
+  storedLevelScore,
+  type LevelKind,
+} from './levelForecastService';
+import { alignCloseTimeMs } from './reasonRuleService';
+import { nextSlotStartMs, slotAt } from './scheduleService';
+import { getScoringStrategy, isScoringStrategy, worstCaseScore } from './scoringService';
+import {
+  impliedOdds,
+  poolOutcome,
+  POOL_STRATEGY_ID,
+  settlePool,
+  type PoolEntry,
+} from './poolService';
+import { ACTIVE_SEASON_SQL } from './seasonService';
+import {
+  buildHubMessage,
+  FEED_CHANNEL,
+  publishEvents,
+  ROUND_CHANNEL,
+  type HubMessage,
+} from './eventHubService';
 import type {
   Agent,
   Env,
   FlipCard,
   Judgment,
+  JudgmentCommit,
+  LeaderboardEntry,
+  LeaderboardSort,
   MetaState,
+  PoolOdds,
   ReasonRule,
   Round,
+  RoundEvent,
   ScoreEvent,
   Summary,
   Verdict,
+  VoidReason,
 } from '../types';
 
-function roundIdFor(date: Date) {
-  const pad = (num: number) => String(num).padStart(2, '0');
-  return `r_${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
-    date.getUTCDate()
-  )}_${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}`;
-}
+const SETTLEMENT_TIMEFRAME = '1m';
+const SETTLEMENT_PRICE_SOURCE = `hyperliquid:candle:${SETTLEMENT_TIMEFRAME}`;
+
+// How long to wait before retrying a round whose end candle is not published yet.
+export const SETTLE_RETRY_MS = 15_000;
+
+export type SettlementPrices = {
+  source: string;
+  startPrice: number;
+  startCloseMs: number;
+  endPrice: number;
+  endCloseMs: number;
+};
 
 function computeResult(deltaPct: number, flatThresholdPct: number) {
   if (Math.abs(deltaPct) < flatThresholdPct) return 'FLAT';
@@ -34,31 +93,47 @@ function buildFlipCard({
   agent,
   judgment,
   verdict,
+  correct,
   scoreChange,
+  levelText = null,
 }: {
   agent: Agent;
   judgment: Judgment;
   verdict: Verdict;
+  correct: boolean;
   scoreChange: number;
+  levelText?: string | null;
 }): FlipCard {
-  const result = judgment.direction === verdict.result ? 'WIN' : 'FAIL';
+  const result = correct ? 'WIN' : 'FAIL';
   const deltaText = formatDelta(verdict.delta_pct);
+  const text = `自信度：${judgment.confidence}% · 结果：${deltaText}`;
 
   return {
     title: `${result === 'FAIL' ? '❌' : '✅'} ${agent.name} ${
       result === 'FAIL' ? '被当场否决' : '暂时免刑'
     }`,
-    text: `自信度：${judgment.confidence}% · 结果：${deltaText}`,
+    text: levelText ? `${text} · ${levelText}` : text,
     agent: agent.name,
     agent_id: agent.id,
     confidence: judgment.confidence,
     result,
     score_change: scoreChange,
     round_id: verdict.round_id,
+    track_id: verdict.track_id ?? null,
+    symbol: verdict.symbol ?? null,
     timestamp: verdict.timestamp,
   };
 }
 
+// Stored probabilities when the agent sent a distribution, otherwise the one implied by its
+// binary direction/confidence, so every judgment gets a Brier and log-loss score.
+function forecastDistribution(judgment: Judgment): ForecastDistribution {
+  if (judgment.prob_up != null && judgment.prob_down != null && judgment.prob_flat != null) {
+    return { UP: judgment.prob_up, DOWN: judgment.prob_down, FLAT: judgment.prob_flat };
+  }
+  return impliedDistribution(judgment.direction, judgment.confidence);
+}
+
 function parseIntervals(value: unknown): string[] | null {
   if (Array.isArray(value)) {
     return value.map((item) => String(item));
@@ -109,79 +184,481 @@ function parseReasonRule(value: unknown): ReasonRule | null {
 }
 
 export function createRoundService(env: Env, config: RuntimeConfig) {
-  const lockWindowMs = config.lockWindowMs;
+  function trackFor(round: Pick<Round, 'track_id'>): TrackConfig {
+    // Rounds whose track was removed from config still settle with the primary track's rules.
+    return findTrack(config, round.track_id) ?? config.tracks[0];
+  }
+
+  function coinFor(round: Pick<Round, 'symbol'>): string {
+    return coinFromSymbol(round.symbol) ?? config.assets[0];
+  }
+
+  async function fetchCloseAligned(coin: string, timeMs: number) {
+    const closeTimeMs = alignCloseTimeMs(timeMs, SETTLEMENT_TIMEFRAME);
+    const candle = await fetchCandleAt(env, {
+      coin,
+      interval: SETTLEMENT_TIMEFRAME,
+      closeTimeMs,
+    });
+    return candle ? { price: candle.close, closeTimeMs } : null;
+  }
+
+  // Both prices come from the 1m candle whose inclusive close aligns to the round boundary, so
+  // anyone can reproduce a verdict from public kline data regardless of when the cron ran.
+  async function fetchSettlementPrices(round: Round): Promise<SettlementPrices | null> {
+    const coin = coinFor(round);
+    const start = await fetchCloseAligned(coin, new Date(round.start_time).getTime());
+    const end = await fetchCloseAligned(coin, new Date(round.end_time).getTime());
+    if (!start || !end) return null;
+    return {
+      source: SETTLEMENT_PRICE_SOURCE,
+      startPrice: start.price,
+      startCloseMs: start.closeTimeMs,
+      endPrice: end.price,
+      endCloseMs: end.closeTimeMs,
+    };
+  }
 
-  async function getLiveRound(): Promise<Round | null> {
+  async function getLiveRound(symbol: string, trackId: string): Promise<Round | null> {
     return (
       await env.DB.prepare(
-        "SELECT * FROM rounds WHERE status != 'settled' ORDER BY start_time DESC LIMIT 1"
-      ).first<Round>()
+        "SELECT * FROM rounds WHERE symbol = ? AND track_id = ? AND status NOT IN ('settled', 'voided') ORDER BY start_time DESC LIMIT 1"
+      )
+        .bind(symbol, trackId)
+        .first<Round>()
     ) ?? null;
   }
 
   function getLockTimeMs(round: Round): number {
-    return new Date(round.start_time).getTime() + lockWindowMs;
+    if (round.lock_time) {
+      return new Date(round.lock_time).getTime();
+    }
+    return new Date(round.start_time).getTime() + trackFor(round).lockWindowMs;
   }
 
-  async function startRound(meta: MetaState): Promise<Round | null> {
-    const existing = await getLiveRound();
+  async function startRound(
+    meta: MetaState,
+    symbol: string,
+    track: TrackConfig,
+    nowMs = Date.now()
+  ): Promise<Round | null> {
+    const existing = await getLiveRound(symbol, track.id);
     if (existing) return existing;
+    if (!(meta.currentPrice > 0)) return null;
+
+    // Rounds only open inside their scheduled slot's betting window; a slot that already ran
+    // (settled or voided) is not reopened.
+    const slot = slotAt(track, symbol, nowMs);
+    if (nowMs >= Date.parse(slot.lock_time)) return null;
+    const taken = await env.DB.prepare('SELECT round_id FROM rounds WHERE round_id = ?')
+      .bind(slot.round_id)
+      .first<{ round_id: string }>();
+    if (taken) return null;
+
+    const startMs = Date.parse(slot.start_time);
+    let startPrice = meta.currentPrice;
+    try {
+      const aligned = await fetchCloseAligned(coinFor({ symbol }), startMs);
+      if (aligned) startPrice = aligned.price;
+    } catch (error) {
+      // Settlement re-derives the start price from klines, so the live mid is a safe placeholder.
+      console.warn('Start candle unavailable', error);
+    }
 
-    const now = new Date();
     const round: Round = {
-      round_id: roundIdFor(now),
-      symbol: 'BTCUSDT',
-      duration_min: config.roundDurationMin,
-      start_price: Number(meta.currentPrice.toFixed(2)),
+      round_id: slot.round_id,
+      track_id: track.id,
+      symbol,
+      duration_min: track.durationMin,
+      start_price: Number(startPrice.toFixed(2)),
       end_price: null,
       status: 'betting',
-      start_time: now.toISOString(),
-      end_time: new Date(now.getTime() + config.roundDurationMs).toISOString(),
+      start_time: slot.start_time,
+      lock_time: slot.lock_time,
+      end_time: slot.end_time,
+      submission_mode: track.submissionMode,
+      scoring_strategy: track.scoringStrategy,
+      game_mode: track.gameMode,
     };
 
     const statements = [
       env.DB.prepare(
-        'INSERT INTO rounds (round_id, symbol, duration_min, start_price, end_price, status, start_time, end_time) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+        'INSERT INTO rounds (round_id, track_id, symbol, duration_min, start_price, end_price, status, start_time, lock_time, end_time, submission_mode, scoring_strategy, game_mode) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
       ).bind(
         round.round_id,
+        round.track_id,
         round.symbol,
         round.duration_min,
         round.start_price,
         round.end_price,
         round.status,
         round.start_time,
-        round.end_time
+        round.lock_time,
+        round.end_time,
+        round.submission_mode,
+        round.scoring_strategy,
+        round.game_mode
       ),
     ];
+    const startedPayload = {
+      round_id: round.round_id,
+      track_id: round.track_id,
+      symbol: round.symbol,
+      start_price: round.start_price,
+      start_time: round.start_time,
+      lock_time: round.lock_time,
+      end_time: round.end_time,
+      submission_mode: round.submission_mode,
+      scoring_strategy: round.scoring_strategy,
+      game_mode: round.game_mode,
+    };
+    statements.push(insertRoundEvent(round, 'round_started', startedPayload));
 
     await env.DB.batch(statements);
     await trimTable(env, 'rounds', config.roundLimit);
+    await trimTable(env, 'round_events', config.roundEventLimit);
+    await publishEvents(env, [buildHubMessage(ROUND_CHANNEL, 'round_started', startedPayload)]);
 
     return round;
   }
 
+  async function listOpenRounds(): Promise<Round[]> {
+    const result = await env.DB.prepare(
+      "SELECT * FROM rounds WHERE status IN ('betting', 'locked') ORDER BY start_time ASC"
+    ).all<Round>();
+    return result.results ?? [];
+  }
+
+  // Earliest of the next slot start, or a lock/end deadline across open rounds; overdue rounds
+  // are retried shortly.
+  async function getNextTransitionMs(nowMs = Date.now()): Promise<number | null> {
+    let next = nextSlotStartMs(config.tracks, nowMs);
+    for (const round of await listOpenRounds()) {
+      const dueMs =
+        round.status === 'betting' ? getLockTimeMs(round) : new Date(round.end_time).getTime();
+      const candidate = dueMs > nowMs ? dueMs : nowMs + SETTLE_RETRY_MS;
+      next = next === null ? candidate : Math.min(next, candidate);
+    }
+    return next;
+  }
+
   async function lockRound(round: Round): Promise<Round> {
-    await env.DB.prepare('UPDATE rounds SET status = ? WHERE round_id = ?').bind(
-      'locked',
-      round.round_id
-    ).run();
+    const lockedAt = new Date().toISOString();
+    // The consensus is frozen at lock so it cannot steer betting. Commit-reveal rounds have no
+    // judgments yet; theirs is taken from the reveals at settlement.
+    const consensusStatements = [];
+    if (round.submission_mode !== 'commit_reveal') {
+      const votesResult = await env.DB.prepare(
+        'SELECT j.direction, j.confidence, a.rating FROM judgments j LEFT JOIN agents a ON a.id = j.agent_id WHERE j.round_id = ?'
+      )
+        .bind(round.round_id)
+        .all<ConsensusVote>();
+      consensusStatements.push(
+        insertConsensus(env, round, buildConsensus(votesResult.results ?? []), lockedAt)
+      );
+    }
+    const lockedPayload = {
+      round_id: round.round_id,
+      track_id: round.track_id,
+      symbol: round.symbol,
+      lock_time: round.lock_time ?? new Date(getLockTimeMs(round)).toISOString(),
+      end_time: round.end_time,
+    };
+    // A round locked meanwhile rolls the batch back, so the consensus and event are written once.
+    const locked = await runTransition(round, 'betting', [
+      env.DB.prepare("UPDATE rounds SET status = ? WHERE round_id = ? AND status = 'betting'").bind(
+        'locked',
+        round.round_id
+      ),
+      recordTransition(round, 'locked', lockedAt),
+      ...consensusStatements,
+      insertRoundEvent(round, 'round_locked', lockedPayload),
+    ]);
+    if (!locked) {
+      return (
+        (await env.DB.prepare('SELECT * FROM rounds WHERE round_id = ?')
+          .bind(round.round_id)
+          .first<Round>()) ?? round
+      );
+    }
+    await trimTable(env, 'round_consensus', config.roundLimit);
+    await trimTable(env, 'round_events', config.roundEventLimit);
+    await trimTable(env, 'round_transitions', config.roundEventLimit);
+    await publishEvents(env, [buildHubMessage(ROUND_CHANNEL, 'round_locked', lockedPayload)]);
     return { ...round, status: 'locked' };
   }
 
-  async function cancelRound(round: Round): Promise<void> {
-    await env.DB.batch([
-      env.DB.prepare('DELETE FROM judgments WHERE round_id = ?').bind(round.round_id),
-      env.DB.prepare('DELETE FROM rounds WHERE round_id = ?').bind(round.round_id),
-    ]);
+  function insertRoundEvent(round: Round, type: string, payload: Record<string, unknown>) {
+    return env.DB.prepare(
+      'INSERT INTO round_events (round_id, track_id, symbol, type, payload, timestamp) VALUES (?, ?, ?, ?, ?, ?)'
+    ).bind(
+      round.round_id,
+      round.track_id,
+      round.symbol,
+      type,
+      JSON.stringify(payload),
+      new Date().toISOString()
+    );
   }
 
+  // Batched right after a guarded status UPDATE. `applied` is CHECKed to be 1, so if the UPDATE
+  // matched nothing this insert fails and the whole batch rolls back (migration 0023).
+  function recordTransition(round: Round, status: string, timestamp: string) {
+    return env.DB.prepare(
+      'INSERT INTO round_transitions (round_id, status, applied, timestamp) VALUES (?, ?, changes(), ?)'
+    ).bind(round.round_id, status, timestamp);
+  }
+
+  // Runs a transition batch. False when it was rolled back because the round had already left
+  // `from`; any other failure is rethrown.
+  async function runTransition(
+    round: Round,
+    from: string,
+    statements: D1PreparedStatement[]
+  ): Promise<boolean> {
+    try {
+      await env.DB.batch(statements);
+      return true;
+    } catch (error) {
+      const current = await env.DB.prepare('SELECT status FROM rounds WHERE round_id = ?')
+        .bind(round.round_id)
+        .first<{ status: string }>();
+      if (current && current.status !== from) return false;
+      throw error;
+    }
+  }
+
+  // Running per-track totals for the season active at settlement; unlike score_events they are
+  // never trimmed.
+  function addTrackStanding(round: Round, agentId: string, scoreChange: number, correct: boolean) {
+    return env.DB.prepare(
+      `INSERT INTO track_standings (season_id, track_id, agent_id, score, rounds, wins) VALUES (COALESCE(${ACTIVE_SEASON_SQL}, ''), ?, ?, ?, 1, ?) ON CONFLICT(season_id, track_id, agent_id) DO UPDATE SET score = score + excluded.score, rounds = rounds + 1, wins = wins + excluded.wins`
+    ).bind(round.track_id, agentId, scoreChange, correct ? 1 : 0);
+  }
+
+  // Running per-track level forecast totals, read by the level leaderboard.
+  function addLevelStanding(round: Round, agentId: string, kind: LevelKind, event: ScoreEvent) {
+    return env.DB.prepare(
+      'INSERT INTO level_standings (track_id, agent_id, kind, forecasts, error_sum, best_error_pct, hits, width_sum) VALUES (?, ?, ?, 1, ?, ?, ?, ?) ON CONFLICT(track_id, agent_id, kind) DO UPDATE SET forecasts = forecasts + 1, error_sum = error_sum + excluded.error_sum, best_error_pct = MIN(COALESCE(best_error_pct, excluded.best_error_pct), excluded.best_error_pct), hits = hits + excluded.hits, width_sum = width_sum + excluded.width_sum'
+    ).bind(
+      round.track_id,
+      agentId,
+      kind,
+      event.target_error_pct ?? 0,
+      event.target_error_pct ?? null,
+      event.range_hit ?? 0,
+      event.range_width_pct ?? 0
+    );
+  }
+
+  async function voidRound(round: Round, reason: VoidReason): Promise<boolean> {
+    if (round.status === 'voided') return false;
+
+    const voidedAt = new Date().toISOString();
+    // The status change leads the batch; refunds were computed for round.status, so if the round
+    // has moved on since (settled or voided by someone else) the batch rolls back.
+    const statements = [
+      env.DB.prepare(
+        'UPDATE rounds SET status = ?, void_reason = ?, voided_at = ? WHERE round_id = ? AND status = ?'
+      ).bind('voided', reason, voidedAt, round.round_id, round.status),
+      recordTransition(round, 'voided', voidedAt),
+    ];
+
+    let refunds = 0;
+    if (round.status === 'settled') {
+      const eventsResult = await env.DB.prepare(
+        'SELECT * FROM score_events WHERE round_id = ?'
+      )
+        .bind(round.round_id)
+        .all<ScoreEvent>();
+      const events = eventsResult.results ?? [];
+      // Refunds are rebuilt from the score events, so a round whose events have been trimmed
+      // cannot be voided. Rounds settled before scored_events was recorded need at least one.
+      if (events.length < (round.scored_events ?? 1)) {
+        throw new Error('Score events of this round have been trimmed; it can no longer be voided');
+      }
+      // Pool rounds move chips, not points; keep the two apart so each is reversed where it landed.
+      // Bankroll top-ups granted at the settlement stay: they are not tied to this round (the
+      // agent went broke over any number of rounds) and only reset a bankroll that could no
+      // longer stake, which bankroll_topups already counts.
+      const netByAgent = new Map<string, { event: ScoreEvent; net: number; wins: number }>();
+      for (const event of events) {
+        const key = `${event.agent_id}|${event.strategy === POOL_STRATEGY_ID ? 'pool' : 'score'}`;
+        const entry = netByAgent.get(key) ?? { event, net: 0, wins: 0 };
+        entry.net += event.score_change;
+        entry.wins += event.correct === 1 ? 1 : 0;
+        netByAgent.set(key, entry);
+      }
+
+      // Level totals are backed out per scored forecast; best_error_pct keeps the best ever seen.
+      for (const event of events) {
+        const kind =
+          event.target_error_pct != null ? 'target' : event.range_hit != null ? 'range' : null;
+        if (!kind) continue;
+        statements.push(
+          env.DB.prepare(
+            'UPDATE level_standings SET forecasts = forecasts - 1, error_sum = error_sum - ?, hits = hits - ?, width_sum = width_sum - ? WHERE track_id = ? AND agent_id = ? AND kind = ?'
+          ).bind(
+            event.target_error_pct ?? 0,
+            event.range_hit ?? 0,
+            event.range_width_pct ?? 0,
+            round.track_id,
+            event.agent_id,
+            kind
+          )
+        );
+      }
+
+      for (const { event, net, wins } of netByAgent.values()) {
+        const agentId = event.agent_id;
+        // A refund belongs to the season the round was scored in; once that season has closed,
+        // agents.score has been reset and is left alone.
+        const seasonId = event.season_id ?? null;
+        if (!(round.game_mode === 'pool' && agentId === CROWD_AGENT_ID)) {
+          statements.push(
+            env.DB.prepare(
+              "UPDATE track_standings SET score = score - ?, rounds = rounds - 1, wins = wins - ? WHERE season_id = COALESCE(?, '') AND track_id = ? AND agent_id = ?"
+            ).bind(net, wins, seasonId, round.track_id, agentId)
+          );
+        }
+        if (net === 0) continue;
+        refunds += 1;
+        const isPoolEvent = event.strategy === POOL_STRATEGY_ID;
+        statements.push(
+          isPoolEvent
+            ? env.DB.prepare('UPDATE agents SET bankroll = bankroll - ? WHERE id = ?').bind(
+                net,
+                agentId
+              )
+            : env.DB.prepare(
+                `UPDATE agents SET score = score - ? WHERE id = ? AND (? IS NULL OR ? = ${ACTIVE_SEASON_SQL})`
+              ).bind(net, agentId, seasonId, seasonId),
+          env.DB.prepare(
+            'INSERT INTO score_events (agent_id, round_id, track_id, confidence, correct, score_change, reason, strategy, timestamp, season_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+          ).bind(
+            agentId,
+            round.round_id,
+            round.track_id,
+            event.confidence,
+            0,
+            -net,
+            'Round voided',
+            isPoolEvent ? POOL_STRATEGY_ID : null,
+            voidedAt,
+            seasonId
+          )
+        );
+      }
+
+      // Ratings are path dependent, so a void backs out this round's rating change but keeps the
+      // RD/volatility the agent has reached since.
+      const ratingResult = await env.DB.prepare(
+        'SELECT agent_id, rating_change FROM rating_history WHERE round_id = ?'
+      )
+        .bind(round.round_id)
+        .all<{ agent_id: string; rating_change: number }>();
+      for (const entry of ratingResult.results ?? []) {
+        statements.push(
+          env.DB.prepare(
+            'UPDATE agents SET rating = rating - ?, rated_rounds = MAX(COALESCE(rated_rounds, 0) - 1, 0) WHERE id = ?'
+          ).bind(entry.rating_change, entry.agent_id)
+        );
+      }
+
+      statements.push(
+        env.DB.prepare('DELETE FROM rating_history WHERE round_id = ?').bind(round.round_id),
+        env.DB.prepare(
+          'UPDATE round_consensus SET result = NULL, correct = NULL WHERE round_id = ?'
+        ).bind(round.round_id),
+        env.DB.prepare('DELETE FROM verdicts WHERE round_id = ?').bind(round.round_id),
+        env.DB.prepare('DELETE FROM flip_cards WHERE round_id = ?').bind(round.round_id)
+      );
+    }
+
+    if (round.status !== 'settled' && round.game_mode === 'pool') {
+      // Stakes are escrowed at submission (commit-reveal: at commit, and a revealed commitment's
+      // stake is the judgment's); an unsettled pool round hands them back.
+      const stakesResult = await env.DB.prepare(
+        "SELECT agent_id, stake FROM judgments WHERE round_id = ? AND stake > 0 UNION ALL SELECT agent_id, stake FROM judgment_commits WHERE round_id = ? AND status != 'revealed' AND stake > 0"
+      )
+        .bind(round.round_id, round.round_id)
+        .all<{ agent_id: string; stake: number }>();
+      for (const entry of stakesResult.results ?? []) {
+        refunds += 1;
+        statements.push(
+          env.DB.prepare('UPDATE agents SET bankroll = bankroll + ? WHERE id = ?').bind(
+            entry.stake,
+            entry.agent_id
+          )
+        );
+      }
+    }
+
+    const voidedPayload = {
+      round_id: round.round_id,
+      track_id: round.track_id,
+      symbol: round.symbol,
+      previous_status: round.status,
+      reason,
+      refunds,
+      voided_at: voidedAt,
+    };
+    statements.push(insertRoundEvent(round, 'round_voided', voidedPayload));
+
+    if (!(await runTransition(round, round.status, statements))) return false;
+    await trimTable(env, 'round_events', config.roundEventLimit);
+    await trimTable(env, 'round_transitions', config.roundEventLimit);
+    await publishEvents(env, [buildHubMessage(ROUND_CHANNEL, 'round_voided', voidedPayload)]);
+    return true;
+  }
+
+  async function listRoundEvents(filter: {
+    afterId: number;
+    symbol: string;
+    trackId: string;
+    limit?: number;
+  }): Promise<RoundEvent[]> {
+    const result = await env.DB.prepare(
+      'SELECT * FROM round_events WHERE id > ? AND symbol = ? AND track_id = ? ORDER BY id ASC LIMIT ?'
+    )
+      .bind(filter.afterId, filter.symbol, filter.trackId, filter.limit ?? 50)
+      .all<RoundEvent>();
+    return result.results ?? [];
+  }
+
+  async function getLatestRoundEventId(): Promise<number> {
+    const row = await env.DB.prepare('SELECT MAX(id) AS id FROM round_events').first<{
+      id: number | null;
+    }>();
+    return Number(row?.id ?? 0);
+  }
+
+  // Open judgments plus commit-reveal commitments (revealed ones are counted once, as judgments).
   async function countJudgments(roundId: string): Promise<number> {
     const row = await env.DB.prepare(
-      'SELECT COUNT(*) as count FROM judgments WHERE round_id = ?'
-    ).bind(roundId).first<{ count: number | string }>();
+      "SELECT (SELECT COUNT(*) FROM judgments WHERE round_id = ?) + (SELECT COUNT(*) FROM judgment_commits WHERE round_id = ? AND status != 'revealed') as count"
+    ).bind(roundId, roundId).first<{ count: number | string }>();
     return Number(row?.count ?? 0);
   }
 
+  async function countCommits(roundId: string): Promise<{ commits: number; reveals: number }> {
+    const row = await env.DB.prepare(
+      "SELECT COUNT(*) as commits, SUM(CASE WHEN status = 'revealed' THEN 1 ELSE 0 END) as reveals FROM judgment_commits WHERE round_id = ?"
+    ).bind(roundId).first<{ commits: number | string; reveals: number | string | null }>();
+    return { commits: Number(row?.commits ?? 0), reveals: Number(row?.reveals ?? 0) };
+  }
+
+  // Live implied odds of a pool round from the stakes placed so far; null for points rounds.
+  async function getPoolOdds(round: Round): Promise<PoolOdds | null> {
+    if (round.game_mode !== 'pool') return null;
+    const result = await env.DB.prepare(
+      'SELECT agent_id, direction, stake FROM judgments WHERE round_id = ? AND stake IS NOT NULL'
+    )
+      .bind(round.round_id)
+      .all<PoolEntry>();
+    return impliedOdds(result.results ?? [], config.poolHouseCutPct);
+  }
+
   async function hasActiveAgents(): Promise<boolean> {
     const row = await env.DB.prepare(
       "SELECT COUNT(*) as count FROM agents WHERE status = 'active' AND secret IS NOT NULL AND secret != ''"
@@ -189,15 +666,49 @@ export function createRoundService(env: Env, config: RuntimeConfig) {
     return Number(row?.count ?? 0) > 0;
   }
 
-  async function settleRound(round: Round, meta: MetaState): Promise<void> {
-    if (round.status === 'settled') return;
+  // Agents that cannot afford the minimum stake and have nothing riding on an open pool round
+  // (judged or committed) are topped back up to the starting bankroll.
+  function topUpBrokeBankrolls() {
+    return env.DB.prepare(
+      `UPDATE agents SET bankroll = ?, bankroll_topups = COALESCE(bankroll_topups, 0) + 1
+       WHERE bankroll < ?
+         AND id NOT IN (
+           SELECT j.agent_id FROM judgments j JOIN rounds r ON r.round_id = j.round_id
+           WHERE r.status IN ('betting', 'locked') AND r.game_mode = 'pool' AND j.stake > 0
+         )
+         AND id NOT IN (
+           SELECT c.agent_id FROM judgment_commits c JOIN rounds r ON r.round_id = c.round_id
+           WHERE r.status IN ('betting', 'locked') AND r.game_mode = 'pool' AND c.stake > 0
+             AND c.status IN ('committed', 'mismatched')
+         )`
+    ).bind(config.poolStartingBankroll, config.poolMinStake);
+  }
+
+  async function settleRound(round: Round): Promise<boolean> {
+    if (round.status !== 'locked') return false;
+    // The caller's copy may be stale; only the coordinator settles, but never settle twice.
+    const current = await env.DB.prepare('SELECT status FROM rounds WHERE round_id = ?')
+      .bind(round.round_id)
+      .first<{ status: string }>();
+    if (current?.status !== 'locked') return false;
+
+    const prices = await fetchSettlementPrices(round);
+    if (!prices) return false;
 
-    const endPrice = Number(meta.currentPrice.toFixed(2));
-    const deltaPct = ((endPrice - round.start_price) / round.start_price) * 100;
+    const startPrice = prices.startPrice;
+    const endPrice = prices.endPrice;
+    const deltaPct = ((endPrice - startPrice) / startPrice) * 100;
     const verdict: Verdict = {
       round_id: round.round_id,
-      result: computeResult(deltaPct, config.flatThresholdPct),
+      track_id: round.track_id,
+      symbol: round.symbol,
+      result: computeResult(deltaPct, trackFor(round).flatThresholdPct),
       delta_pct: Number(deltaPct.toFixed(1)),
+      start_price: startPrice,
+      end_price: endPrice,
+      price_source: prices.source,
+      start_close_ms: prices.startCloseMs,
+      end_close_ms: prices.endCloseMs,
       timestamp: new Date().toISOString(),
     };
 
@@ -209,64 +720,128 @@ export function createRoundService(env: Env, config: RuntimeConfig) {
     const judgments = judgmentsResult.results ?? [];
 
     const agentsResult = await env.DB.prepare(
-      'SELECT id, name, persona, status, score, prompt FROM agents'
+      'SELECT id, name, persona, status, score, prompt, rating, rating_rd, rating_volatility FROM agents'
     ).all<Agent>();
     const agents = agentsResult.results ?? [];
     const agentMap = new Map(agents.map((agent) => [agent.id, agent]));
 
     const statements = [
       env.DB.prepare(
-        'UPDATE rounds SET end_price = ?, status = ? WHERE round_id = ?'
-      ).bind(endPrice, 'settled', round.round_id),
-      env.DB.prepare(
-        'INSERT INTO verdicts (round_id, result, delta_pct, timestamp) VALUES (?, ?, ?, ?)'
-      ).bind(verdict.round_id, verdict.result, verdict.delta_pct, verdict.timestamp),
+        'INSERT INTO verdicts (round_id, track_id, symbol, result, delta_pct, start_price, end_price, price_source, start_close_ms, end_close_ms, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).bind(
+        verdict.round_id,
+        verdict.track_id,
+        verdict.symbol,
+        verdict.result,
+        verdict.delta_pct,
+        verdict.start_price,
+        verdict.end_price,
+        verdict.price_source,
+        verdict.start_close_ms,
+        verdict.end_close_ms,
+        verdict.timestamp
+      ),
     ];
 
+    // Rounds keep the strategy they started with, so a config change never rescores a live round.
+    const strategy = getScoringStrategy(
+      isScoringStrategy(round.scoring_strategy)
+        ? round.scoring_strategy
+        : trackFor(round).scoringStrategy
+    );
+    // Pool rounds pay chips from the pool instead of points; score_change records the net chips.
+    const pool =
+      round.game_mode === 'pool'
+        ? settlePool(
+            judgments
+              .filter((judgment) => agentMap.has(judgment.agent_id))
+              .map((judgment) => ({
+                agent_id: judgment.agent_id,
+                direction: judgment.direction,
+                stake: judgment.stake ?? 0,
+              })),
+            verdict.result,
+            config.poolHouseCutPct
+          )
+        : null;
+    const poolPayouts = new Map(pool?.payouts.map((payout) => [payout.agent_id, payout]) ?? []);
+    const flipCards: FlipCard[] = [];
+    const participants: MatchParticipant[] = [];
     for (const judgment of judgments) {
       const agent = agentMap.get(judgment.agent_id);
       if (!agent) continue;
 
-      const correct = judgment.direction === verdict.result;
-      const scoreChange = correct
-        ? judgment.confidence
-        : -Math.round(judgment.confidence * 1.5);
+      const payout = poolPayouts.get(agent.id);
+      const outcome =
+        pool && payout
+          ? poolOutcome(payout, pool.refunded)
+          : strategy.score({
+              direction: judgment.direction,
+              confidence: judgment.confidence,
+              result: verdict.result,
+            });
+      const scoreChange = outcome.score_change;
+      // Level forecasts are scored on their own board and never move points or chips.
+      const level = levelForecastOf(judgment);
+      const levelScore = level ? scoreLevelForecast(level, endPrice) : null;
+      const widthPct = level ? levelWidthPct(level, endPrice) : null;
 
       const scoreEvent: ScoreEvent = {
         agent_id: agent.id,
         round_id: round.round_id,
+        track_id: round.track_id,
         confidence: judgment.confidence,
-        correct: correct ? 1 : 0,
+        correct: outcome.correct ? 1 : 0,
         score_change: scoreChange,
-        reason: correct ? 'Correct' : 'High confidence failure',
+        reason: outcome.reason,
         timestamp: verdict.timestamp,
+        strategy: pool ? POOL_STRATEGY_ID : strategy.id,
+        ...scoreForecast(forecastDistribution(judgment), verdict.result as Outcome),
+        target_error_pct: levelScore?.target_error_pct ?? null,
+        range_hit: levelScore?.range_hit == null ? null : levelScore.range_hit ? 1 : 0,
+        range_width_pct: widthPct,
       };
 
       const flipCard = buildFlipCard({
         agent,
         judgment,
         verdict,
+        correct: outcome.correct,
         scoreChange,
+        levelText: level && levelScore ? describeLevelForecast(level, levelScore) : null,
       });
+      flipCards.push(flipCard);
+      participants.push({ id: agent.id, rating: ratingOf(agent), points: scoreChange });
 
       statements.push(
-        env.DB.prepare('UPDATE agents SET score = score + ? WHERE id = ?').bind(
-          scoreChange,
-          agent.id
-        ),
+        payout
+          ? env.DB.prepare(
+              'UPDATE agents SET bankroll = COALESCE(bankroll, ?) + ? WHERE id = ?'
+            ).bind(config.poolStartingBankroll, payout.payout, agent.id)
+          : env.DB.prepare('UPDATE agents SET score = score + ? WHERE id = ?').bind(
+              scoreChange,
+              agent.id
+            ),
         env.DB.prepare(
-          'INSERT INTO score_events (agent_id, round_id, confidence, correct, score_change, reason, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?)'
+          `INSERT INTO score_events (agent_id, round_id, track_id, confidence, correct, score_change, reason, strategy, brier, log_loss, target_error_pct, range_hit, range_width_pct, timestamp, season_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${ACTIVE_SEASON_SQL})`
         ).bind(
           scoreEvent.agent_id,
           scoreEvent.round_id,
+          scoreEvent.track_id,
           scoreEvent.confidence,
           scoreEvent.correct,
           scoreEvent.score_change,
           scoreEvent.reason,
+          scoreEvent.strategy,
+          scoreEvent.brier ?? null,
+          scoreEvent.log_loss ?? null,
+          scoreEvent.target_error_pct ?? null,
+          scoreEvent.range_hit ?? null,
+          scoreEvent.range_width_pct ?? null,
           scoreEvent.timestamp
         ),
         env.DB.prepare(
-          'INSERT INTO flip_cards (title, text, agent, agent_id, confidence, result, score_change, round_id, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+          'INSERT INTO flip_cards (title, text, agent, agent_id, confidence, result, score_change, round_id, track_id, symbol, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
         ).bind(
           flipCard.title,
           flipCard.text,
@@ -276,19 +851,254 @@ export function createRoundService(env: Env, config: RuntimeConfig) {
           flipCard.result,
           flipCard.score_change,
           flipCard.round_id,
+          flipCard.track_id,
+          flipCard.symbol,
           flipCard.timestamp
+        ),
+        addTrackStanding(round, agent.id, scoreChange, outcome.correct)
+      );
+      if (level && levelScore) {
+        statements.push(
+          env.DB.prepare(
+            'UPDATE judgments SET target_error_pct = ?, range_hit = ? WHERE round_id = ? AND agent_id = ?'
+          ).bind(
+            levelScore.target_error_pct,
+            scoreEvent.range_hit,
+            round.round_id,
+            agent.id
+          ),
+          addLevelStanding(round, agent.id, level.kind, scoreEvent)
+        );
+      }
+    }
+
+    // The crowd plays the consensus frozen at lock (commit-reveal rounds: built from the reveals)
+    // and is scored like an agent, but stays out of ratings since it is derived from the others.
+    let crowdCall: { direction: string | null; confidence: number | null } | null;
+    if (round.submission_mode === 'commit_reveal') {
+      const consensus = buildConsensus(
+        judgments.map((judgment) => ({
+          direction: judgment.direction,
+          confidence: judgment.confidence,
+          rating: agentMap.get(judgment.agent_id)?.rating ?? null,
+        }))
+      );
+      statements.push(insertConsensus(env, round, consensus, verdict.timestamp));
+      crowdCall = consensus.confidence_weighted;
+    } else {
+      crowdCall = await env.DB.prepare(
+        'SELECT direction, confidence FROM round_consensus WHERE round_id = ?'
+      )
+        .bind(round.round_id)
+        .first<{ direction: string | null; confidence: number | null }>();
+    }
+    let crowdCorrect: boolean | null = null;
+    let scoredEvents = flipCards.length;
+    if (crowdCall?.direction && crowdCall.confidence !== null) {
+      scoredEvents += 1;
+      const crowdOutcome = strategy.score({
+        direction: crowdCall.direction,
+        confidence: crowdCall.confidence,
+        result: verdict.result,
+      });
+      crowdCorrect = crowdOutcome.correct;
+      statements.push(
+        env.DB.prepare('UPDATE agents SET score = score + ? WHERE id = ?').bind(
+          crowdOutcome.score_change,
+          CROWD_AGENT_ID
+        ),
+        env.DB.prepare(
+          `INSERT INTO score_events (agent_id, round_id, track_id, confidence, correct, score_change, reason, strategy, timestamp, season_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ${ACTIVE_SEASON_SQL})`
+        ).bind(
+          CROWD_AGENT_ID,
+          round.round_id,
+          round.track_id,
+          crowdCall.confidence,
+          crowdOutcome.correct ? 1 : 0,
+          crowdOutcome.score_change,
+          crowdOutcome.reason,
+          strategy.id,
+          verdict.timestamp
+        ),
+      );
+      // Pool track standings count chips; the crowd's points would be mixed into them.
+      if (!pool) {
+        statements.push(
+          addTrackStanding(round, CROWD_AGENT_ID, crowdOutcome.score_change, crowdOutcome.correct)
+        );
+      }
+    }
+    statements.push(
+      env.DB.prepare('UPDATE round_consensus SET result = ?, correct = ? WHERE round_id = ?').bind(
+        verdict.result,
+        crowdCorrect === null ? null : crowdCorrect ? 1 : 0,
+        round.round_id
+      )
+    );
+
+    // Commit-reveal: commitments never revealed (or revealed with a wrong hash) are forfeited at
+    // the worst-case loss, so withholding a losing call is never better than revealing it: the
+    // strategy's lowest score for this result, or in pool rounds the stake escrowed at commit
+    // (kept rather than paid into the pool).
+    let forfeits = 0;
+    if (round.submission_mode === 'commit_reveal') {
+      const commitsResult = await env.DB.prepare(
+        "SELECT * FROM judgment_commits WHERE round_id = ? AND status IN ('committed', 'mismatched')"
+      )
+        .bind(round.round_id)
+        .all<JudgmentCommit>();
+      for (const commit of commitsResult.results ?? []) {
+        if (!agentMap.has(commit.agent_id)) continue;
+        forfeits += 1;
+        scoredEvents += 1;
+        const penalty = pool ? -(commit.stake ?? 0) : worstCaseScore(strategy, verdict.result);
+        participants.push({
+          id: commit.agent_id,
+          rating: ratingOf(agentMap.get(commit.agent_id)!),
+          points: penalty,
+        });
+        if (!pool) {
+          statements.push(
+            env.DB.prepare('UPDATE agents SET score = score + ? WHERE id = ?').bind(
+              penalty,
+              commit.agent_id
+            )
+          );
+        }
+        statements.push(
+          env.DB.prepare(
+            `INSERT INTO score_events (agent_id, round_id, track_id, confidence, correct, score_change, reason, strategy, timestamp, season_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ${ACTIVE_SEASON_SQL})`
+          ).bind(
+            commit.agent_id,
+            round.round_id,
+            round.track_id,
+            0,
+            0,
+            penalty,
+            commit.status === 'mismatched' ? 'Commitment mismatch' : 'Commitment not revealed',
+            pool ? POOL_STRATEGY_ID : strategy.id,
+            verdict.timestamp
+          ),
+          env.DB.prepare(
+            "UPDATE judgment_commits SET status = 'forfeited' WHERE round_id = ? AND agent_id = ?"
+          ).bind(round.round_id, commit.agent_id),
+          addTrackStanding(round, commit.agent_id, penalty, false)
+        );
+      }
+    }
+
+    if (pool) {
+      statements.push(topUpBrokeBankrolls());
+    }
+
+    const ratingUpdates = rateMatch(participants);
+    for (const update of ratingUpdates) {
+      statements.push(
+        env.DB.prepare(
+          'UPDATE agents SET rating = ?, rating_rd = ?, rating_volatility = ?, rated_rounds = COALESCE(rated_rounds, 0) + 1 WHERE id = ?'
+        ).bind(update.after.rating, update.after.rd, update.after.volatility, update.id),
+        env.DB.prepare(
+          'INSERT INTO rating_history (agent_id, round_id, track_id, rating, rd, volatility, rating_change, opponents, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+        ).bind(
+          update.id,
+          round.round_id,
+          round.track_id,
+          update.after.rating,
+          update.after.rd,
+          update.after.volatility,
+          update.rating_change,
+          participants.length - 1,
+          verdict.timestamp
         )
       );
     }
 
-    await env.DB.batch(statements);
+    const settledPayload = {
+      round_id: round.round_id,
+      track_id: round.track_id,
+      symbol: round.symbol,
+      result: verdict.result,
+      delta_pct: verdict.delta_pct,
+      start_price: startPrice,
+      end_price: endPrice,
+      judgments: flipCards.length,
+      forfeits,
+      pool: pool
+        ? { pools: pool.pools, total: pool.total, house_cut: pool.house_cut, refunded: pool.refunded }
+        : null,
+    };
+    statements.push(insertRoundEvent(round, 'round_settled', settledPayload));
+    // scored_events lets a later void tell whether trimming has removed any of them. The status
+    // change leads the batch; if the round left 'locked' meanwhile, nothing is scored twice.
+    statements.unshift(
+      env.DB.prepare(
+        "UPDATE rounds SET start_price = ?, end_price = ?, status = ?, scored_events = ? WHERE round_id = ? AND status = 'locked'"
+      ).bind(startPrice, endPrice, 'settled', scoredEvents, round.round_id),
+      recordTransition(round, 'settled', verdict.timestamp)
+    );
+
+    if (!(await runTransition(round, 'locked', statements))) return false;
     await trimTable(env, 'verdicts', config.verdictLimit);
     await trimTable(env, 'score_events', config.scoreEventLimit);
+    await trimTable(env, 'rating_history', config.ratingHistoryLimit);
     await trimTable(env, 'flip_cards', config.feedLimit);
+    await trimTable(env, 'round_consensus', config.roundLimit);
+    await trimTable(env, 'round_events', config.roundEventLimit);
+    await trimTable(env, 'round_transitions', config.roundEventLimit);
+    const messages: HubMessage[] = [
+      buildHubMessage(ROUND_CHANNEL, 'round_settled', settledPayload),
+      ...flipCards.map((card) => buildHubMessage(FEED_CHANNEL, 'flip_card', card)),
+    ];
+    await publishEvents(env, messages);
+    return true;
   }
 
-  async function buildSummary(meta: MetaState): Promise<Summary> {
-    const live = await getLiveRound();
+  async function getTrackLeaderboard(
+    trackId: string,
+    limit = 100,
+    sort: LeaderboardSort = 'score'
+  ): Promise<LeaderboardEntry[]> {
+    // Score is per track, summed over all seasons; rating is the agent's global Glicko-2 rating.
+    const orderBy = sort === 'rating' ? 'rating DESC, score DESC' : 'score DESC';
+    const result = await env.DB.prepare(
+      `SELECT s.agent_id AS agent_id,
+              COALESCE(a.name, s.agent_id) AS name,
+              SUM(s.score) AS score,
+              SUM(s.rounds) AS rounds,
+              SUM(s.wins) AS wins,
+              COALESCE(a.rating, ${DEFAULT_RATING}) AS rating,
+              COALESCE(a.rating_rd, ${DEFAULT_RD}) AS rating_rd
+       FROM track_standings s
+       LEFT JOIN agents a ON a.id = s.agent_id
+       WHERE s.track_id = ?
+       GROUP BY s.agent_id
+       ORDER BY ${orderBy}
+       LIMIT ?`
+    )
+      .bind(trackId, limit)
+      .all<LeaderboardEntry>();
+    return (result.results ?? []).map((row) => ({
+      agent_id: row.agent_id,
+      name: row.name,
+      score: Number(row.score ?? 0),
+      rounds: Number(row.rounds ?? 0),
+      wins: Number(row.wins ?? 0),
+      rating: Number(row.rating ?? DEFAULT_RATING),
+      rating_rd: Number(row.rating_rd ?? DEFAULT_RD),
+    }));
+  }
+
+  async function buildSummary(
+    meta: MetaState,
+    symbol: string,
+    trackId: string,
+    agentSort: LeaderboardSort = 'score'
+  ): Promise<Summary> {
+    const live = await getLiveRound(symbol, trackId);
+    // In commit-reveal rounds the judgments table only holds revealed entries, so nothing leaks
+    // before lock; the public view gets the commitment counts instead.
+    const liveCommits =
+      live?.submission_mode === 'commit_reveal' ? await countCommits(live.round_id) : null;
 
     const liveJudgmentsResult = live
       ? await env.DB.prepare(
@@ -313,10 +1123,33 @@ export function createRoundService(env: Env, config: RuntimeConfig) {
       agent_name: item.agent_name || item.agent_id,
     }));
 
+    const livePool =
+      live?.game_mode === 'pool'
+        ? impliedOdds(
+            liveJudgments
+              .filter((item) => typeof item.stake === 'number')
+              .map((item) => ({
+                agent_id: item.agent_id,
+                direction: item.direction,
+                stake: item.stake as number,
+              })),
+            config.poolHouseCutPct
+          )
+        : null;
+
     const lastVerdict =
-      (await env.DB.prepare('SELECT * FROM verdicts ORDER BY timestamp DESC LIMIT 1').first<
-        Verdict
-      >()) ?? null;
+      (await env.DB.prepare(
+        'SELECT * FROM verdicts WHERE symbol = ? AND track_id = ? ORDER BY timestamp DESC LIMIT 1'
+      )
+        .bind(symbol, trackId)
+        .first<Verdict>()) ?? null;
+
+    const voidedResult = await env.DB.prepare(
+      "SELECT round_id, start_time, end_time, void_reason, voided_at FROM rounds WHERE symbol = ? AND track_id = ? AND status = 'voided' ORDER BY start_time DESC LIMIT 10"
+    )
+      .bind(symbol, trackId)
+      .all<Summary['voided'][number]>();
+    const voided = voidedResult.results ?? [];
 
     let highlight: FlipCard | null = null;
     if (lastVerdict) {
@@ -332,14 +1165,22 @@ export function createRoundService(env: Env, config: RuntimeConfig) {
         )
           .bind(top.agent_id)
           .first<Agent>();
-        if (agent) {
-          const correct = top.direction === lastVerdict.result;
-          const scoreChange = correct ? top.confidence : -Math.round(top.confidence * 1.5);
+        // Reuse the score event written at settlement rather than rescoring with today's config.
+        const event = await env.DB.prepare(
+          'SELECT * FROM score_events WHERE round_id = ? AND agent_id = ? ORDER BY id ASC LIMIT 1'
+        )
+          .bind(lastVerdict.round_id, top.agent_id)
+          .first<ScoreEvent>();
+        if (agent && event) {
+          const level = levelForecastOf(top);
+          const levelScore = storedLevelScore(top);
           highlight = buildFlipCard({
             agent,
             judgment: top,
             verdict: lastVerdict,
-            scoreChange,
+            correct: Boolean(event.correct),
+            scoreChange: event.score_change,
+            levelText: level && levelScore ? describeLevelForecast(level, levelScore) : null,
           });
         }
       }
@@ -371,12 +1212,19 @@ export function createRoundService(env: Env, config: RuntimeConfig) {
       });
     }
 
-    agentSnapshots.sort((a, b) => b.score - a.score);
+    if (agentSort === 'rating') {
+      agentSnapshots.sort(
+        (a, b) =>
+          (b.rating ?? DEFAULT_RATING) - (a.rating ?? DEFAULT_RATING) || b.score - a.score
+      );
+    } else {
+      agentSnapshots.sort((a, b) => b.score - a.score);
+    }
 
     const feedResult = await env.DB.prepare(
-      'SELECT * FROM flip_cards ORDER BY timestamp DESC LIMIT ?'
+      'SELECT * FROM flip_cards WHERE symbol = ? AND track_id = ? ORDER BY timestamp DESC LIMIT ?'
     )
-      .bind(config.feedLimit)
+      .bind(symbol, trackId, config.feedLimit)
       .all<FlipCard>();
     const sortedFeed = feedResult.results ?? [];
     const defaultFeed = sortedFeed.filter(
@@ -386,21 +1234,33 @@ export function createRoundService(env: Env, config: RuntimeConfig) {
 
     return {
       server_time: new Date().toISOString(),
+      track_id: trackId,
+      tracks: config.tracks.map((track) => track.id),
+      symbol,
+      symbols: config.assets.map((coin) => symbolForCoin(coin)),
       live: live
         ? {
             round_id: live.round_id,
+            track_id: live.track_id,
             symbol: live.symbol,
             status: live.status,
             duration_min: live.duration_min,
             start_price: live.start_price,
             start_time: live.start_time,
+            lock_time: new Date(getLockTimeMs(live)).toISOString(),
             end_time: live.end_time,
             countdown_ms: Math.max(0, new Date(live.end_time).getTime() - Date.now()),
             current_price: meta.currentPrice,
+            submission_mode: live.submission_mode ?? 'open',
+            commit_count: liveCommits?.commits ?? null,
+            reveal_count: liveCommits?.reveals ?? null,
+            game_mode: live.game_mode ?? 'points',
+            pool: livePool,
             judgments: liveJudgments,
           }
         : null,
       lastVerdict,
+      voided,
       highlight,
       agents: agentSnapshots,
       feed,
@@ -410,12 +1270,20 @@ export function createRoundService(env: Env, config: RuntimeConfig) {
   return {
     getLiveRound,
     getLockTimeMs,
+    listOpenRounds,
+    getNextTransitionMs,
     startRound,
     lockRound,
-    cancelRound,
+    voidRound,
+    listRoundEvents,
+    getLatestRoundEventId,
     countJudgments,
+    countCommits,
+    getPoolOdds,
     hasActiveAgents,
+    fetchSettlementPrices,
     settleRound,
+    getTrackLeaderboard,
     buildSummary,
   };
 }
@@ -0,0 +1,102 @@
+import type { RuntimeConfig, TrackConfig } from '../config';
+import { coinFromSymbol, symbolForCoin } from './klineService';
+
+export const DEFAULT_SCHEDULE_COUNT = 10;
+export const MAX_SCHEDULE_COUNT = 100;
+
+export type RoundSlot = {
+  round_id: string;
+  track_id: string;
+  symbol: string;
+  start_time: string;
+  lock_time: string;
+  end_time: string;
+};
+
+export type ScheduledRound = RoundSlot & {
+  phase: 'upcoming' | 'betting' | 'locked';
+};
+
+export function roundIdFor(date: Date, trackId: string, symbol: string) {
+  const pad = (num: number) => String(num).padStart(2, '0');
+  const coin = (coinFromSymbol(symbol) ?? symbol).toLowerCase();
+  return `r_${trackId}_${coin}_${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}_${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}`;
+}
+
+// Slots are aligned to multiples of the track duration since the Unix epoch (UTC), so a 30m track
+// starts at :00 and :30 and a 4h track at 00:00, 04:00, ...
+export function slotStartMs(track: TrackConfig, timeMs: number) {
+  return Math.floor(timeMs / track.durationMs) * track.durationMs;
+}
+
+export function buildSlot(track: TrackConfig, symbol: string, startMs: number): RoundSlot {
+  const start = new Date(startMs);
+  return {
+    round_id: roundIdFor(start, track.id, symbol),
+    track_id: track.id,
+    symbol,
+    start_time: start.toISOString(),
+    lock_time: new Date(startMs + track.lockWindowMs).toISOString(),
+    end_time: new Date(startMs + track.durationMs).toISOString(),
+  };
+}
+
+export function slotAt(track: TrackConfig, symbol: string, timeMs: number): RoundSlot {
+  return buildSlot(track, symbol, slotStartMs(track, timeMs));
+}
+
+export function nextSlotStartMs(tracks: TrackConfig[], nowMs: number): number | null {
+  let next: number | null = null;
+  for (const track of tracks) {
+    const candidate = slotStartMs(track, nowMs) + track.durationMs;
+    next = next === null ? candidate : Math.min(next, candidate);
+  }
+  return next;
+}
+
+function phaseAt(slot: RoundSlot, nowMs: number): ScheduledRound['phase'] {
+  if (nowMs < Date.parse(slot.start_time)) return 'upcoming';
+  return nowMs < Date.parse(slot.lock_time) ? 'betting' : 'locked';
+}
+
+/**
+ * Current slot plus the next rounds across the selected tracks and symbols, ordered by start time
+ * and capped at `count`.
+ */
+export function listSchedule(
+  config: RuntimeConfig,
+  options: { nowMs?: number; count?: number; trackIds?: string[]; symbols?: string[] } = {}
+): ScheduledRound[] {
+  const nowMs = options.nowMs ?? Date.now();
+  const count = Math.min(
+    Math.max(1, Math.floor(options.count ?? DEFAULT_SCHEDULE_COUNT)),
+    MAX_SCHEDULE_COUNT
+  );
+  const tracks = options.trackIds
+    ? config.tracks.filter((track) => options.trackIds?.includes(track.id))
+    : config.tracks;
+  const symbols = options.symbols ?? config.assets.map(symbolForCoin);
+
+  const slots: ScheduledRound[] = [];
+  for (const track of tracks) {
+    let startMs = slotStartMs(track, nowMs);
+    for (let i = 0; i <= count; i += 1) {
+      for (const symbol of symbols) {
+        const slot = buildSlot(track, symbol, startMs);
+        slots.push({ ...slot, phase: phaseAt(slot, nowMs) });
+      }
+      startMs += track.durationMs;
+    }
+  }
+
+  return slots
+    .sort(
+      (a, b) =>
+        Date.parse(a.start_time) - Date.parse(b.start_time) ||
+        a.track_id.localeCompare(b.track_id) ||
+        a.symbol.localeCompare(b.symbol)
+    )
+    .slice(0, count);
+}
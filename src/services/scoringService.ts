@@ -0,0 +1,98 @@
+export type ScoringInput = {
+  direction: string;
+  confidence: number;
+  result: string;
+};
+
+export type ScoringOutcome = {
+  correct: boolean;
+  score_change: number;
+  reason: string;
+};
+
+export type ScoringStrategy = {
+  id: string;
+  description: string;
+  score(input: ScoringInput): ScoringOutcome;
+};
+
+export const DEFAULT_SCORING_STRATEGY = 'asymmetric';
+
+const win = (scoreChange: number): ScoringOutcome => ({
+  correct: true,
+  score_change: scoreChange,
+  reason: 'Correct',
+});
+
+const loss = (scoreChange: number, reason = 'High confidence failure'): ScoringOutcome => ({
+  correct: false,
+  score_change: -scoreChange,
+  reason,
+});
+
+const STRATEGIES: ScoringStrategy[] = [
+  {
+    id: 'asymmetric',
+    description: 'Win +confidence, miss -1.5×confidence.',
+    score: ({ direction, confidence, result }) =>
+      direction === result ? win(confidence) : loss(Math.round(confidence * 1.5)),
+  },
+  {
+    id: 'symmetric',
+    description: 'Win +confidence, miss -confidence.',
+    score: ({ direction, confidence, result }) =>
+      direction === result ? win(confidence) : loss(confidence),
+  },
+  {
+    id: 'confidence_squared',
+    description: 'Win +confidence²/100, miss -confidence²/100: low-confidence calls barely count.',
+    score: ({ direction, confidence, result }) => {
+      const points = Math.round((confidence * confidence) / 100);
+      return direction === result ? win(points) : loss(points);
+    },
+  },
+  {
+    id: 'flat_aware',
+    description:
+      'Like asymmetric, but a directional call on a FLAT round costs only 0.5×confidence.',
+    score: ({ direction, confidence, result }) => {
+      if (direction === result) return win(confidence);
+      if (result === 'FLAT') return loss(Math.round(confidence * 0.5), 'Market stayed flat');
+      return loss(Math.round(confidence * 1.5));
+    },
+  },
+];
+
+export const SCORING_STRATEGIES: ReadonlyMap<string, ScoringStrategy> = new Map(
+  STRATEGIES.map((strategy) => [strategy.id, strategy])
+);
+
+export function isScoringStrategy(id: unknown): id is string {
+  return typeof id === 'string' && SCORING_STRATEGIES.has(id);
+}
+
+export function getScoringStrategy(id: string | null | undefined): ScoringStrategy {
+  const strategy = SCORING_STRATEGIES.get(id ?? DEFAULT_SCORING_STRATEGY);
+  if (!strategy) {
+    throw new Error(`Unknown scoring strategy: ${id}`);
+  }
+  return strategy;
+}
+
+/**
+ * Lowest score any judgment could have earned on a round with this result. Forfeited commitments
+ * are charged this, so withholding a reveal never beats revealing, whatever the strategy.
+ */
+export function worstCaseScore(strategy: ScoringStrategy, result: string): number {
+  let worst = 0;
+  for (const direction of ['UP', 'DOWN', 'FLAT']) {
+    for (let confidence = 0; confidence <= 100; confidence += 1) {
+      worst = Math.min(worst, strategy.score({ direction, confidence, result }).score_change);
+    }
+  }
+  return worst;
+}
+
+export function listScoringStrategies() {
+  return STRATEGIES.map(({ id, description }) => ({ id, description }));
+}
@@ -0,0 +1,203 @@
+import type { RuntimeConfig } from '../config';
+import type { Env, Season, SeasonStanding } from '../types';
+
+// Subquery for tagging rows with the season that is active when the statement runs. Used inside
+// settlement batches so the tag and the agents.score update land in the same season.
+export const ACTIVE_SEASON_SQL =
+  "(SELECT id FROM seasons WHERE status = 'active' ORDER BY start_time DESC LIMIT 1)";
+
+export function seasonIdFor(number: number) {
+  return `s${number}`;
+}
+
+/**
+ * Latest season boundary at or before `nowMs` on the grid anchored at `anchorMs`, so a cron that
+ * was down for a while resumes on schedule instead of replaying empty seasons.
+ */
+export function alignedSeasonStartMs(anchorMs: number, lengthMs: number, nowMs: number) {
+  if (nowMs <= anchorMs) return anchorMs;
+  return anchorMs + Math.floor((nowMs - anchorMs) / lengthMs) * lengthMs;
+}
+
+export function createSeasonService(env: Env, config: RuntimeConfig) {
+  async function getActiveSeason(): Promise<Season | null> {
+    return (
+      (await env.DB.prepare(
+        "SELECT * FROM seasons WHERE status = 'active' ORDER BY start_time DESC LIMIT 1"
+      ).first<Season>()) ?? null
+    );
+  }
+
+  async function getSeason(id: string): Promise<Season | null> {
+    return (
+      (await env.DB.prepare('SELECT * FROM seasons WHERE id = ?').bind(id).first<Season>()) ??
+      null
+    );
+  }
+
+  async function listSeasons(): Promise<Season[]> {
+    const result = await env.DB.prepare('SELECT * FROM seasons ORDER BY number DESC').all<Season>();
+    return result.results ?? [];
+  }
+
+  function insertSeason(number: number, startMs: number) {
+    return env.DB.prepare(
+      "INSERT INTO seasons (id, number, name, status, start_time, end_time, baseline_score) VALUES (?, ?, ?, 'active', ?, ?, ?)"
+    ).bind(
+      seasonIdFor(number),
+      number,
+      `Season ${number}`,
+      new Date(startMs).toISOString(),
+      new Date(startMs + config.seasonLengthMs).toISOString(),
+      config.seasonBaselineScore
+    );
+  }
+
+  /**
+   * Called from cron. Opens the first season once `SEASON_START` (default: now) has passed, and
+   * when the active season has ended freezes its standings, resets scores to the baseline and opens
+   * the next one, all in one batch.
+   */
+  async function rolloverIfDue(
+    nowMs = Date.now()
+  ): Promise<{ closed: Season | null; opened: string } | null> {
+    const active = await getActiveSeason();
+    if (!active) {
+      const last = await env.DB.prepare(
+        'SELECT * FROM seasons ORDER BY number DESC LIMIT 1'
+      ).first<Season>();
+      if (last) return null;
+      const anchorMs = config.seasonStartMs ?? nowMs;
+      if (nowMs < anchorMs) return null;
+      const startMs = alignedSeasonStartMs(anchorMs, config.seasonLengthMs, nowMs);
+      // Score accumulated before seasons existed counts towards the first one.
+      await env.DB.batch([
+        insertSeason(1, startMs),
+        env.DB.prepare('UPDATE score_events SET season_id = ? WHERE season_id IS NULL').bind(
+          seasonIdFor(1)
+        ),
+        env.DB.prepare("UPDATE track_standings SET season_id = ? WHERE season_id = ''").bind(
+          seasonIdFor(1)
+        ),
+      ]);
+      return { closed: null, opened: seasonIdFor(1) };
+    }
+
+    const endMs = Date.parse(active.end_time);
+    if (nowMs < endMs) return null;
+
+    const frozenAt = new Date(nowMs).toISOString();
+    const nextNumber = active.number + 1;
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT INTO season_standings (season_id, rank, agent_id, name, score, rating, rounds, wins, frozen_at)
+         SELECT ?, ROW_NUMBER() OVER (ORDER BY a.score DESC, a.id), a.id, COALESCE(a.name, a.id), a.score,
+                a.rating, COALESCE(e.rounds, 0), COALESCE(e.wins, 0), ?
+         FROM agents a
+         LEFT JOIN (
+           SELECT agent_id, SUM(rounds) AS rounds, SUM(wins) AS wins
+           FROM track_standings
+           WHERE season_id = ?
+           GROUP BY agent_id
+         ) e ON e.agent_id = a.id
+         WHERE e.agent_id IS NOT NULL OR a.score != ?`
+      ).bind(active.id, frozenAt, active.id, active.baseline_score),
+      env.DB.prepare(
+        "UPDATE seasons SET status = 'closed', closed_at = ? WHERE id = ? AND status = 'active'"
+      ).bind(frozenAt, active.id),
+      env.DB.prepare('UPDATE agents SET score = ?').bind(config.seasonBaselineScore),
+      insertSeason(nextNumber, alignedSeasonStartMs(endMs, config.seasonLengthMs, nowMs)),
+    ]);
+    return { closed: active, opened: seasonIdFor(nextNumber) };
+  }
+
+  /**
+   * Closed seasons read the frozen standings; the active season ranks live scores of agents that
+   * scored in it (or whose score differs from the baseline). Rounds and wins come from
+   * track_standings, which outlives score_events trimming.
+   */
+  async function getSeasonLeaderboard(season: Season, limit = 100): Promise<SeasonStanding[]> {
+    if (season.status === 'closed') {
+      const result = await env.DB.prepare(
+        'SELECT * FROM season_standings WHERE season_id = ? ORDER BY rank ASC LIMIT ?'
+      )
+        .bind(season.id, limit)
+        .all<SeasonStanding>();
+      return result.results ?? [];
+    }
+
+    const result = await env.DB.prepare(
+      `SELECT a.id AS agent_id, COALESCE(a.name, a.id) AS name, a.score AS score, a.rating AS rating,
+              COALESCE(e.rounds, 0) AS rounds, COALESCE(e.wins, 0) AS wins
+       FROM agents a
+       LEFT JOIN (
+         SELECT agent_id, SUM(rounds) AS rounds, SUM(wins) AS wins
+         FROM track_standings
+         WHERE season_id = ?
+         GROUP BY agent_id
+       ) e ON e.agent_id = a.id
+       WHERE e.agent_id IS NOT NULL OR a.score != ?
+       ORDER BY a.score DESC, a.id
+       LIMIT ?`
+    )
+      .bind(season.id, season.baseline_score, limit)
+      .all<Omit<SeasonStanding, 'season_id' | 'rank' | 'frozen_at'>>();
+    return (result.results ?? []).map((row, index) => ({
+      season_id: season.id,
+      rank: index + 1,
+      agent_id: row.agent_id,
+      name: row.name,
+      score: Number(row.score ?? 0),
+      rating: row.rating ?? null,
+      rounds: Number(row.rounds ?? 0),
+      wins: Number(row.wins ?? 0),
+      frozen_at: null,
+    }));
+  }
+
+  async function updateSeason(
+    id: string,
+    changes: { name?: unknown; end_time?: unknown }
+  ): Promise<Season> {
+    const season = await getSeason(id);
+    if (!season) {
+      throw new Error('Season not found');
+    }
+    if (season.status !== 'active') {
+      throw new Error('Only the active season can be changed');
+    }
+    const fields: string[] = [];
+    const values: unknown[] = [];
+    if (changes.name !== undefined) {
+      if (typeof changes.name !== 'string' || changes.name.trim() === '') {
+        throw new Error('Invalid name');
+      }
+      fields.push('name = ?');
+      values.push(changes.name.trim());
+    }
+    if (changes.end_time !== undefined) {
+      const endMs = typeof changes.end_time === 'string' ? Date.parse(changes.end_time) : NaN;
+      if (!Number.isFinite(endMs) || endMs <= Date.parse(season.start_time)) {
+        throw new Error('end_time must be an ISO time after start_time');
+      }
+      fields.push('end_time = ?');
+      values.push(new Date(endMs).toISOString());
+    }
+    if (fields.length === 0) {
+      throw new Error('No fields to update');
+    }
+    await env.DB.prepare(`UPDATE seasons SET ${fields.join(', ')} WHERE id = ?`)
+      .bind(...values, id)
+      .run();
+    return (await getSeason(id)) as Season;
+  }
+
+  return {
+    getActiveSeason,
+    getSeason,
+    listSeasons,
+    rolloverIfDue,
+    getSeasonLeaderboard,
+    updateSeason,
+  };
+}
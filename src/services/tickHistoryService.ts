@@ -0,0 +1,131 @@
+export const TICK_BUCKET_MS = 1000;
+export const MAX_HISTORY_POINTS = 20_000;
+
+const DEFAULT_RETENTION_HOURS = 48;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const STORAGE_BATCH = 128;
+
+export type TickPoint = {
+  t: number;
+  price: number;
+};
+
+export type TickHistoryQuery = {
+  coin: string;
+  from: number;
+  to: number;
+  bucket_ms: number;
+  points: TickPoint[];
+  truncated: boolean;
+};
+
+// Subset of DurableObjectStorage used here, so tests can pass a Map-backed fake.
+export type TickStorage = {
+  put(entries: Record<string, TickPoint>): Promise<void>;
+  list<T>(options: {
+    prefix: string;
+    start?: string;
+    end?: string;
+    limit?: number;
+  }): Promise<Map<string, T>>;
+  delete(keys: string[]): Promise<number>;
+};
+
+export function getTickRetentionMs(raw: string | undefined) {
+  const parsed = Number(raw);
+  const hours = Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_RETENTION_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+export function tickBucketMs(timeMs: number) {
+  return Math.floor(timeMs / TICK_BUCKET_MS) * TICK_BUCKET_MS;
+}
+
+// Zero-padded so lexicographic key order matches time order in storage.list().
+export function tickKey(coin: string, bucketMs: number) {
+  return `tick:${coin}:${String(bucketMs).padStart(15, '0')}`;
+}
+
+export function parseTimeParam(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  const trimmed = value.trim();
+  const numeric = Number(trimmed);
+  if (Number.isFinite(numeric)) return numeric;
+  const parsed = Date.parse(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Keeps the last price seen in each 1s bucket, buffering writes in memory until flush().
+ */
+export function createTickHistory(storage: TickStorage, options: { retentionMs: number }) {
+  const pending = new Map<string, TickPoint>();
+  let lastPruneAt = 0;
+
+  function record(coin: string, price: number, atMs = Date.now()) {
+    if (!Number.isFinite(price) || price <= 0) return;
+    const bucket = tickBucketMs(atMs);
+    pending.set(tickKey(coin, bucket), { t: bucket, price });
+  }
+
+  function hasPending() {
+    return pending.size > 0;
+  }
+
+  async function flush() {
+    if (pending.size === 0) return;
+    const entries = Object.fromEntries(pending);
+    pending.clear();
+    const keys = Object.keys(entries);
+    for (let i = 0; i < keys.length; i += STORAGE_BATCH) {
+      const chunk: Record<string, TickPoint> = {};
+      for (const key of keys.slice(i, i + STORAGE_BATCH)) {
+        chunk[key] = entries[key];
+      }
+      await storage.put(chunk);
+    }
+  }
+
+  async function prune(coins: string[], nowMs = Date.now()) {
+    if (nowMs - lastPruneAt < PRUNE_INTERVAL_MS) return;
+    lastPruneAt = nowMs;
+    const cutoff = tickBucketMs(nowMs - options.retentionMs);
+    for (const coin of coins) {
+      const prefix = `tick:${coin}:`;
+      for (;;) {
+        const expired = await storage.list<TickPoint>({
+          prefix,
+          end: tickKey(coin, cutoff),
+          limit: STORAGE_BATCH,
+        });
+        if (expired.size === 0) break;
+        await storage.delete([...expired.keys()]);
+        if (expired.size < STORAGE_BATCH) break;
+      }
+    }
+  }
+
+  async function query(coin: string, fromMs: number, toMs: number): Promise<TickHistoryQuery> {
+    await flush();
+    const from = tickBucketMs(fromMs);
+    const to = tickBucketMs(toMs);
+    const rows = await storage.list<TickPoint>({
+      prefix: `tick:${coin}:`,
+      start: tickKey(coin, from),
+      end: tickKey(coin, to + TICK_BUCKET_MS),
+      limit: MAX_HISTORY_POINTS + 1,
+    });
+    const points = [...rows.values()];
+    const truncated = points.length > MAX_HISTORY_POINTS;
+    return {
+      coin,
+      from,
+      to,
+      bucket_ms: TICK_BUCKET_MS,
+      points: truncated ? points.slice(0, MAX_HISTORY_POINTS) : points,
+      truncated,
+    };
+  }
+
+  return { record, hasPending, flush, prune, query };
+}
@@ -1,17 +1,35 @@
 export type Env = {
   DB: D1Database;
   PRICE_FEED: DurableObjectNamespace;
+  EVENT_HUB?: DurableObjectNamespace;
+  ROUND_COORDINATOR: DurableObjectNamespace;
   ROUND_DURATION_MIN?: string;
   PRICE_REFRESH_MS?: string;
   FLAT_THRESHOLD_PCT?: string;
   HL_WS_URL?: string;
   HL_FEED?: string;
   HL_COIN?: string;
+  ASSETS?: string;
+  TRACKS?: string;
   HL_INFO_URL?: string;
+  PRICE_SOURCES?: string;
+  PRICE_OUTLIER_BAND_PCT?: string;
+  BINANCE_WS_URL?: string;
+  COINBASE_API_URL?: string;
   PRICE_STALE_MS?: string;
+  TICK_RETENTION_HOURS?: string;
   ADMIN_API_TOKEN?: string;
   LOCK_WINDOW_MIN?: string;
   SIGNATURE_WINDOW_SEC?: string;
+  SETTLEMENT_TOLERANCE_SEC?: string;
+  SCORING_STRATEGY?: string;
+  POOL_STARTING_BANKROLL?: string;
+  POOL_MIN_STAKE?: string;
+  POOL_HOUSE_CUT_PCT?: string;
+  HOUSE_AGENTS?: string;
+  SEASON_START?: string;
+  SEASON_LENGTH_DAYS?: string;
+  SEASON_BASELINE_SCORE?: string;
   KLINE_DEFAULT_INTERVALS?: string;
   KLINE_DEFAULT_LIMIT?: string;
   KLINE_MAX_LIMIT?: string;
@@ -32,6 +50,12 @@ export type Agent = {
   status: string;
   score: number;
   prompt: string;
+  rating?: number | null;
+  rating_rd?: number | null;
+  rating_volatility?: number | null;
+  rated_rounds?: number | null;
+  bankroll?: number | null;
+  bankroll_topups?: number | null;
   secret?: string | null;
   claim_token?: string | null;
   verification_code?: string | null;
@@ -40,36 +64,111 @@ export type Agent = {
 
 export type Round = {
   round_id: string;
+  track_id: string;
   symbol: string;
   duration_min: number;
   start_price: number;
   end_price: number | null;
   status: string;
   start_time: string;
+  lock_time: string;
   end_time: string;
+  submission_mode?: SubmissionMode | null;
+  scoring_strategy?: string | null;
+  game_mode?: GameMode | null;
+  void_reason?: string | null;
+  voided_at?: string | null;
+  scored_events?: number | null;
 };
 
+export type SubmissionMode = 'open' | 'commit_reveal';
+
+export type GameMode = 'points' | 'pool';
+
+export type PoolOdds = {
+  pools: Record<'UP' | 'DOWN' | 'FLAT', number>;
+  total_staked: number;
+  house_cut_pct: number;
+  // Decimal odds: chips returned per chip staked if that side wins. Null for an empty side.
+  odds: Record<'UP' | 'DOWN' | 'FLAT', number | null>;
+  implied_prob: Record<'UP' | 'DOWN' | 'FLAT', number | null>;
+};
+
+export type CommitStatus = 'committed' | 'revealed' | 'mismatched' | 'forfeited';
+
+export type JudgmentCommit = {
+  round_id: string;
+  agent_id: string;
+  commit_hash: string;
+  stake?: number | null;
+  status: CommitStatus;
+  committed_at: string;
+  revealed_at?: string | null;
+};
+
+export type VoidReason = 'no_submissions' | 'price_unavailable' | 'admin';
+
+export type RoundEvent = {
+  id?: number;
+  round_id: string;
+  track_id: string;
+  symbol: string;
+  type: string;
+  payload: string;
+  timestamp: string;
+};
+
+// ReasonRule v2 indicator spec: `indicator` names it, the other keys are its parameters.
+export type IndicatorParams = { indicator: string; [param: string]: string | number };
+
+// Composite rule tree: v1 catalog patterns on their own timeframes, combined with and/or/not.
+export type ConditionLeaf = { pattern: string; timeframe: string };
+export type ReasonCondition =
+  | ConditionLeaf
+  | { and: ReasonCondition[] }
+  | { or: ReasonCondition[] }
+  | { not: ReasonCondition };
+
 export type ReasonRule = {
   timeframe: string;
+  // v1: a catalog pattern id; v2: the indicator's `indicator.<name>.v2` id;
+  // composite: `composite.v1`.
   pattern: string;
   direction: 'UP' | 'DOWN' | 'FLAT';
   horizon_bars: number;
+  // v2 only.
+  indicator?: IndicatorParams;
+  // Composite only; `timeframe` then sets the base close and the horizon.
+  condition?: ReasonCondition;
 };
 
 export type Judgment = {
   id?: number;
   round_id: string;
   agent_id: string;
+  symbol?: string | null;
   direction: string;
   confidence: number;
   comment: string;
   timestamp: string;
+  prob_up?: number | null;
+  prob_down?: number | null;
+  prob_flat?: number | null;
+  stake?: number | null;
+  target_price?: number | null;
+  range_low?: number | null;
+  range_high?: number | null;
+  target_error_pct?: number | null;
+  range_hit?: number | boolean | null;
   intervals?: string[] | string | null;
   analysis_start_time?: string | null;
   analysis_end_time?: string | null;
   reason_rule?: ReasonRule | string | null;
   reason_timeframe?: string | null;
   reason_pattern?: string | null;
+  reason_params?: string | null;
+  reason_signature?: string | null;
+  reason_leaf_values?: string | null;
   reason_direction?: string | null;
   reason_horizon_bars?: number | null;
   reason_t_close_ms?: number | null;
@@ -88,8 +187,15 @@ export type Judgment = {
 export type Verdict = {
   id?: number;
   round_id: string;
+  track_id?: string | null;
+  symbol?: string | null;
   result: string;
   delta_pct: number;
+  start_price?: number | null;
+  end_price?: number | null;
+  price_source?: string | null;
+  start_close_ms?: number | null;
+  end_close_ms?: number | null;
   timestamp: string;
 };
 
@@ -97,11 +203,19 @@ export type ScoreEvent = {
   id?: number;
   agent_id: string;
   round_id: string;
+  track_id?: string | null;
   confidence: number;
   correct: number;
   score_change: number;
   reason: string;
   timestamp: string;
+  brier?: number | null;
+  log_loss?: number | null;
+  season_id?: string | null;
+  strategy?: string | null;
+  target_error_pct?: number | null;
+  range_hit?: number | null;
+  range_width_pct?: number | null;
 };
 
 export type FlipCard = {
@@ -114,6 +228,8 @@ export type FlipCard = {
   result: string;
   score_change: number;
   round_id: string;
+  track_id?: string | null;
+  symbol?: string | null;
   timestamp: string;
 };
 
@@ -164,21 +280,89 @@ export type ReasonStatsResponse = {
   by_pattern: Array<ReasonStatsRow & { pattern: string }>;
 };
 
+export type LeaderboardEntry = {
+  agent_id: string;
+  name: string;
+  score: number;
+  rounds: number;
+  wins: number;
+  rating: number;
+  rating_rd: number;
+};
+
+export type LeaderboardSort = 'score' | 'rating';
+
+export type SeasonStatus = 'active' | 'closed';
+
+export type Season = {
+  id: string;
+  number: number;
+  name: string | null;
+  status: SeasonStatus;
+  start_time: string;
+  end_time: string;
+  baseline_score: number;
+  closed_at: string | null;
+};
+
+export type SeasonStanding = {
+  season_id: string;
+  rank: number;
+  agent_id: string;
+  name: string;
+  score: number;
+  rating: number | null;
+  rounds: number;
+  wins: number;
+  frozen_at: string | null;
+};
+
+export type RatingHistoryEntry = {
+  id?: number;
+  agent_id: string;
+  round_id: string;
+  track_id: string | null;
+  rating: number;
+  rd: number;
+  volatility: number;
+  rating_change: number;
+  opponents: number;
+  timestamp: string;
+};
+
 export type Summary = {
   server_time: string;
+  track_id: string;
+  tracks: string[];
+  symbol: string;
+  symbols: string[];
   live: null | {
     round_id: string;
+    track_id: string;
     symbol: string;
     status: string;
     duration_min: number;
     start_price: number;
     start_time: string;
+    lock_time: string;
     end_time: string;
     countdown_ms: number;
     current_price: number;
+    submission_mode: SubmissionMode;
+    commit_count: number | null;
+    reveal_count: number | null;
+    game_mode: GameMode;
+    pool: PoolOdds | null;
     judgments: Judgment[];
   };
   lastVerdict: Verdict | null;
+  voided: Array<{
+    round_id: string;
+    start_time: string;
+    end_time: string;
+    void_reason: string | null;
+    voided_at: string | null;
+  }>;
   highlight: FlipCard | null;
   agents: Array<Agent & { recent_rounds: number; recent_high_conf_failures: number }>;
   feed: FlipCard[];
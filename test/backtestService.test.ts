@@ -0,0 +1,135 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getRuntimeConfig } from '../src/config.ts';
+import {
+  backtestRule,
+  normalizeBacktestRequest,
+  type KlineRequest,
+} from '../src/services/backtestService.ts';
+import type { Env, Kline } from '../src/types.ts';
+
+const INTERVAL_MS = 15 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+
+// 15m candles repeating [hammer at 100, 101, 102, 103]: each hammer is followed by a +3% move
+// over 3 bars, every other bar by a drop.
+function cycleCandles(count: number): Kline[] {
+  return Array.from({ length: count }, (_, k) => {
+    const close = 100 + (k % 4);
+    const hammer = k % 4 === 0;
+    return {
+      open_time: T0 + k * INTERVAL_MS,
+      close_time: T0 + (k + 1) * INTERVAL_MS - 1,
+      open: hammer ? 99.9 : close - 0.5,
+      high: hammer ? 100.05 : close + 0.1,
+      low: hammer ? 99 : close - 0.6,
+      close,
+      volume: 1,
+      trades_count: 1,
+    };
+  });
+}
+
+function fakeSource(candles: Kline[]) {
+  const requests: KlineRequest[] = [];
+  const source = async (request: KlineRequest) => {
+    requests.push(request);
+    return candles
+      .filter((kline) => kline.open_time >= request.startTime)
+      .filter((kline) => kline.open_time <= request.endTime)
+      .slice(-request.limit);
+  };
+  return { source, requests };
+}
+
+const hammerRule = {
+  timeframe: '15m',
+  pattern: 'candle.hammer.v1',
+  direction: 'UP',
+  horizon_bars: 3,
+};
+
+test('backtestRule compares trigger bars against the unconditional baseline', async () => {
+  const env = { KLINE_MAX_LIMIT: '10' } as unknown as Env;
+  const { source, requests } = fakeSource(cycleCandles(40));
+  const result = await backtestRule(
+    env,
+    getRuntimeConfig(env),
+    { reason_rule: hammerRule, coin: 'btc', start_time: T0, end_time: T0 + 40 * INTERVAL_MS },
+    { source, nowMs: T0 + 50 * INTERVAL_MS }
+  );
+
+  // Pages of 10 candles from one warm-up bar before the range to 3 horizon bars past it.
+  assert.equal(requests.length, 5);
+  assert.equal(requests[0].startTime, T0 - INTERVAL_MS);
+  assert.ok(requests.every((request) => request.limit === 10 && request.coin === 'BTC'));
+
+  assert.equal(result.bars, 37);
+  assert.equal(result.triggers, 10);
+  assert.equal(result.hits, 10);
+  assert.equal(result.hit_rate, 1);
+  assert.equal(result.avg_delta_pct, 3);
+  assert.equal(result.baseline_hit_rate, 0.2703);
+  assert.equal(result.edge, 0.7297);
+  assert.deepEqual(result.outcomes, { UP: 10, DOWN: 27, FLAT: 0 });
+});
+
+test('backtestRule ignores candles that have not closed yet', async () => {
+  const env = {} as Env;
+  const { source } = fakeSource(cycleCandles(40));
+  const result = await backtestRule(
+    env,
+    getRuntimeConfig(env),
+    { reason_rule: { ...hammerRule, direction: 'DOWN' }, start_time: T0 },
+    { source, nowMs: T0 + 21 * INTERVAL_MS - 1 }
+  );
+
+  // Candles 0..20 are closed, so bars 0..17 have a horizon close.
+  assert.equal(result.bars, 18);
+  assert.equal(result.triggers, 5);
+  assert.equal(result.hits, 0);
+  assert.equal(result.hit_rate, 0);
+  assert.equal(result.baseline_hit_rate, 0.7222);
+});
+
+test('normalizeBacktestRequest validates the rule, coin and range', () => {
+  const config = getRuntimeConfig({} as Env);
+  const now = T0 + 100 * INTERVAL_MS;
+  const payload = { reason_rule: hammerRule, symbol: 'BTCUSDT', start_time: T0 };
+  assert.deepEqual(normalizeBacktestRequest(config, payload, now), {
+    coin: 'BTC',
+    rule: hammerRule,
+    startMs: T0,
+    endMs: now,
+  });
+  assert.throws(
+    () => normalizeBacktestRequest(config, { reason_rule: hammerRule }, now),
+    /Missing start_time/
+  );
+  assert.throws(
+    () => normalizeBacktestRequest(config, { reason_rule: hammerRule, start_time: now + 1 }, now),
+    /start_time must be before end_time/
+  );
+  assert.throws(
+    () =>
+      normalizeBacktestRequest(
+        config,
+        { reason_rule: hammerRule, coin: 'DOGE', start_time: T0 },
+        now
+      ),
+    /Unsupported coin/
+  );
+  assert.throws(
+    () =>
+      normalizeBacktestRequest(
+        config,
+        { reason_rule: { ...hammerRule, timeframe: '1m' }, start_time: T0 - 5000 * 60_000 },
+        now
+      ),
+    /exceeds 5000 bars/
+  );
+  assert.throws(
+    () => normalizeBacktestRequest(config, { reason_rule: { ...hammerRule, pattern: 'x' } }, now),
+    /reason_rule.pattern/
+  );
+});
@@ -0,0 +1,79 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildCalibrationReport,
+  getAgentCalibration,
+  wilsonInterval,
+} from '../src/services/calibrationService.ts';
+import type { Env } from '../src/types.ts';
+
+test('wilsonInterval brackets the observed rate and stays within [0, 1]', () => {
+  assert.equal(wilsonInterval(0, 0), null);
+  const interval = wilsonInterval(8, 10)!;
+  assert.ok(interval.low < 0.8 && interval.high > 0.8);
+  assert.ok(Math.abs(interval.low - 0.4902) < 1e-3);
+  assert.ok(Math.abs(interval.high - 0.9433) < 1e-3);
+
+  const perfect = wilsonInterval(5, 5)!;
+  assert.equal(perfect.high, 1);
+  assert.ok(perfect.low > 0.5);
+});
+
+test('buildCalibrationReport fills all deciles and weights ECE by sample size', () => {
+  const report = buildCalibrationReport([
+    { bucket: 5, n: 10, hits: 5, avg_confidence: 55 },
+    { bucket: 9, n: 30, hits: 18, avg_confidence: 90 },
+  ]);
+  assert.equal(report.buckets.length, 10);
+  assert.equal(report.buckets[0].bucket, '0-10');
+  assert.equal(report.buckets[0].hit_rate, null);
+  assert.equal(report.buckets[9].bucket, '90-100');
+  assert.equal(report.buckets[9].hit_rate, 0.6);
+  assert.equal(report.n, 40);
+  assert.equal(report.hit_rate, 0.575);
+  assert.equal(report.avg_confidence, 81.25);
+  // (10 * |0.5 - 0.55| + 30 * |0.6 - 0.9|) / 40
+  assert.equal(report.ece, 0.2375);
+
+  const empty = buildCalibrationReport([]);
+  assert.equal(empty.n, 0);
+  assert.equal(empty.ece, null);
+});
+
+test('getAgentCalibration joins verdicts within the requested window', async () => {
+  let boundArgs: unknown[] = [];
+  let executedSql = '';
+  const env = {
+    DB: {
+      prepare(sql: string) {
+        executedSql = sql;
+        return {
+          bind(...args: unknown[]) {
+            boundArgs = args;
+            return this;
+          },
+          async all() {
+            return { results: [{ bucket: '7', n: '4', hits: '3', avg_confidence: '75' }] };
+          },
+        };
+      },
+    },
+  } as unknown as Env;
+
+  const result = await getAgentCalibration(env, {
+    agentId: 'alpha',
+    since: '2026-02-01T00:00:00Z',
+    until: '2026-02-02T00:00:00Z',
+  });
+  assert.match(executedSql, /JOIN verdicts v ON v.round_id = j.round_id/);
+  assert.deepEqual(boundArgs, ['alpha', '2026-02-01T00:00:00.000Z', '2026-02-02T00:00:00.000Z']);
+  assert.equal(result.agent_id, 'alpha');
+  assert.equal(result.buckets[7].n, 4);
+  assert.equal(result.hit_rate, 0.75);
+  assert.equal(result.ece, 0);
+
+  await assert.rejects(
+    getAgentCalibration(env, { agentId: 'alpha', since: '2026-02-02', until: '2026-02-01' }),
+    /since must be before until/
+  );
+});
@@ -0,0 +1,140 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { conditionSignature } from '../src/services/compositeRuleService.ts';
+import { intervalToMs } from '../src/services/klineService.ts';
+import {
+  evaluateReasonRuleOnSubmit,
+  normalizeReasonRule,
+} from '../src/services/reasonRuleService.ts';
+import type { Env } from '../src/types.ts';
+
+const base = { timeframe: '15m', direction: 'UP', horizon_bars: 4 };
+
+// Candles on the interval grid with steadily rising closes; records the intervals requested.
+function mockRisingCandles() {
+  const originalFetch = globalThis.fetch;
+  const intervals: string[] = [];
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    const { req } = JSON.parse(String(init?.body));
+    intervals.push(req.interval);
+    const intervalMs = intervalToMs(req.interval);
+    const candles = [];
+    let t = Math.floor(req.startTime / intervalMs) * intervalMs;
+    for (; t + intervalMs - 1 <= req.endTime; t += intervalMs) {
+      const close = 100 + candles.length;
+      const T = t + intervalMs - 1;
+      candles.push({ t, T, o: close - 0.5, h: close + 1, l: close - 1, c: close, v: 1 });
+    }
+    return new Response(JSON.stringify(candles), { status: 200 });
+  }) as typeof fetch;
+  return { intervals, restore: () => (globalThis.fetch = originalFetch) };
+}
+
+test('normalizeReasonRule canonicalizes composite conditions', () => {
+  const rule = normalizeReasonRule(
+    {
+      ...base,
+      condition: {
+        and: [
+          { not: { pattern: 'indicator.ema20_lt_ema50.v1', timeframe: '1H' } },
+          { pattern: 'candle.hammer.v1' },
+        ],
+      },
+    },
+    { allowedIntervals: ['15m', '1h'] }
+  );
+  assert.equal(rule.pattern, 'composite.v1');
+  assert.deepEqual(rule.condition, {
+    and: [
+      { pattern: 'candle.hammer.v1', timeframe: '15m' },
+      { not: { pattern: 'indicator.ema20_lt_ema50.v1', timeframe: '1h' } },
+    ],
+  });
+
+  // Operand order does not change the signature.
+  const swapped = normalizeReasonRule({
+    ...base,
+    condition: {
+      and: [
+        { pattern: 'candle.hammer.v1', timeframe: '15m' },
+        { not: { pattern: 'indicator.ema20_lt_ema50.v1', timeframe: '1h' } },
+      ],
+    },
+  });
+  assert.equal(
+    conditionSignature(swapped.condition!),
+    'and(15m:candle.hammer.v1,not(1h:indicator.ema20_lt_ema50.v1))'
+  );
+  assert.equal(conditionSignature(swapped.condition!), conditionSignature(rule.condition!));
+});
+
+test('normalizeReasonRule enforces composite limits', () => {
+  const leaf = { pattern: 'candle.doji.v1' };
+  const invalid: Array<[unknown, RegExp]> = [
+    [{ and: [leaf] }, /and needs at least 2 operands/],
+    [{ xor: [leaf, leaf] }, /nodes are/],
+    [{ and: [leaf, leaf], or: [leaf, leaf] }, /nodes are/],
+    [{ pattern: 'indicator.rsi.v2' }, /Invalid reason_rule.condition pattern/],
+    [{ pattern: 'candle.doji.v1', timeframe: '2m' }, /Invalid reason_rule.condition timeframe/],
+    [{ pattern: 'candle.doji.v1', direction: 'UP' }, /leaves take only pattern and timeframe/],
+    [{ and: [leaf, { or: [leaf, { not: { not: leaf } }] }] }, /exceeds depth 4/],
+    [{ or: Array.from({ length: 9 }, () => leaf) }, /at most 8 patterns/],
+  ];
+  for (const [condition, message] of invalid) {
+    assert.throws(() => normalizeReasonRule({ ...base, condition }), message);
+  }
+  assert.throws(
+    () => normalizeReasonRule({ ...base, pattern: 'candle.doji.v1', condition: leaf }),
+    /replaces reason_rule.pattern/
+  );
+  assert.throws(
+    () =>
+      normalizeReasonRule(
+        { ...base, condition: { pattern: 'candle.doji.v1', timeframe: '4h' } },
+        { allowedIntervals: ['15m'] }
+      ),
+    /condition timeframes must be included in intervals/
+  );
+});
+
+test('evaluateReasonRuleOnSubmit evaluates each leaf on its own timeframe', async () => {
+  const { intervals, restore } = mockRisingCandles();
+  try {
+    const rule = normalizeReasonRule({
+      ...base,
+      condition: {
+        and: [
+          { pattern: 'indicator.ema20_gt_ema50.v1' },
+          { not: { pattern: 'indicator.ema20_lt_ema50.v1', timeframe: '1h' } },
+          {
+            or: [
+              { pattern: 'indicator.rsi14_gt_70.v1', timeframe: '1h' },
+              { pattern: 'candle.doji.v1' },
+            ],
+          },
+        ],
+      },
+    });
+    const evaluation = await evaluateReasonRuleOnSubmit(
+      { ASSETS: 'BTC' } as Env,
+      rule,
+      '2026-01-01T12:07:30Z',
+      'BTC'
+    );
+
+    assert.equal(evaluation.t_close_ms, Date.UTC(2026, 0, 1, 12, 0) - 1);
+    assert.equal(evaluation.target_close_ms, evaluation.t_close_ms + 4 * 15 * 60_000);
+    assert.deepEqual(evaluation.leaf_values, [
+      { pattern: 'indicator.ema20_gt_ema50.v1', timeframe: '15m', holds: true },
+      { pattern: 'indicator.ema20_lt_ema50.v1', timeframe: '1h', holds: false },
+      { pattern: 'candle.doji.v1', timeframe: '15m', holds: false },
+      { pattern: 'indicator.rsi14_gt_70.v1', timeframe: '1h', holds: true },
+    ]);
+    assert.equal(evaluation.pattern_holds, true);
+    // One request per timeframe; the base close comes from the rule timeframe's candles.
+    assert.deepEqual(intervals.sort(), ['15m', '1h']);
+    assert.equal(evaluation.base_close, 160);
+  } finally {
+    restore();
+  }
+});
@@ -0,0 +1,105 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getRuntimeConfig, getTrack } from '../src/config.ts';
+import type { Env } from '../src/types.ts';
+
+test('getRuntimeConfig falls back to a single standard track', () => {
+  const config = getRuntimeConfig({ ROUND_DURATION_MIN: '30', LOCK_WINDOW_MIN: '10' } as Env);
+  assert.equal(config.tracks.length, 1);
+  assert.equal(config.tracks[0].id, 'standard');
+  assert.equal(config.tracks[0].durationMs, 30 * 60 * 1000);
+  assert.equal(config.tracks[0].lockWindowMs, 10 * 60 * 1000);
+  assert.equal(config.tracks[0].flatThresholdPct, 0.2);
+});
+
+test('getRuntimeConfig parses TRACKS and skips invalid entries', () => {
+  const config = getRuntimeConfig({
+    TRACKS: JSON.stringify([
+      { id: 'sprint', duration_min: 5, lock_window_min: 2, flat_threshold_pct: 0.05 },
+      { id: 'Swing', duration_min: 240, lock_window_min: 60, submission_mode: 'commit_reveal' },
+      { id: 'broken', duration_min: 5, lock_window_min: 10 },
+      { id: 'sprint', duration_min: 10, lock_window_min: 2 },
+    ]),
+  } as Env);
+  assert.deepEqual(
+    config.tracks.map((track) => track.id),
+    ['sprint', 'swing']
+  );
+  assert.equal(config.tracks[0].flatThresholdPct, 0.05);
+  assert.equal(config.tracks[1].flatThresholdPct, 0.2);
+  assert.equal(config.tracks[0].submissionMode, 'open');
+  assert.equal(config.tracks[1].submissionMode, 'commit_reveal');
+  assert.equal(getTrack(config, 'swing').durationMin, 240);
+  assert.equal(getTrack(config, null).id, 'sprint');
+  assert.throws(() => getTrack(config, 'standard'), /Unknown track/);
+});
+
+test('getRuntimeConfig parses ASSETS', () => {
+  assert.deepEqual(getRuntimeConfig({ ASSETS: 'btc, eth,SOL,eth' } as Env).assets, [
+    'BTC',
+    'ETH',
+    'SOL',
+  ]);
+  assert.deepEqual(getRuntimeConfig({} as Env).assets, ['BTC']);
+});
+
+test('getRuntimeConfig scales round retention with the number of streams', () => {
+  const single = getRuntimeConfig({} as Env);
+  const tracks = JSON.stringify([
+    { id: 'standard', duration_min: 30, lock_window_min: 10 },
+    { id: 'swing', duration_min: 240, lock_window_min: 60 },
+  ]);
+  const multi = getRuntimeConfig({ ASSETS: 'BTC,ETH,SOL', TRACKS: tracks } as Env);
+  assert.equal(multi.roundLimit, single.roundLimit * 6);
+});
+
+test('getRuntimeConfig parses season settings', () => {
+  const config = getRuntimeConfig({
+    SEASON_START: '2026-01-01T00:00:00Z',
+    SEASON_LENGTH_DAYS: '14',
+    SEASON_BASELINE_SCORE: '1000',
+  } as Env);
+  assert.equal(config.seasonStartMs, Date.parse('2026-01-01T00:00:00Z'));
+  assert.equal(config.seasonLengthMs, 14 * 24 * 60 * 60 * 1000);
+  assert.equal(config.seasonBaselineScore, 1000);
+
+  const defaults = getRuntimeConfig({ SEASON_START: 'soon' } as Env);
+  assert.equal(defaults.seasonStartMs, null);
+  assert.equal(defaults.seasonLengthDays, 30);
+  assert.equal(defaults.seasonBaselineScore, 0);
+});
+
+test('getRuntimeConfig selects scoring strategies globally and per track', () => {
+  const config = getRuntimeConfig({
+    SCORING_STRATEGY: 'symmetric',
+    TRACKS: JSON.stringify([
+      { id: 'sprint', duration_min: 5, lock_window_min: 2, scoring: 'flat_aware' },
+      { id: 'standard', duration_min: 30, lock_window_min: 10 },
+      { id: 'swing', duration_min: 240, lock_window_min: 60, scoring: 'nope' },
+    ]),
+  } as Env);
+  assert.equal(config.scoringStrategy, 'symmetric');
+  assert.deepEqual(
+    config.tracks.map((track) => track.scoringStrategy),
+    ['flat_aware', 'symmetric', 'symmetric']
+  );
+  assert.equal(getRuntimeConfig({ SCORING_STRATEGY: 'nope' } as Env).scoringStrategy, 'asymmetric');
+});
+
+test('getRuntimeConfig reads per-track game modes and pool settings', () => {
+  const config = getRuntimeConfig({
+    POOL_HOUSE_CUT_PCT: '150',
+    POOL_MIN_STAKE: '25',
+    TRACKS: JSON.stringify([
+      { id: 'sprint', duration_min: 5, lock_window_min: 2, game_mode: 'pool' },
+      { id: 'standard', duration_min: 30, lock_window_min: 10, game_mode: 'casino' },
+    ]),
+  } as Env);
+  assert.deepEqual(
+    config.tracks.map((track) => track.gameMode),
+    ['pool', 'points']
+  );
+  assert.equal(config.poolHouseCutPct, 100);
+  assert.equal(config.poolMinStake, 25);
+  assert.equal(config.poolStartingBankroll, 1000);
+});
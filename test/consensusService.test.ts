@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildConsensus, getRoundConsensus } from '../src/services/consensusService.ts';
+import type { Env, Round } from '../src/types.ts';
+
+test('buildConsensus counts votes and weights them by confidence and by rating', () => {
+  const consensus = buildConsensus([
+    { direction: 'UP', confidence: 60, rating: 1500 },
+    { direction: 'UP', confidence: 50, rating: 1500 },
+    { direction: 'DOWN', confidence: 90, rating: 1900 },
+  ]);
+  assert.equal(consensus.total, 3);
+  assert.deepEqual(consensus.votes, { UP: 2, DOWN: 1, FLAT: 0 });
+  assert.deepEqual(consensus.confidence_weighted, {
+    direction: 'UP',
+    confidence: 55,
+    shares: { UP: 0.55, DOWN: 0.45, FLAT: 0 },
+  });
+  // A 400-point rating edge makes one vote worth ten.
+  assert.equal(consensus.rating_weighted.direction, 'DOWN');
+  assert.equal(consensus.rating_weighted.shares.DOWN, 0.8333);
+});
+
+test('buildConsensus has no direction without votes', () => {
+  const consensus = buildConsensus([]);
+  assert.equal(consensus.total, 0);
+  assert.equal(consensus.confidence_weighted.direction, null);
+  assert.equal(consensus.rating_weighted.confidence, null);
+});
+
+test('getRoundConsensus hides the consensus until lock and adds the crowd record', async () => {
+  const round = {
+    round_id: 'r1',
+    track_id: 'standard',
+    symbol: 'BTCUSDT',
+    status: 'settled',
+  } as Round;
+  const stored = buildConsensus([{ direction: 'UP', confidence: 70, rating: null }]);
+  const env = {
+    DB: {
+      prepare(sql: string) {
+        return {
+          bind() {
+            return this;
+          },
+          async first() {
+            if (sql.includes('track_standings')) return { rounds: 4, hits: '3' };
+            return {
+              round_id: 'r1',
+              payload: JSON.stringify(stored),
+              computed_at: '2026-02-04T12:10:00.000Z',
+              result: 'UP',
+              correct: 1,
+            };
+          },
+        };
+      },
+    },
+  } as unknown as Env;
+
+  await assert.rejects(
+    getRoundConsensus(env, { ...round, status: 'betting' }),
+    /published at lock/
+  );
+  const consensus = await getRoundConsensus(env, round);
+  assert.equal(consensus.confidence_weighted.direction, 'UP');
+  assert.equal(consensus.correct, true);
+  assert.deepEqual(consensus.crowd, { rounds: 4, hits: 3, hit_rate: 0.75 });
+});
@@ -0,0 +1,100 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applySubscription,
+  fetchPriceSubscriptions,
+  normalizeChannels,
+  notifyPriceSubscriptions,
+  parseClientCommand,
+  publishEvents,
+  subscribedCoins,
+} from '../src/services/eventHubService.ts';
+import type { Env } from '../src/types.ts';
+
+const coins = ['BTC', 'ETH'];
+
+test('normalizeChannels accepts round, feed and price channels for enabled coins', () => {
+  assert.deepEqual(normalizeChannels('price:btc, round,FEED,price:DOGE,bogus,round', coins), {
+    channels: ['price:BTC', 'round', 'feed'],
+    invalid: ['price:DOGE', 'bogus'],
+  });
+  assert.deepEqual(normalizeChannels(null, coins), { channels: [], invalid: [] });
+});
+
+test('parseClientCommand and applySubscription update the channel set', () => {
+  const subscribe = parseClientCommand('{"op":"subscribe","channels":["price:ETH","feed"]}');
+  assert.ok(subscribe);
+  const afterSubscribe = applySubscription(['round'], subscribe, coins);
+  assert.deepEqual(afterSubscribe.channels, ['round', 'price:ETH', 'feed']);
+
+  const unsubscribe = parseClientCommand('{"op":"unsubscribe","channel":"round"}');
+  assert.ok(unsubscribe);
+  assert.deepEqual(applySubscription(afterSubscribe.channels, unsubscribe, coins).channels, [
+    'price:ETH',
+    'feed',
+  ]);
+
+  assert.equal(parseClientCommand('{"op":"shout"}'), null);
+  assert.equal(parseClientCommand('not json'), null);
+});
+
+test('publishEvents is a no-op without a hub binding and swallows hub errors', async () => {
+  await publishEvents({} as Env, [{ channel: 'round', type: 'round_started', data: {}, ts: '' }]);
+
+  const env = {
+    EVENT_HUB: {
+      idFromName: () => 'id',
+      get: () => ({
+        fetch: async () => {
+          throw new Error('hub down');
+        },
+      }),
+    },
+  } as unknown as Env;
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  try {
+    await publishEvents(env, [{ channel: 'round', type: 'round_started', data: {}, ts: '' }]);
+  } finally {
+    console.warn = originalWarn;
+  }
+});
+
+test('subscribedCoins lists coins with at least one price subscriber', () => {
+  assert.deepEqual(subscribedCoins([['round', 'price:ETH'], ['price:BTC', 'price:ETH'], []]), [
+    'BTC',
+    'ETH',
+  ]);
+  assert.deepEqual(subscribedCoins([['round', 'feed']]), []);
+});
+
+test('price subscriptions sync between the hub and the price feed', async () => {
+  const requests: Array<{ url: string; body?: string }> = [];
+  const namespace = (response: () => Response) => ({
+    idFromName: () => 'id',
+    get: () => ({
+      fetch: async (url: string, init?: RequestInit) => {
+        requests.push({ url, body: init?.body as string | undefined });
+        return response();
+      },
+    }),
+  });
+  const env = {
+    EVENT_HUB: namespace(() => Response.json({ ok: true, coins: ['BTC'] })),
+    PRICE_FEED: namespace(() => Response.json({ ok: true })),
+  } as unknown as Env;
+
+  assert.deepEqual(await fetchPriceSubscriptions(env), ['BTC']);
+  // Without a hub nobody can subscribe, so nothing needs publishing.
+  assert.deepEqual(await fetchPriceSubscriptions({} as Env), []);
+  await notifyPriceSubscriptions(env, ['BTC', 'ETH']);
+  assert.deepEqual(requests, [
+    { url: 'https://event-hub/subscriptions', body: undefined },
+    { url: 'https://price-feed/subscriptions', body: '{"coins":["BTC","ETH"]}' },
+  ]);
+
+  const downEnv = {
+    EVENT_HUB: namespace(() => new Response('boom', { status: 500 })),
+  } as unknown as Env;
+  assert.equal(await fetchPriceSubscriptions(downEnv), null);
+});
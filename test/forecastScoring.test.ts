@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  brierScore,
+  impliedDistribution,
+  logLoss,
+  mostLikelyOutcome,
+  normalizeProbabilities,
+  scoreForecast,
+} from '../src/services/forecastScoring.ts';
+
+test('normalizeProbabilities renormalizes within tolerance and rejects bad input', () => {
+  const dist = normalizeProbabilities({ UP: 0.5, DOWN: 0.3, FLAT: 0.205 });
+  assert.ok(Math.abs(dist.UP + dist.DOWN + dist.FLAT - 1) < 1e-5);
+  assert.deepEqual(normalizeProbabilities({ down: 1 }), { UP: 0, DOWN: 1, FLAT: 0 });
+
+  assert.throws(() => normalizeProbabilities({ UP: 0.5, DOWN: 0.3 }), /sum to 1/);
+  assert.throws(() => normalizeProbabilities({ UP: 1.2 }), /Invalid probability/);
+  assert.throws(() => normalizeProbabilities({ SIDEWAYS: 1 }), /Invalid probabilities key/);
+  assert.throws(() => normalizeProbabilities([1, 0, 0]), /object/);
+});
+
+test('mostLikelyOutcome resolves ties in UP, DOWN, FLAT order', () => {
+  assert.equal(mostLikelyOutcome({ UP: 0.2, DOWN: 0.5, FLAT: 0.3 }), 'DOWN');
+  assert.equal(mostLikelyOutcome({ UP: 0.4, DOWN: 0.4, FLAT: 0.2 }), 'UP');
+});
+
+test('impliedDistribution spreads the remaining mass over the other outcomes', () => {
+  const dist = impliedDistribution('down', 80);
+  assert.equal(dist.DOWN, 0.8);
+  assert.ok(Math.abs(dist.UP - 0.1) < 1e-12);
+  assert.ok(Math.abs(dist.FLAT - 0.1) < 1e-12);
+  assert.deepEqual(impliedDistribution('UP', 100), { UP: 1, DOWN: 0, FLAT: 0 });
+});
+
+test('brierScore and logLoss reward calibrated forecasts', () => {
+  const perfect = { UP: 1, DOWN: 0, FLAT: 0 };
+  assert.equal(brierScore(perfect, 'UP'), 0);
+  assert.equal(brierScore(perfect, 'DOWN'), 2);
+  assert.equal(logLoss(perfect, 'UP'), 0);
+  // Confident misses are clamped instead of returning Infinity.
+  assert.ok(Number.isFinite(logLoss(perfect, 'FLAT')));
+
+  const dist = { UP: 0.6, DOWN: 0.3, FLAT: 0.1 };
+  assert.deepEqual(scoreForecast(dist, 'UP'), {
+    brier: 0.26,
+    log_loss: Number((-Math.log(0.6)).toFixed(6)),
+  });
+});
@@ -0,0 +1,209 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_AGENTS } from '../src/agents.ts';
+import { getRuntimeConfig } from '../src/config.ts';
+import {
+  decideHouseCall,
+  revealHouseAgents,
+  runHouseAgents,
+} from '../src/services/houseAgentService.ts';
+import { intervalToMs } from '../src/services/klineService.ts';
+import type { Env, Round } from '../src/types.ts';
+
+type Executed = { sql: string; args: unknown[] };
+
+class MockStatement {
+  args: unknown[] = [];
+  constructor(
+    public sql: string,
+    private db: MockDB
+  ) {}
+  bind(...args: unknown[]) {
+    this.args = args;
+    return this;
+  }
+  async first<T>() {
+    return (this.db.rows(this.sql, this.args)[0] ?? null) as T;
+  }
+  async all<T>() {
+    return { results: this.db.rows(this.sql, this.args) as T[] };
+  }
+  async run() {
+    this.db.executed.push({ sql: this.sql, args: this.args });
+    return { meta: { changes: 1 } };
+  }
+}
+
+class MockDB {
+  executed: Executed[] = [];
+  constructor(public rows: (sql: string, args: unknown[]) => unknown[]) {}
+  prepare(sql: string) {
+    return new MockStatement(sql, this);
+  }
+  async batch(statements: MockStatement[]) {
+    for (const stmt of statements) {
+      this.executed.push({ sql: stmt.sql, args: stmt.args });
+    }
+    return statements.map(() => ({ meta: { changes: 1 } }));
+  }
+}
+
+const houseAgent = (id: string) => DEFAULT_AGENTS.find((agent) => agent.id === id)!;
+
+// Candles on the interval grid with steadily rising closes, covering the requested window.
+function mockRisingCandles() {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    const { req } = JSON.parse(String(init?.body));
+    const intervalMs = intervalToMs(req.interval);
+    const candles = [];
+    let t = Math.floor(req.startTime / intervalMs) * intervalMs;
+    for (; t + intervalMs - 1 <= req.endTime; t += intervalMs) {
+      const close = 100 + candles.length;
+      candles.push({ t, T: t + intervalMs - 1, o: close - 0.5, h: close + 1, l: close - 1, c: close });
+    }
+    return { ok: true, json: async () => candles } as Response;
+  }) as typeof fetch;
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
+
+test('decideHouseCall follows always and random strategies', async () => {
+  const env = {} as Env;
+  const options = { nowMs: Date.parse('2026-02-04T12:00:05Z'), random: () => 0.5 };
+
+  assert.deepEqual(await decideHouseCall(env, houseAgent('bull_v1'), 'BTC', options), {
+    direction: 'UP',
+    confidence: 80,
+    timeframe: '5m',
+    pattern: 'indicator.ema20_gt_ema50.v1',
+    comment: 'House rule: always UP',
+  });
+  const chaos = await decideHouseCall(env, houseAgent('chaos_v1'), 'BTC', options);
+  assert.equal(chaos?.direction, 'DOWN');
+  assert.equal(chaos?.confidence, 63);
+});
+
+test('runHouseAgents seeds house agents and submits judgments with valid reason rules', async () => {
+  const restore = mockRisingCandles();
+  const nowMs = Date.now();
+  const round: Round = {
+    round_id: 'r_standard_btc_20260204_1200',
+    track_id: 'standard',
+    symbol: 'BTCUSDT',
+    duration_min: 30,
+    start_price: 100,
+    end_price: null,
+    status: 'betting',
+    start_time: new Date(nowMs).toISOString(),
+    lock_time: new Date(nowMs + 600_000).toISOString(),
+    end_time: new Date(nowMs + 1_800_000).toISOString(),
+    submission_mode: 'open',
+  };
+  const db = new MockDB((sql, args) => {
+    if (sql.startsWith('SELECT * FROM rounds')) return [round];
+    // An admin parked BearClaw.
+    if (sql.startsWith('SELECT id FROM agents')) {
+      return args.slice(1).filter((id) => id !== 'bear_v1').map((id) => ({ id }));
+    }
+    return [];
+  });
+  const env = { HL_INFO_URL: 'https://hl.test/info', ASSETS: 'BTC', DB: db } as unknown as Env;
+  const config = getRuntimeConfig({ ...env, HOUSE_AGENTS: 'bull_v1,bear_v1,trend_v1' } as Env);
+
+  try {
+    const result = await runHouseAgents(env, config, round, { nowMs });
+    assert.deepEqual(result, {
+      submitted: ['bull_v1', 'trend_v1'],
+      skipped: ['bear_v1'],
+      errors: 0,
+    });
+  } finally {
+    restore();
+  }
+
+  const seeded = db.executed.filter((item) => item.sql.startsWith('INSERT OR IGNORE INTO agents'));
+  assert.deepEqual(
+    seeded.map((item) => [item.args[0], item.args[3]]),
+    [
+      ['bull_v1', 'house'],
+      ['bear_v1', 'house'],
+      ['trend_v1', 'house'],
+    ]
+  );
+  const trendRule = { pattern: 'indicator.ema20_gt_ema50.v1', direction: 'UP' };
+  const inserts = db.executed.filter((item) => item.sql.startsWith('INSERT INTO judgments'));
+  assert.deepEqual(
+    inserts.map((item) => [item.args[1], item.args[3], JSON.parse(String(item.args[16]))]),
+    [
+      ['bull_v1', 'UP', { ...trendRule, timeframe: '5m', horizon_bars: 6 }],
+      ['trend_v1', 'UP', { ...trendRule, timeframe: '15m', horizon_bars: 2 }],
+    ]
+  );
+});
+
+test('house agents commit on commit-reveal rounds and reveal once the round locks', async () => {
+  const restore = mockRisingCandles();
+  const nowMs = Date.now() - 1000;
+  const round: Round = {
+    round_id: 'r_standard_btc_20260204_1200',
+    track_id: 'standard',
+    symbol: 'BTCUSDT',
+    duration_min: 30,
+    start_price: 100,
+    end_price: null,
+    status: 'betting',
+    start_time: new Date(nowMs).toISOString(),
+    lock_time: new Date(nowMs + 600_000).toISOString(),
+    end_time: new Date(nowMs + 1_800_000).toISOString(),
+    submission_mode: 'commit_reveal',
+  };
+  const stored = (table: string) =>
+    db.executed.filter((item) => new RegExp(`^INSERT (OR REPLACE )?INTO ${table} `).test(item.sql));
+  const db = new MockDB((sql, args) => {
+    if (sql.startsWith('SELECT * FROM rounds')) return [round];
+    if (sql.startsWith('SELECT id FROM agents')) return args.slice(1).map((id) => ({ id }));
+    if (sql.startsWith('SELECT * FROM judgment_commits')) {
+      const commit = stored('judgment_commits').find((item) => item.args[1] === args[1]);
+      if (!commit) return [];
+      const [round_id, agent_id, commit_hash, stake, committed_at] = commit.args;
+      return [{ round_id, agent_id, commit_hash, stake, status: 'committed', committed_at }];
+    }
+    if (sql.startsWith('SELECT agent_id, payload FROM house_reveals')) {
+      return stored('house_reveals').map((item) => ({
+        agent_id: item.args[1],
+        payload: item.args[2],
+      }));
+    }
+    return [];
+  });
+  const env = { HL_INFO_URL: 'https://hl.test/info', ASSETS: 'BTC', DB: db } as unknown as Env;
+  const config = getRuntimeConfig({ ...env, HOUSE_AGENTS: 'bull_v1,bear_v1' } as Env);
+
+  try {
+    const committed = await runHouseAgents(env, config, round, { nowMs });
+    assert.deepEqual(committed, { submitted: ['bull_v1', 'bear_v1'], skipped: [], errors: 0 });
+    assert.equal(stored('judgments').length, 0);
+    assert.deepEqual(
+      stored('judgment_commits').map((item) => item.args[1]),
+      ['bull_v1', 'bear_v1']
+    );
+
+    round.status = 'locked';
+    round.lock_time = new Date(nowMs).toISOString();
+    const revealed = await revealHouseAgents(env, round);
+    assert.deepEqual(revealed, { submitted: ['bull_v1', 'bear_v1'], skipped: [], errors: 0 });
+  } finally {
+    restore();
+  }
+
+  assert.deepEqual(
+    stored('judgments').map((item) => [item.args[1], item.args[3]]),
+    [
+      ['bull_v1', 'UP'],
+      ['bear_v1', 'DOWN'],
+    ]
+  );
+  assert.ok(db.executed.some((item) => item.sql.startsWith('DELETE FROM house_reveals')));
+});
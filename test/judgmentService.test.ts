@@ -0,0 +1,281 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  commitJudgment,
+  computeCommitHash,
+  revealJudgment,
+  submitJudgment,
+} from '../src/services/judgmentService.ts';
+import { intervalToMs } from '../src/services/klineService.ts';
+import type { Env, Round } from '../src/types.ts';
+
+class MockStatement {
+  args: unknown[] = [];
+  constructor(
+    public sql: string,
+    private db: MockDB
+  ) {}
+  bind(...args: unknown[]) {
+    this.args = args;
+    return this;
+  }
+  async first<T>() {
+    return (this.db.rows(this.sql)[0] ?? null) as T;
+  }
+  async all<T>() {
+    return { results: this.db.rows(this.sql) as T[] };
+  }
+  async run() {
+    this.db.executed.push({ sql: this.sql, args: this.args });
+    return {};
+  }
+}
+
+class MockDB {
+  executed: Array<{ sql: string; args: unknown[] }> = [];
+  // Rows changed per batch statement, by position; missing entries count as 1.
+  batchChanges: number[] = [];
+  constructor(public rows: (sql: string) => unknown[]) {}
+  prepare(sql: string) {
+    return new MockStatement(sql, this);
+  }
+  async batch(statements: MockStatement[]) {
+    return statements.map((stmt, index) => {
+      this.executed.push({ sql: stmt.sql, args: stmt.args });
+      return { meta: { changes: this.batchChanges[index] ?? 1 } };
+    });
+  }
+}
+
+// Closed candles on the interval grid up to the requested end time.
+function mockCandles() {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    const { req } = JSON.parse(String(init?.body));
+    const intervalMs = intervalToMs(req.interval);
+    const candles = [];
+    let t = Math.floor(req.startTime / intervalMs) * intervalMs;
+    for (; t + intervalMs - 1 <= req.endTime; t += intervalMs) {
+      candles.push({ t, T: t + intervalMs - 1, o: 100, h: 101, l: 99, c: 100.5, v: 1 });
+    }
+    return new Response(JSON.stringify(candles), { status: 200 });
+  }) as typeof fetch;
+  return () => (globalThis.fetch = originalFetch);
+}
+
+const ROUND_ID = 'r_standard_btc_20260204_1200';
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+
+// Locked and inside the reveal window.
+const round: Round = {
+  round_id: ROUND_ID,
+  track_id: 'standard',
+  symbol: 'BTCUSDT',
+  duration_min: 30,
+  start_price: 100,
+  end_price: null,
+  status: 'locked',
+  start_time: minutesFromNow(-15),
+  lock_time: minutesFromNow(-5),
+  end_time: minutesFromNow(15),
+  submission_mode: 'commit_reveal',
+};
+
+const reveal = {
+  round_id: ROUND_ID,
+  direction: 'UP',
+  confidence: 70,
+  comment: 'Breakout holding',
+  intervals: ['1m'],
+  analysis_start_time: '2026-02-04T11:00:00Z',
+  analysis_end_time: '2026-02-04T12:00:00Z',
+  reason_rule: { timeframe: '1m', pattern: 'candle.doji.v1', direction: 'UP', horizon_bars: 3 },
+  salt: 's3cret-salt',
+};
+
+test('computeCommitHash hashes round_id|direction|confidence|salt', async () => {
+  assert.equal(
+    await computeCommitHash(ROUND_ID, 'up', 70.2, 's3cret-salt'),
+    'fd2d93a3c432b4d95710ccb3cd9c2fbef50e9b753130be2dabf4a7be5a96ae3f'
+  );
+});
+
+test('revealJudgment forfeits a reveal that does not match the commitment', async () => {
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT * FROM rounds')) return [round];
+    if (sql.startsWith('SELECT * FROM judgment_commits')) {
+      return [
+        {
+          round_id: ROUND_ID,
+          agent_id: 'bull',
+          commit_hash: 'f'.repeat(64),
+          status: 'committed',
+          committed_at: '2026-02-04T12:05:00.000Z',
+        },
+      ];
+    }
+    return [];
+  });
+  const env = { DB: db } as unknown as Env;
+
+  await assert.rejects(() => revealJudgment(env, 'bull', reveal), /mismatch/);
+  assert.equal(db.executed.length, 1);
+  assert.match(db.executed[0].sql, /status = 'mismatched'/);
+});
+
+test('revealJudgment enforces the reveal window and the commitment time', async () => {
+  const future = { ...round, lock_time: minutesFromNow(1) };
+  const env = {
+    DB: new MockDB((sql) => (sql.startsWith('SELECT * FROM rounds') ? [future] : [])),
+  } as unknown as Env;
+  await assert.rejects(() => revealJudgment(env, 'bull', reveal), /Reveal opens at lock_time/);
+
+  // Still locked (settlement pending) but past end_time.
+  const ended = { ...round, end_time: minutesFromNow(-1) };
+  const endedEnv = {
+    DB: new MockDB((sql) => (sql.startsWith('SELECT * FROM rounds') ? [ended] : [])),
+  } as unknown as Env;
+  await assert.rejects(() => revealJudgment(endedEnv, 'bull', reveal), /Reveal window closed/);
+
+  const lateEnv = {
+    DB: new MockDB((sql) => {
+      if (sql.startsWith('SELECT * FROM rounds')) return [round];
+      if (sql.startsWith('SELECT * FROM judgment_commits')) {
+        return [
+          {
+            round_id: ROUND_ID,
+            agent_id: 'bull',
+            commit_hash: 'f'.repeat(64),
+            status: 'committed',
+            committed_at: '2026-02-04T11:30:00.000Z',
+          },
+        ];
+      }
+      return [];
+    }),
+  } as unknown as Env;
+  await assert.rejects(() => revealJudgment(lateEnv, 'bull', reveal), /after the commitment/);
+});
+
+test('submitJudgment escrows pool stakes in the same batch as the judgment', async () => {
+  const poolRound: Round = {
+    ...round,
+    status: 'betting',
+    lock_time: minutesFromNow(5),
+    submission_mode: 'open',
+    game_mode: 'pool',
+  };
+  const db = new MockDB((sql) => (sql.startsWith('SELECT * FROM rounds') ? [poolRound] : []));
+  const env = { DB: db } as unknown as Env;
+  const { salt: _salt, ...judgment } = reveal;
+  const restore = mockCandles();
+  try {
+    await submitJudgment(env, 'bull', { ...judgment, stake: 100 });
+    const batch = db.executed.slice(0, 3);
+    assert.match(batch[0].sql, /^UPDATE agents SET bankroll/);
+    // The debit is computed against the stake stored when the batch runs.
+    assert.match(batch[0].sql, /SELECT stake FROM judgments WHERE round_id = \? AND agent_id = \?/);
+    assert.match(batch[1].sql, /^INSERT INTO judgments .* WHERE changes\(\) = 1$/);
+    assert.match(batch[2].sql, /^DELETE FROM judgments .* id < \(SELECT MAX\(id\)/);
+
+    // A debit that found too few chips skips the insert and fails the submission.
+    db.executed = [];
+    db.batchChanges = [0, 0, 0];
+    await assert.rejects(
+      () => submitJudgment(env, 'bull', { ...judgment, stake: 5000 }),
+      /Insufficient bankroll/
+    );
+    assert.equal(db.executed.filter((item) => item.sql.startsWith('UPDATE agents')).length, 1);
+  } finally {
+    restore();
+  }
+});
+
+test('commitJudgment escrows pool stakes with the commitment', async () => {
+  const poolRound: Round = {
+    ...round,
+    status: 'betting',
+    lock_time: minutesFromNow(5),
+    game_mode: 'pool',
+  };
+  const db = new MockDB((sql) => (sql.startsWith('SELECT * FROM rounds') ? [poolRound] : []));
+  const env = { DB: db } as unknown as Env;
+  const commit = { round_id: ROUND_ID, commit_hash: 'a'.repeat(64) };
+
+  await assert.rejects(() => commitJudgment(env, 'bull', commit), /stake is required/);
+  const result = await commitJudgment(env, 'bull', { ...commit, stake: 100 });
+  assert.equal(result.stake, 100);
+  assert.match(db.executed[0].sql, /^UPDATE agents SET bankroll .* FROM judgment_commits/);
+  assert.match(db.executed[1].sql, /^INSERT INTO judgment_commits .* WHERE changes\(\) = 1 ON/);
+  assert.deepEqual(db.executed[1].args.slice(2, 4), ['a'.repeat(64), 100]);
+
+  db.executed = [];
+  db.batchChanges = [0, 0];
+  await assert.rejects(
+    () => commitJudgment(env, 'bull', { ...commit, stake: 5000 }),
+    /Insufficient bankroll/
+  );
+});
+
+test('revealJudgment holds pool reveals to the committed stake', async () => {
+  const poolRound: Round = { ...round, game_mode: 'pool' };
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT * FROM rounds')) return [poolRound];
+    if (sql.startsWith('SELECT * FROM judgment_commits')) {
+      return [
+        {
+          round_id: ROUND_ID,
+          agent_id: 'bull',
+          commit_hash: 'f'.repeat(64),
+          stake: 100,
+          status: 'committed',
+          committed_at: '2026-02-04T12:05:00.000Z',
+        },
+      ];
+    }
+    return [];
+  });
+  const env = { DB: db } as unknown as Env;
+
+  await assert.rejects(
+    () => revealJudgment(env, 'bull', { ...reveal, stake: 900 }),
+    /must match the committed stake/
+  );
+  assert.equal(db.executed.length, 0);
+});
+
+test('revealJudgment writes the judgment only if it claims the commitment', async () => {
+  const commitHash = await computeCommitHash(ROUND_ID, 'UP', 70, reveal.salt);
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT * FROM rounds')) return [round];
+    if (sql.startsWith('SELECT * FROM judgment_commits')) {
+      return [
+        {
+          round_id: ROUND_ID,
+          agent_id: 'bull',
+          commit_hash: commitHash,
+          status: 'committed',
+          committed_at: '2026-02-04T12:05:00.000Z',
+        },
+      ];
+    }
+    return [];
+  });
+  const env = { DB: db } as unknown as Env;
+  const restore = mockCandles();
+  try {
+    await revealJudgment(env, 'bull', reveal);
+    const [claim, insert] = db.executed;
+    assert.match(claim.sql, /^UPDATE judgment_commits SET status = 'revealed'/);
+    assert.match(claim.sql, /AND status = 'committed'$/);
+    assert.match(insert.sql, /^INSERT INTO judgments .* WHERE changes\(\) = 1$/);
+
+    // A concurrent reveal got there first: the claim matches nothing and no judgment is written.
+    db.executed = [];
+    db.batchChanges = [0, 0, 0];
+    await assert.rejects(() => revealJudgment(env, 'bull', reveal), /already revealed/);
+  } finally {
+    restore();
+  }
+});
@@ -3,7 +3,9 @@ import assert from 'node:assert/strict';
 import {
   normalizeIntervals,
   normalizeTimeRange,
+  validateCommitPayload,
   validateJudgmentPayload,
+  validateRevealPayload,
 } from '../src/services/judgmentValidation.ts';
 
 test('normalizeIntervals accepts string and array inputs', () => {
@@ -99,3 +101,103 @@ test('validateJudgmentPayload enforces reason_rule.direction matches direction',
     /direction must match/i
   );
 });
+
+test('validateCommitPayload requires a sha256 hex commit_hash', () => {
+  const hash = 'A'.repeat(64);
+  assert.deepEqual(validateCommitPayload({ round_id: 'r1', commit_hash: hash }), {
+    round_id: 'r1',
+    track_id: null,
+    commit_hash: 'a'.repeat(64),
+    stake: null,
+  });
+  assert.equal(validateCommitPayload({ round_id: 'r1', commit_hash: hash, stake: 50 }).stake, 50);
+  assert.throws(
+    () => validateCommitPayload({ round_id: 'r1', commit_hash: hash, stake: 1.5 }),
+    /positive integer/
+  );
+  assert.throws(() => validateCommitPayload({ round_id: 'r1', commit_hash: 'abc' }), /commit_hash/);
+  assert.throws(() => validateCommitPayload({ commit_hash: hash }), /round_id/);
+});
+
+test('validateRevealPayload requires a salt on top of the judgment', () => {
+  const judgment = {
+    round_id: 'r1',
+    direction: 'UP',
+    confidence: 80,
+    comment: 'test',
+    intervals: ['1m'],
+    analysis_start_time: '2026-02-04T00:00:00Z',
+    analysis_end_time: '2026-02-04T01:00:00Z',
+    reason_rule: { timeframe: '1m', pattern: 'candle.doji.v1', direction: 'UP', horizon_bars: 3 },
+  };
+  assert.throws(() => validateRevealPayload({ ...judgment, salt: 'short' }), /salt/);
+  assert.equal(validateRevealPayload({ ...judgment, salt: 's3cret-salt' }).salt, 's3cret-salt');
+});
+
+test('validateJudgmentPayload derives direction and confidence from probabilities', () => {
+  const base = {
+    round_id: 'r1',
+    comment: 'test',
+    intervals: ['1m'],
+    analysis_start_time: '2026-02-04T00:00:00Z',
+    analysis_end_time: '2026-02-04T01:00:00Z',
+    reason_rule: { timeframe: '1m', pattern: 'candle.doji.v1', direction: 'UP', horizon_bars: 3 },
+  };
+  const payload = validateJudgmentPayload({
+    ...base,
+    probabilities: { up: 0.6, down: 0.3, flat: 0.1 },
+  });
+  assert.equal(payload.direction, 'UP');
+  assert.equal(payload.confidence, 60);
+  assert.deepEqual(payload.probabilities, { UP: 0.6, DOWN: 0.3, FLAT: 0.1 });
+
+  assert.throws(
+    () =>
+      validateJudgmentPayload({
+        ...base,
+        direction: 'DOWN',
+        probabilities: { UP: 0.6, DOWN: 0.3, FLAT: 0.1 },
+      }),
+    /most likely outcome/
+  );
+  assert.throws(
+    () => validateJudgmentPayload({ ...base, probabilities: { UP: 0.6, DOWN: 0.6 } }),
+    /sum to 1/
+  );
+});
+
+test('validateJudgmentPayload rejects a confidence that disagrees with probabilities', () => {
+  const base = {
+    round_id: 'r1',
+    comment: 'test',
+    intervals: ['1m'],
+    analysis_start_time: '2026-02-04T00:00:00Z',
+    analysis_end_time: '2026-02-04T01:00:00Z',
+    reason_rule: { timeframe: '1m', pattern: 'candle.doji.v1', direction: 'UP', horizon_bars: 3 },
+    probabilities: { UP: 0.6667, DOWN: 0.2333, FLAT: 0.1 },
+  };
+  // Rounding either way is accepted.
+  assert.equal(validateJudgmentPayload({ ...base, confidence: 67 }).confidence, 67);
+  assert.equal(validateJudgmentPayload({ ...base, confidence: 66 }).confidence, 66);
+  assert.throws(
+    () => validateJudgmentPayload({ ...base, confidence: 95 }),
+    /confidence must match the probability of the most likely outcome/
+  );
+});
+
+test('validateJudgmentPayload accepts an optional positive integer stake', () => {
+  const base = {
+    round_id: 'r1',
+    direction: 'UP',
+    confidence: 70,
+    comment: 'test',
+    intervals: ['1m'],
+    analysis_start_time: '2026-02-04T00:00:00Z',
+    analysis_end_time: '2026-02-04T01:00:00Z',
+    reason_rule: { timeframe: '1m', pattern: 'candle.doji.v1', direction: 'UP', horizon_bars: 3 },
+  };
+  assert.equal(validateJudgmentPayload(base).stake, null);
+  assert.equal(validateJudgmentPayload({ ...base, stake: '40' }).stake, 40);
+  assert.throws(() => validateJudgmentPayload({ ...base, stake: 2.5 }), /positive integer/);
+  assert.throws(() => validateJudgmentPayload({ ...base, stake: 0 }), /positive integer/);
+});
@@ -49,13 +49,38 @@ test('buildKlinesResponse returns normalized klines for default intervals', asyn
   }
 });
 
-test('buildKlinesResponse rejects non-BTC symbol', async () => {
+test('buildKlinesResponse rejects symbols outside ASSETS', async () => {
   await assert.rejects(
     () => buildKlinesResponse(baseEnv as Env, { symbol: 'ETHUSDT' }),
-    /Only BTC/,
+    /Unsupported coin: ETH/,
   );
 });
 
+test('buildKlinesResponse accepts configured non-BTC assets', async () => {
+  const calls: string[] = [];
+  const sample = [{ t: 1700000000000, o: '100', h: '110', l: '90', c: '105', v: '12.5' }];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    const body = init?.body ? JSON.parse(String(init.body)) : {};
+    calls.push(body?.req?.coin);
+    return {
+      ok: true,
+      json: async () => sample,
+      text: async () => JSON.stringify(sample),
+    } as Response;
+  }) as typeof fetch;
+
+  try {
+    const env = { ...baseEnv, ASSETS: 'BTC,ETH' } as Env;
+    const response = await buildKlinesResponse(env, { symbol: 'ETHUSDT', intervals: '1m' });
+    assert.equal(response.coin, 'ETH');
+    assert.equal(response.symbol, 'ETHUSDT');
+    assert.deepEqual(calls, ['ETH']);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
 test('buildKlinesResponse rejects limit above max', async () => {
   await assert.rejects(
     () => buildKlinesResponse(baseEnv as Env, { limit: 1000 }),
@@ -0,0 +1,97 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  describeLevelForecast,
+  getLevelLeaderboard,
+  normalizeLevelForecast,
+  scoreLevelForecast,
+} from '../src/services/levelForecastService.ts';
+import type { Env } from '../src/types.ts';
+
+test('normalizeLevelForecast accepts a target or a range, never both', () => {
+  assert.equal(normalizeLevelForecast({}), null);
+  assert.deepEqual(normalizeLevelForecast({ target_price: '2050.5' }), {
+    kind: 'target',
+    target_price: 2050.5,
+  });
+  assert.deepEqual(normalizeLevelForecast({ price_range: { low: 2000, high: 2100 } }), {
+    kind: 'range',
+    low: 2000,
+    high: 2100,
+  });
+  assert.throws(
+    () => normalizeLevelForecast({ target_price: 2050, price_range: { low: 2000, high: 2100 } }),
+    /not both/
+  );
+  assert.throws(() => normalizeLevelForecast({ target_price: -1 }), /positive number/);
+  assert.throws(
+    () => normalizeLevelForecast({ price_range: { low: 2100, high: 2000 } }),
+    /low must be below/
+  );
+  assert.throws(() => normalizeLevelForecast({ price_range: [2000, 2100] }), /low\/high/);
+});
+
+test('scoreLevelForecast measures target error against the close and range hits inclusively', () => {
+  const target = scoreLevelForecast({ kind: 'target', target_price: 2050 }, 2000);
+  assert.deepEqual(target, { target_error_pct: 2.5, range_hit: null });
+  assert.equal(
+    describeLevelForecast({ kind: 'target', target_price: 2050 }, target),
+    '目标价：2050（偏差 2.50%）'
+  );
+
+  const range = { kind: 'range', low: 1950, high: 2000 } as const;
+  assert.equal(scoreLevelForecast(range, 2000).range_hit, true);
+  assert.equal(scoreLevelForecast(range, 2000.01).range_hit, false);
+  assert.equal(
+    describeLevelForecast(range, scoreLevelForecast(range, 1990)),
+    '区间：1950–2000（命中）'
+  );
+});
+
+test('getLevelLeaderboard ranks ranges from the level standings of a track', async () => {
+  let boundArgs: unknown[] = [];
+  let executedSql = '';
+  const env = {
+    DB: {
+      prepare(sql: string) {
+        executedSql = sql;
+        return {
+          bind(...args: unknown[]) {
+            boundArgs = args;
+            return this;
+          },
+          async all() {
+            return {
+              results: [
+                {
+                  agent_id: 'alpha',
+                  name: 'Alpha',
+                  forecasts: 4,
+                  hits: 3,
+                  hit_rate: 0.75,
+                  avg_width_pct: 1.23456,
+                },
+              ],
+            };
+          },
+        };
+      },
+    },
+  } as unknown as Env;
+
+  const leaderboard = await getLevelLeaderboard(env, { kind: 'range', trackId: 'sprint' });
+  assert.match(executedSql, /FROM level_standings s/);
+  assert.doesNotMatch(executedSql, /FROM judgments|JOIN verdicts/);
+  assert.match(executedSql, /ORDER BY hit_rate DESC, avg_width_pct ASC/);
+  assert.deepEqual(boundArgs, ['range', 'sprint', 'sprint', 100]);
+  assert.deepEqual(leaderboard[0], {
+    agent_id: 'alpha',
+    name: 'Alpha',
+    forecasts: 4,
+    mean_error_pct: null,
+    best_error_pct: null,
+    hits: 3,
+    hit_rate: 0.75,
+    avg_width_pct: 1.2346,
+  });
+});
@@ -0,0 +1,67 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  listPatterns,
+  PATTERN_FAMILIES,
+  PATTERN_REGISTRY,
+} from '../src/services/patternRegistry.ts';
+import { REASON_RULE_PATTERNS } from '../src/services/reasonRuleService.ts';
+
+function docCatalog() {
+  const doc = readFileSync(new URL('../docs/REASON_RULE_V1.md', import.meta.url), 'utf8');
+  const section = doc.slice(doc.indexOf('## Pattern Catalog'), doc.indexOf('## Reason Stats'));
+  return [...section.matchAll(/^- `([^`]+)` \((\w+), (\d+) bars?\): (.+)$/gm)].map((match) => ({
+    id: match[1],
+    bias: match[2],
+    required_bars: Number(match[3]),
+    description: match[4],
+  }));
+}
+
+test('docs/REASON_RULE_V1.md catalog matches the pattern registry', () => {
+  const documented = docCatalog();
+  assert.deepEqual(
+    documented,
+    PATTERN_REGISTRY.map(({ id, bias, required_bars, description }) => ({
+      id,
+      bias,
+      required_bars,
+      description,
+    }))
+  );
+});
+
+test('pattern registry ids are unique, versioned and prefixed by their family', () => {
+  const ids = PATTERN_REGISTRY.map((pattern) => pattern.id);
+  assert.equal(new Set(ids).size, ids.length);
+  assert.deepEqual(REASON_RULE_PATTERNS, ids);
+  for (const pattern of PATTERN_REGISTRY) {
+    assert.match(pattern.id, /^[a-z]+\.[a-z0-9_]+\.v\d+$/);
+    assert.equal(pattern.id.split('.')[0], pattern.family);
+    assert.ok(pattern.required_bars >= 1);
+    assert.ok(pattern.definition.length > 0);
+  }
+});
+
+test('listPatterns filters by family and hides evaluators', () => {
+  const all = listPatterns();
+  assert.equal(all.length, PATTERN_REGISTRY.length);
+  assert.ok(all.every((entry) => !('evaluate' in entry)));
+
+  const breakouts = listPatterns({ family: 'Breakout' });
+  assert.deepEqual(
+    breakouts.map((entry) => entry.id),
+    [
+      'breakout.close_gt_high_20.v1',
+      'breakout.close_lt_low_20.v1',
+      'breakout.close_gt_high_55.v1',
+      'breakout.close_lt_low_55.v1',
+    ]
+  );
+  assert.equal(
+    PATTERN_FAMILIES.reduce((sum, family) => sum + listPatterns({ family }).length, 0),
+    all.length
+  );
+  assert.throws(() => listPatterns({ family: 'astrology' }), /Unknown family/);
+});
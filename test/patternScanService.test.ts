@@ -0,0 +1,131 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { intervalToMs } from '../src/services/klineService.ts';
+import {
+  scanLivePatterns,
+  scanPatterns,
+  type ScanCache,
+} from '../src/services/patternScanService.ts';
+import type { Env } from '../src/types.ts';
+
+const NOW = Date.UTC(2026, 0, 1, 12, 7, 30);
+const env = { ASSETS: 'BTC,ETH' } as Env;
+
+// Candles on the interval grid with steadily rising closes; counts candle snapshot requests.
+function mockRisingCandles() {
+  const originalFetch = globalThis.fetch;
+  const requests: Array<{ interval: string; endTime: number; bars: number }> = [];
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    const { req } = JSON.parse(String(init?.body));
+    const intervalMs = intervalToMs(req.interval);
+    const bars = (req.endTime - req.startTime) / intervalMs;
+    requests.push({ interval: req.interval, endTime: req.endTime, bars });
+    const candles = [];
+    let t = Math.floor(req.startTime / intervalMs) * intervalMs;
+    for (; t + intervalMs - 1 <= req.endTime; t += intervalMs) {
+      const close = 100 + candles.length;
+      const T = t + intervalMs - 1;
+      candles.push({ t, T, o: close - 0.5, h: close + 1, l: close - 1, c: close, v: 1 });
+    }
+    return new Response(JSON.stringify(candles), { status: 200 });
+  }) as typeof fetch;
+  return { requests, restore: () => (globalThis.fetch = originalFetch) };
+}
+
+function memoryCache(): ScanCache & { keys: string[] } {
+  const entries = new Map<string, string>();
+  return {
+    keys: [],
+    async match(request: RequestInfo | URL) {
+      const body = entries.get(new Request(request).url);
+      return body === undefined ? undefined : new Response(body);
+    },
+    async put(request: RequestInfo | URL, response: Response) {
+      const url = new Request(request).url;
+      this.keys.push(url);
+      entries.set(url, await response.text());
+    },
+  };
+}
+
+test('scanLivePatterns reports the patterns holding on each timeframe', async () => {
+  const { requests, restore } = mockRisingCandles();
+  try {
+    const cache = memoryCache();
+    const result = await scanLivePatterns(env, {
+      timeframes: '15m,1h',
+      symbol: 'ETHUSDT',
+      nowMs: NOW,
+      cache,
+    });
+
+    assert.equal(result.ok, true);
+    assert.equal(result.coin, 'ETH');
+    assert.deepEqual(Object.keys(result.timeframes), ['15m', '1h']);
+    const scan15m = result.timeframes['15m'];
+    assert.equal(scan15m.t_close_ms, Date.UTC(2026, 0, 1, 12, 0) - 1);
+    assert.equal(result.timeframes['1h'].t_close_ms, Date.UTC(2026, 0, 1, 12, 0) - 1);
+    const ids = scan15m.holds.map((hit) => hit.id);
+    assert.ok(ids.includes('indicator.ema20_gt_ema50.v1'));
+    assert.ok(ids.includes('indicator.rsi14_gt_70.v1'));
+    assert.ok(!ids.includes('indicator.ema20_lt_ema50.v1'));
+    assert.deepEqual(
+      scan15m.holds.find((hit) => hit.id === 'indicator.ema20_gt_ema50.v1'),
+      { id: 'indicator.ema20_gt_ema50.v1', family: 'indicator', bias: 'bullish' }
+    );
+    // Each timeframe fetches its own longest window: a day of 15m candles, 94 for 1h structures.
+    assert.deepEqual(requests.map((request) => request.bars), [106, 104]);
+    assert.deepEqual(cache.keys, [
+      `https://pattern-scan/ETH/15m/${scan15m.t_close_ms}`,
+      `https://pattern-scan/ETH/1h/${scan15m.t_close_ms}`,
+    ]);
+
+    // Same candle close: served from the cache. The next 15m close triggers a new fetch.
+    const again = await scanLivePatterns(env, {
+      timeframes: '15m',
+      coin: 'eth',
+      nowMs: NOW + 60_000,
+      cache,
+    });
+    assert.deepEqual(again.timeframes['15m'], scan15m);
+    assert.equal(requests.length, 2);
+    await scanLivePatterns(env, {
+      timeframes: '15m',
+      coin: 'ETH',
+      nowMs: NOW + 15 * 60_000,
+      cache,
+    });
+    assert.equal(requests.length, 3);
+  } finally {
+    restore();
+  }
+});
+
+test('scanLivePatterns validates timeframes and coin', async () => {
+  await assert.rejects(
+    scanLivePatterns(env, { timeframes: '2m', cache: null }),
+    /Invalid interval: 2m/
+  );
+  await assert.rejects(
+    scanLivePatterns(env, { coin: 'DOGE', cache: null }),
+    /Unsupported coin: DOGE/
+  );
+});
+
+test('scanPatterns requires the aligned candle', () => {
+  const kline = {
+    open_time: 0,
+    close_time: 59_999,
+    open: 10,
+    high: 11,
+    low: 9,
+    close: 10,
+    volume: 0,
+    trades_count: 0,
+  };
+  assert.deepEqual(
+    scanPatterns([kline], 59_999, '1m').map((hit) => hit.id),
+    ['candle.doji.v1']
+  );
+  assert.throws(() => scanPatterns([kline], 119_999, '1m'), /Unable to align/);
+});
@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { impliedOdds, poolOutcome, settlePool } from '../src/services/poolService.ts';
+
+const entries = [
+  { agent_id: 'a', direction: 'UP', stake: 100 },
+  { agent_id: 'b', direction: 'UP', stake: 50 },
+  { agent_id: 'c', direction: 'DOWN', stake: 150 },
+];
+
+test('settlePool pays winners the losing pool pro rata to their stake', () => {
+  const settlement = settlePool(entries, 'UP', 0);
+  assert.equal(settlement.total, 300);
+  assert.equal(settlement.refunded, false);
+  assert.deepEqual(
+    settlement.payouts.map((payout) => [payout.agent_id, payout.payout, payout.net]),
+    [
+      ['a', 200, 100],
+      ['b', 100, 50],
+      ['c', 0, -150],
+    ]
+  );
+  assert.equal(settlement.house_cut, 0);
+});
+
+test('settlePool takes the house cut and floors payouts to whole chips', () => {
+  const settlement = settlePool(
+    [...entries, { agent_id: 'd', direction: 'UP', stake: 7 }],
+    'UP',
+    10
+  );
+  // 150 losing chips, 135 distributable across a 157-chip winning pool.
+  assert.deepEqual(
+    settlement.payouts.map((payout) => payout.payout),
+    [185, 92, 0, 13]
+  );
+  assert.equal(settlement.house_cut, 307 - 290);
+});
+
+test('settlePool refunds everyone when nobody backed the result', () => {
+  const settlement = settlePool(entries, 'FLAT', 5);
+  assert.equal(settlement.refunded, true);
+  assert.deepEqual(
+    settlement.payouts.map((payout) => payout.payout),
+    [100, 50, 150]
+  );
+  assert.deepEqual(poolOutcome(settlement.payouts[0], true), {
+    correct: false,
+    score_change: 0,
+    reason: 'Pool refunded',
+  });
+});
+
+test('impliedOdds reports decimal odds and leaves empty sides null', () => {
+  const odds = impliedOdds(entries, 0);
+  assert.deepEqual(odds.pools, { UP: 150, DOWN: 150, FLAT: 0 });
+  assert.deepEqual(odds.odds, { UP: 2, DOWN: 2, FLAT: null });
+  assert.deepEqual(odds.implied_prob, { UP: 0.5, DOWN: 0.5, FLAT: null });
+  assert.equal(impliedOdds(entries, 10).odds.UP, 1.9);
+});
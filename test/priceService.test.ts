@@ -0,0 +1,52 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateQuotes, median } from '../src/services/priceService.ts';
+
+const NOW = Date.parse('2026-02-04T12:00:00.000Z');
+
+function quote(source: string, price: number, ageMs = 1000) {
+  return { source, coin: 'BTC', price, updatedAt: new Date(NOW - ageMs).toISOString() };
+}
+
+test('median handles odd and even counts', () => {
+  assert.equal(median([3, 1, 2]), 2);
+  assert.equal(median([4, 1, 3, 2]), 2.5);
+});
+
+test('aggregateQuotes drops a source outside the band', () => {
+  const result = aggregateQuotes(
+    'BTC',
+    [quote('hyperliquid', 100_000), quote('binance', 100_050), quote('coinbase', 103_000)],
+    { bandPct: 0.5, staleMs: 30_000, now: NOW }
+  );
+  assert.ok(result);
+  assert.equal(result.price, 100_025);
+  assert.deepEqual(result.sources, ['hyperliquid', 'binance']);
+  assert.equal(result.rejected.length, 1);
+  assert.equal(result.rejected[0].source, 'coinbase');
+  assert.equal(result.rejected[0].reason, 'outlier');
+});
+
+test('aggregateQuotes ignores stale quotes and reports the freshest update', () => {
+  const result = aggregateQuotes(
+    'BTC',
+    [quote('hyperliquid', 100_000, 2000), quote('binance', 100_010, 500), quote('coinbase', 90_000, 60_000)],
+    { bandPct: 0.5, staleMs: 30_000, now: NOW }
+  );
+  assert.ok(result);
+  assert.equal(result.updatedAt, new Date(NOW - 500).toISOString());
+  assert.deepEqual(
+    result.rejected.map((item) => [item.source, item.reason]),
+    [['coinbase', 'stale']]
+  );
+});
+
+test('aggregateQuotes returns null when two sources disagree beyond the band', () => {
+  const result = aggregateQuotes('BTC', [quote('hyperliquid', 100_000), quote('binance', 102_000)], {
+    bandPct: 0.5,
+    staleMs: 30_000,
+    now: NOW,
+  });
+  assert.equal(result, null);
+  assert.equal(aggregateQuotes('BTC', [], { bandPct: 0.5, staleMs: 30_000, now: NOW }), null);
+});
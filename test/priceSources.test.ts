@@ -0,0 +1,151 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { BinancePriceSource } from '../src/priceSources/binance.ts';
+import { CoinbasePriceSource } from '../src/priceSources/coinbase.ts';
+import { HyperliquidPriceSource } from '../src/priceSources/hyperliquid.ts';
+import { parsePriceSources } from '../src/priceSources/index.ts';
+import type { PriceSourceDeps, WebSocketCtor } from '../src/priceSources/types.ts';
+import type { Env } from '../src/types.ts';
+
+type FakeServer = { url: string; received: string[]; close: () => Promise<void> };
+
+async function startFakeWsServer(respond: (message: any) => unknown[]): Promise<FakeServer> {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+  const received: string[] = [];
+  server.on('connection', (socket) => {
+    socket.on('message', (data) => {
+      const text = data.toString();
+      received.push(text);
+      for (const reply of respond(JSON.parse(text))) {
+        socket.send(JSON.stringify(reply));
+      }
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    received,
+    close: () =>
+      new Promise((resolve) => {
+        for (const client of server.clients) client.terminate();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const deps: PriceSourceDeps = { WebSocket: WebSocket as unknown as WebSocketCtor };
+
+test('parsePriceSources keeps known ids and falls back to hyperliquid', () => {
+  assert.deepEqual(
+    parsePriceSources({ PRICE_SOURCES: 'Hyperliquid, binance,bogus,binance' } as Env),
+    ['hyperliquid', 'binance']
+  );
+  assert.deepEqual(parsePriceSources({} as Env), ['hyperliquid']);
+});
+
+test('HyperliquidPriceSource subscribes to allMids and records mids', async () => {
+  const server = await startFakeWsServer(() => [
+    { channel: 'allMids', data: { mids: { BTC: '100123.5', ETH: '3100.25', DOGE: '0.1' } } },
+  ]);
+  const source = new HyperliquidPriceSource(['BTC', 'ETH'], { wsUrl: server.url }, deps);
+  try {
+    await source.ensureReady();
+    assert.equal(source.health().status, 'connected');
+    await waitFor(() => source.getQuote('ETH') !== null);
+    assert.deepEqual(JSON.parse(server.received[0]), {
+      method: 'subscribe',
+      subscription: { type: 'allMids' },
+    });
+    assert.equal(source.getQuote('BTC')?.price, 100123.5);
+    assert.equal(source.getQuote('ETH')?.source, 'hyperliquid');
+    assert.equal(source.getQuote('DOGE'), null);
+  } finally {
+    source.close();
+    await server.close();
+  }
+});
+
+test('BinancePriceSource maps USDT trade streams back to coins', async () => {
+  const server = await startFakeWsServer((message) =>
+    message.method === 'SUBSCRIBE'
+      ? [
+          { result: null, id: 1 },
+          { stream: 'btcusdt@trade', data: { e: 'trade', s: 'BTCUSDT', p: '100200.00' } },
+          { stream: 'ethusdt@trade', data: { e: 'trade', s: 'ETHUSDT', p: '3101.10' } },
+        ]
+      : []
+  );
+  const source = new BinancePriceSource(['BTC', 'ETH'], { wsUrl: server.url }, deps);
+  try {
+    await source.ensureReady();
+    await waitFor(() => source.getQuote('ETH') !== null);
+    assert.deepEqual(JSON.parse(server.received[0]).params, ['btcusdt@trade', 'ethusdt@trade']);
+    assert.equal(source.getQuote('BTC')?.price, 100200);
+    assert.equal(source.getQuote('ETH')?.price, 3101.1);
+  } finally {
+    source.close();
+    await server.close();
+  }
+});
+
+test('WebSocket sources report closed sockets and ask for a reconnect', async () => {
+  const server = await startFakeWsServer(() => []);
+  const disconnects: string[] = [];
+  const source = new HyperliquidPriceSource(['BTC'], { wsUrl: server.url }, {
+    ...deps,
+    onDisconnect: (id) => disconnects.push(id),
+  });
+  try {
+    await source.ensureReady();
+    await server.close();
+    await waitFor(() => disconnects.length > 0);
+    assert.deepEqual(disconnects, ['hyperliquid']);
+    assert.equal(source.isHealthy(), false);
+    assert.match(source.health().last_error ?? '', /^Close /);
+  } finally {
+    source.close();
+  }
+});
+
+test('CoinbasePriceSource polls spot prices and records per-coin errors', async () => {
+  const paths: string[] = [];
+  const server = createServer((req, res) => {
+    paths.push(req.url ?? '');
+    if (req.url === '/v2/prices/BTC-USD/spot') {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ data: { amount: '100150.01', base: 'BTC', currency: 'USD' } }));
+      return;
+    }
+    res.writeHead(404);
+    res.end('not found');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  const source = new CoinbasePriceSource(['BTC', 'ETH'], {
+    apiUrl: `http://127.0.0.1:${port}/`,
+    pollMs: 60_000,
+  });
+  try {
+    await source.ensureReady();
+    await source.ensureReady();
+    assert.equal(paths.length, 2, 'second call within pollMs should not poll again');
+    assert.equal(source.getQuote('BTC')?.price, 100150.01);
+    assert.equal(source.getQuote('ETH'), null);
+    assert.equal(source.health().status, 'error');
+    assert.match(source.health().last_error ?? '', /ETH: HTTP 404/);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
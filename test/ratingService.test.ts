@@ -0,0 +1,68 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_RATING,
+  DEFAULT_RD,
+  DEFAULT_VOLATILITY,
+  rateMatch,
+  ratingOf,
+  updateRating,
+} from '../src/services/ratingService.ts';
+
+const SCALE = 173.7178;
+const opponent = (rating: number, rd: number, score: number) => ({
+  mu: (rating - 1500) / SCALE,
+  phi: rd / SCALE,
+  score,
+});
+
+test('updateRating reproduces the worked example from the Glicko-2 paper', () => {
+  const next = updateRating({ rating: 1500, rd: 200, volatility: 0.06 }, [
+    opponent(1400, 30, 1),
+    opponent(1550, 100, 0),
+    opponent(1700, 300, 0),
+  ]);
+  assert.ok(Math.abs(next.rating - 1464.06) < 0.01);
+  assert.ok(Math.abs(next.rd - 151.52) < 0.01);
+  assert.ok(Math.abs(next.volatility - 0.05999) < 1e-5);
+});
+
+test('updateRating only widens RD for a player without games', () => {
+  const next = updateRating({ rating: 1600, rd: 100, volatility: 0.06 }, []);
+  assert.equal(next.rating, 1600);
+  assert.ok(next.rd > 100);
+});
+
+test('rateMatch ranks participants pairwise by round points', () => {
+  const fresh = ratingOf({});
+  assert.deepEqual(fresh, {
+    rating: DEFAULT_RATING,
+    rd: DEFAULT_RD,
+    volatility: DEFAULT_VOLATILITY,
+  });
+
+  const updates = rateMatch([
+    { id: 'winner', rating: fresh, points: 80 },
+    { id: 'middle', rating: fresh, points: -30 },
+    { id: 'loser', rating: fresh, points: -150 },
+  ]);
+  const byId = new Map(updates.map((update) => [update.id, update]));
+  assert.ok(byId.get('winner')!.rating_change > 0);
+  assert.equal(byId.get('middle')!.rating_change, 0);
+  assert.ok(byId.get('loser')!.rating_change < 0);
+  assert.equal(byId.get('winner')!.rating_change, -byId.get('loser')!.rating_change);
+  assert.ok(byId.get('winner')!.after.rd < DEFAULT_RD);
+
+  const draw = rateMatch([
+    { id: 'a', rating: fresh, points: 50 },
+    { id: 'b', rating: fresh, points: 50 },
+  ]);
+  assert.deepEqual(
+    draw.map((update) => update.rating_change),
+    [0, 0]
+  );
+});
+
+test('rateMatch needs at least two participants', () => {
+  assert.deepEqual(rateMatch([{ id: 'solo', rating: ratingOf({}), points: 90 }]), []);
+});
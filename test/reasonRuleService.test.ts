@@ -5,19 +5,28 @@ import {
   alignCloseTimeMs,
   computeOutcome,
   evaluatePattern,
+  evaluateRule,
   getPatternRequiredBars,
+  getRuleRequiredBars,
   normalizeReasonRule,
 } from '../src/services/reasonRuleService.ts';
 
-function klineFrom(ohlc: { o: number; h: number; l: number; c: number }): Kline {
+function klineFrom(ohlc: {
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v?: number;
+  t?: number;
+}): Kline {
   return {
-    open_time: 0,
+    open_time: ohlc.t ?? 0,
     close_time: 0,
     open: ohlc.o,
     high: ohlc.h,
     low: ohlc.l,
     close: ohlc.c,
-    volume: 0,
+    volume: ohlc.v ?? 0,
     trades_count: 0,
   };
 }
@@ -103,9 +112,31 @@ test('computeOutcome returns FLAT within threshold', () => {
 });
 
 test('getPatternRequiredBars covers all patterns', () => {
-  assert.equal(getPatternRequiredBars('candle.doji.v1'), 1);
-  assert.equal(getPatternRequiredBars('indicator.ema20_cross_up_ema50.v1'), 51);
-  assert.equal(getPatternRequiredBars('structure.head_and_shoulders_90.v1'), 94);
+  assert.equal(getPatternRequiredBars('candle.doji.v1', '5m'), 1);
+  assert.equal(getPatternRequiredBars('indicator.ema20_cross_up_ema50.v1', '5m'), 51);
+  assert.equal(getPatternRequiredBars('structure.head_and_shoulders_90.v1', '1h'), 94);
+});
+
+test('session VWAP patterns read one UTC day of candles and reject 1m', () => {
+  const pattern = 'volume.close_gt_session_vwap.v1';
+  assert.equal(getPatternRequiredBars(pattern, '3m'), 480);
+  assert.equal(getPatternRequiredBars(pattern, '15m'), 96);
+  assert.equal(getPatternRequiredBars(pattern, '4h'), 6);
+  assert.equal(getPatternRequiredBars(pattern, '1d'), 1);
+
+  const rule = { timeframe: '1m', pattern, direction: 'UP', horizon_bars: 3 };
+  assert.throws(() => normalizeReasonRule(rule), /requires a 3m or longer timeframe/);
+  assert.equal(normalizeReasonRule({ ...rule, timeframe: '1h' }).pattern, pattern);
+  assert.throws(
+    () =>
+      normalizeReasonRule({
+        timeframe: '5m',
+        direction: 'UP',
+        horizon_bars: 3,
+        condition: { and: [{ pattern: 'candle.doji.v1' }, { pattern, timeframe: '1m' }] },
+      }),
+    /requires a 3m or longer timeframe/
+  );
 });
 
 test('evaluatePattern candle patterns', () => {
@@ -214,6 +245,82 @@ test('evaluatePattern indicator patterns', () => {
   assert.equal(evaluatePattern('indicator.rsi14_gt_70.v1', upSeries), true);
 });
 
+test('normalizeReasonRule accepts v2 indicator rules with bounds and defaults', () => {
+  const base = { timeframe: '15m', direction: 'UP', horizon_bars: 3 };
+  const cross = normalizeReasonRule({
+    ...base,
+    indicator: { indicator: 'ema_cross', slow: 21, fast: '9' },
+  });
+  assert.deepEqual(cross, {
+    ...base,
+    pattern: 'indicator.ema_cross.v2',
+    indicator: { indicator: 'ema_cross', fast: 9, slow: 21, side: 'up' },
+  });
+  assert.equal(getRuleRequiredBars(cross), 22);
+
+  const rsi = normalizeReasonRule({
+    ...base,
+    indicator: { indicator: 'rsi', period: 7, below: 25 },
+  });
+  assert.deepEqual(rsi.indicator, { indicator: 'rsi', period: 7, below: 25 });
+  assert.equal(getRuleRequiredBars(rsi), 8);
+
+  const invalid: Array<[unknown, RegExp]> = [
+    [{ indicator: 'macd' }, /Invalid reason_rule.indicator/],
+    [{ indicator: 'ema_cross', fast: 21, slow: 9 }, /fast must be below slow/],
+    [{ indicator: 'ema_cross', fast: 9 }, /Missing reason_rule.indicator.slow/],
+    [{ indicator: 'ema_cross', fast: 9.5, slow: 21 }, /fast must be an integer/],
+    [{ indicator: 'ema_trend', fast: 9, slow: 500 }, /slow must be between 3 and 200/],
+    [{ indicator: 'rsi', period: 7 }, /exactly one of below\/above/],
+    [{ indicator: 'rsi', below: 25, above: 75 }, /exactly one of below\/above/],
+    [{ indicator: 'rsi', below: 25, length: 7 }, /Unknown reason_rule.indicator parameter: length/],
+    [{ indicator: 'ema_cross', fast: 9, slow: 21, side: 'flat' }, /side must be one of up, down/],
+  ];
+  for (const [indicator, message] of invalid) {
+    assert.throws(() => normalizeReasonRule({ ...base, indicator }), message);
+  }
+  assert.throws(
+    () =>
+      normalizeReasonRule({
+        ...base,
+        pattern: 'candle.doji.v1',
+        indicator: { indicator: 'rsi', below: 25 },
+      }),
+    /not both/
+  );
+  assert.throws(
+    () => normalizeReasonRule({ ...base, pattern: 'indicator.rsi.v2' }),
+    /Invalid reason_rule.pattern/
+  );
+});
+
+test('evaluateRule v2 indicators match their fixed v1 counterparts', () => {
+  const base = { timeframe: '15m', direction: 'UP' as const, horizon_bars: 3 };
+  const flat = Array.from({ length: 50 }, () => klineFrom({ o: 100, h: 100, l: 100, c: 100 }));
+  const jumpUp = [...flat, klineFrom({ o: 100, h: 200, l: 100, c: 200 })];
+  const jumpDown = [...flat, klineFrom({ o: 100, h: 100, l: 0, c: 0 })];
+  const rule = (indicator: Record<string, unknown>) =>
+    normalizeReasonRule({ ...base, indicator });
+
+  const crossUp = rule({ indicator: 'ema_cross', fast: 20, slow: 50 });
+  assert.equal(evaluateRule(crossUp, jumpUp), true);
+  assert.equal(evaluateRule(crossUp, jumpDown), false);
+  const crossDown = rule({ indicator: 'ema_cross', fast: 9, slow: 21, side: 'down' });
+  assert.equal(evaluateRule(crossDown, jumpDown), true);
+  const above = rule({ indicator: 'ema_trend', fast: 20, slow: 50 });
+  const below = rule({ indicator: 'ema_trend', fast: 20, slow: 50, side: 'below' });
+  assert.equal(evaluateRule(above, jumpUp.slice(1)), true);
+  assert.equal(evaluateRule(below, jumpUp.slice(1)), false);
+
+  const downSeries = Array.from({ length: 8 }, (_v, i) =>
+    klineFrom({ o: 100 - i * 10, h: 100 - i * 10, l: 100 - i * 10, c: 100 - i * 10 })
+  );
+  assert.equal(evaluateRule(rule({ indicator: 'rsi', period: 7, below: 25 }), downSeries), true);
+  assert.equal(evaluateRule(rule({ indicator: 'rsi', period: 7, above: 75 }), downSeries), false);
+  // Too little history for the period never holds.
+  assert.equal(evaluateRule(rule({ indicator: 'rsi', period: 14, below: 25 }), downSeries), false);
+});
+
 test('evaluatePattern breakout patterns', () => {
   const prev20 = Array.from({ length: 20 }, () => klineFrom({ o: 100, h: 100, l: 90, c: 95 }));
   const up = [...prev20, klineFrom({ o: 99, h: 102, l: 98, c: 101 })];
@@ -332,3 +439,73 @@ test('evaluatePattern structure patterns', () => {
   series94i[93] = klineFrom({ o: 112, h: 115, l: 110, c: 114 }); // confirm above neckline
   assert.equal(evaluatePattern('structure.inverse_head_and_shoulders_90.v1', series94i), true);
 });
+
+test('evaluatePattern MACD signal crosses', () => {
+  assert.equal(getPatternRequiredBars('indicator.macd_cross_up_signal.v1', '5m'), 35);
+  const flat = Array.from({ length: 34 }, () => klineFrom({ o: 100, h: 100, l: 100, c: 100 }));
+  const jumpUp = [...flat, klineFrom({ o: 100, h: 110, l: 100, c: 110 })];
+  const jumpDown = [...flat, klineFrom({ o: 100, h: 100, l: 90, c: 90 })];
+  assert.equal(evaluatePattern('indicator.macd_cross_up_signal.v1', jumpUp), true);
+  assert.equal(evaluatePattern('indicator.macd_cross_down_signal.v1', jumpUp), false);
+  assert.equal(evaluatePattern('indicator.macd_cross_down_signal.v1', jumpDown), true);
+  // One candle short of a signal value at P.
+  assert.equal(evaluatePattern('indicator.macd_cross_up_signal.v1', jumpUp.slice(1)), false);
+});
+
+test('evaluatePattern volatility patterns', () => {
+  // Closes alternate 99 / 101: SMA20 = 100, STDEV20 = 1, bands at 98 and 102.
+  const swing = (i: number) => klineFrom({ o: 100, h: 101.5, l: 98.5, c: i % 2 === 0 ? 99 : 101 });
+  const prev19 = Array.from({ length: 19 }, (_v, i) => swing(i));
+  const upper = [...prev19, klineFrom({ o: 100, h: 103, l: 100, c: 101 })];
+  const lower = [...prev19, klineFrom({ o: 100, h: 101, l: 97, c: 101 })];
+  assert.equal(evaluatePattern('volatility.bb20_touch_upper.v1', upper), true);
+  assert.equal(evaluatePattern('volatility.bb20_touch_lower.v1', upper), false);
+  assert.equal(evaluatePattern('volatility.bb20_touch_lower.v1', lower), true);
+  assert.equal(evaluatePattern('volatility.bb20_touch_upper.v1', [...prev19, swing(19)]), false);
+
+  const wide = (i: number) => klineFrom({ o: 100, h: 110, l: 90, c: i % 2 === 0 ? 90 : 110 });
+  const squeeze = [
+    ...Array.from({ length: 49 }, (_v, i) => wide(i)),
+    ...Array.from({ length: 20 }, (_v, i) => swing(i)),
+  ];
+  assert.equal(evaluatePattern('volatility.bb20_squeeze_50.v1', squeeze), true);
+  const expanding = [
+    ...Array.from({ length: 49 }, (_v, i) => swing(i)),
+    ...Array.from({ length: 20 }, (_v, i) => wide(i)),
+  ];
+  assert.equal(evaluatePattern('volatility.bb20_squeeze_50.v1', expanding), false);
+
+  // True range doubles from 2 to 4 for the last 14 candles.
+  const calm = Array.from({ length: 15 }, () => klineFrom({ o: 100, h: 101, l: 99, c: 100 }));
+  const active = Array.from({ length: 14 }, () => klineFrom({ o: 100, h: 102, l: 98, c: 100 }));
+  assert.equal(evaluatePattern('volatility.atr14_expansion.v1', [...calm, ...active]), true);
+  assert.equal(evaluatePattern('volatility.atr14_expansion.v1', [...calm, ...calm]), false);
+  assert.equal(evaluatePattern('volatility.atr14_expansion.v1', active), false);
+});
+
+test('evaluatePattern volume patterns', () => {
+  const prev20 = Array.from({ length: 20 }, () =>
+    klineFrom({ o: 100, h: 100, l: 100, c: 100, v: 10 })
+  );
+  const spike = (v: number) => [...prev20, klineFrom({ o: 100, h: 100, l: 100, c: 100, v })];
+  assert.equal(evaluatePattern('volume.spike_20.v1', spike(20)), true);
+  assert.equal(evaluatePattern('volume.spike_20.v1', spike(19)), false);
+  const silent = spike(0).map((kline) => ({ ...kline, volume: 0 }));
+  assert.equal(evaluatePattern('volume.spike_20.v1', silent), false);
+
+  // 3m candles: 240 from the previous day (heavy volume at 200), then 240 in today's session.
+  const sessionStart = Date.UTC(2026, 0, 2);
+  const bars = Array.from({ length: 480 }, (_v, i) => {
+    const t = sessionStart + (i - 240) * 3 * 60_000;
+    return i < 240
+      ? klineFrom({ o: 200, h: 200, l: 200, c: 200, v: 100, t })
+      : klineFrom({ o: 100, h: 100, l: 100, c: 100, v: 1, t });
+  });
+  bars[479] = klineFrom({ o: 100, h: 110, l: 104, c: 108, v: 1, t: bars[479].open_time });
+  assert.equal(evaluatePattern('volume.close_gt_session_vwap.v1', bars), true);
+  assert.equal(evaluatePattern('volume.close_lt_session_vwap.v1', bars), false);
+  bars[479] = klineFrom({ o: 100, h: 100, l: 90, c: 92, v: 1, t: bars[479].open_time });
+  assert.equal(evaluatePattern('volume.close_lt_session_vwap.v1', bars), true);
+  // The window must reach back to the session open.
+  assert.equal(evaluatePattern('volume.close_lt_session_vwap.v1', bars.slice(-100)), false);
+});
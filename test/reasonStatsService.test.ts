@@ -71,6 +71,33 @@ test('getReasonStats returns summary and breakdowns', async () => {
         ],
       };
     }
+    if (sql.includes('GROUP BY signature')) {
+      return {
+        all: [
+          {
+            signature: 'and(15m:candle.hammer.v1,1h:indicator.ema20_gt_ema50.v1)',
+            total_evaluated: 4,
+            total_valid: 2,
+            accuracy_all: 0.25,
+            accuracy_valid: 0.5,
+          },
+        ],
+      };
+    }
+    if (sql.includes('GROUP BY reason_pattern, reason_params')) {
+      return {
+        all: [
+          {
+            pattern: 'indicator.rsi.v2',
+            params: '{"indicator":"rsi","period":7,"below":25}',
+            total_evaluated: 8,
+            total_valid: 6,
+            accuracy_all: 0.5,
+            accuracy_valid: 0.6667,
+          },
+        ],
+      };
+    }
     return { first: null, all: [] };
   });
 
@@ -90,6 +117,25 @@ test('getReasonStats returns summary and breakdowns', async () => {
   assert.equal(result.avg_abs_delta_pct, 0.42);
   assert.equal(result.by_timeframe[0].timeframe, '15m');
   assert.equal(result.by_pattern[0].pattern, 'candle.doji.v1');
+  assert.deepEqual(result.by_params, [
+    {
+      pattern: 'indicator.rsi.v2',
+      params: { indicator: 'rsi', period: 7, below: 25 },
+      total_evaluated: 8,
+      total_valid: 6,
+      accuracy_all: 0.5,
+      accuracy_valid: 0.6667,
+    },
+  ]);
+  assert.deepEqual(result.by_signature, [
+    {
+      signature: 'and(15m:candle.hammer.v1,1h:indicator.ema20_gt_ema50.v1)',
+      total_evaluated: 4,
+      total_valid: 2,
+      accuracy_all: 0.25,
+      accuracy_valid: 0.5,
+    },
+  ]);
 });
 
 test('getReasonStats uses default 30d window when missing', async () => {
@@ -0,0 +1,805 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getRuntimeConfig } from '../src/config.ts';
+import { createRoundService, SETTLE_RETRY_MS } from '../src/services/roundService.ts';
+import type { Env, Round } from '../src/types.ts';
+
+type Executed = { sql: string; args: unknown[] };
+
+class MockStatement {
+  args: unknown[] = [];
+  constructor(
+    public sql: string,
+    private db: MockDB
+  ) {}
+  bind(...args: unknown[]) {
+    this.args = args;
+    return this;
+  }
+  async all<T>() {
+    return { results: this.db.rows(this.sql) as T[] };
+  }
+  async first<T>() {
+    return (this.db.rows(this.sql)[0] ?? null) as T;
+  }
+  async run() {
+    this.db.executed.push({ sql: this.sql, args: this.args });
+    return { meta: { changes: this.db.changes } };
+  }
+}
+
+class MockDB {
+  executed: Executed[] = [];
+  rolledBack: Executed[] = [];
+  // Rows changed by each run(); 0 simulates a guarded UPDATE that matched nothing.
+  changes = 1;
+  constructor(public rows: (sql: string) => unknown[] = () => []) {}
+  prepare(sql: string) {
+    return new MockStatement(sql, this);
+  }
+  async batch(statements: MockStatement[]) {
+    const items = statements.map((stmt) => ({ sql: stmt.sql, args: stmt.args }));
+    // The transition record after a status UPDATE that matched nothing fails its CHECK.
+    const guarded = items.some((item) => item.sql.startsWith('INSERT INTO round_transitions'));
+    if (this.changes === 0 && guarded) {
+      this.rolledBack.push(...items);
+      throw new Error('D1_ERROR: CHECK constraint failed: applied = 1');
+    }
+    this.executed.push(...items);
+    return [];
+  }
+}
+
+const baseEnv = {
+  HL_INFO_URL: 'https://api.hyperliquid.xyz/info',
+  ASSETS: 'BTC,ETH',
+} as Env;
+
+function roundFixture(overrides: Partial<Round> = {}): Round {
+  return {
+    round_id: 'r_standard_eth_20260204_1200',
+    track_id: 'standard',
+    symbol: 'ETHUSDT',
+    duration_min: 30,
+    start_price: 0,
+    end_price: null,
+    status: 'locked',
+    start_time: '2026-02-04T12:00:07.250Z',
+    lock_time: '2026-02-04T12:10:07.250Z',
+    end_time: '2026-02-04T12:30:07.250Z',
+    ...overrides,
+  };
+}
+
+function candleClosingAt(closeMs: number, close: number) {
+  return { t: closeMs - 59_999, T: closeMs, o: close, h: close, l: close, c: close, v: 1 };
+}
+
+test('fetchSettlementPrices uses the 1m candles aligned to start and end', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const requests: Array<{ coin: string; interval: string; endTime: number }> = [];
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body));
+    requests.push(body.req);
+    const sample = [
+      candleClosingAt(body.req.endTime - 60_000, 1),
+      candleClosingAt(startClose, 2000),
+      candleClosingAt(endClose, 2050),
+    ];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  try {
+    const service = createRoundService(baseEnv, getRuntimeConfig(baseEnv));
+    const prices = await service.fetchSettlementPrices(roundFixture());
+    assert.deepEqual(prices, {
+      source: 'hyperliquid:candle:1m',
+      startPrice: 2000,
+      startCloseMs: startClose,
+      endPrice: 2050,
+      endCloseMs: endClose,
+    });
+    assert.deepEqual(
+      requests.map((req) => [req.coin, req.interval, req.endTime]),
+      [
+        ['ETH', '1m', startClose],
+        ['ETH', '1m', endClose],
+      ]
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('fetchSettlementPrices returns null until the end candle is published', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  try {
+    const service = createRoundService(baseEnv, getRuntimeConfig(baseEnv));
+    assert.equal(await service.fetchSettlementPrices(roundFixture()), null);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('voidRound refunds net score effects of a settled round', async () => {
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT * FROM score_events')) {
+      return [
+        { agent_id: 'bull', confidence: 80, correct: 1, score_change: 80 },
+        { agent_id: 'bear', confidence: 60, correct: 0, score_change: -90 },
+      ];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  const voided = await service.voidRound(roundFixture({ status: 'settled' }), 'admin');
+  assert.equal(voided, true);
+
+  const refunds = db.executed.filter((item) => item.sql.startsWith('UPDATE agents'));
+  assert.deepEqual(
+    refunds.map((item) => item.args),
+    [
+      [80, 'bull', null, null],
+      [-90, 'bear', null, null],
+    ]
+  );
+  const standings = db.executed.filter((item) => item.sql.startsWith('UPDATE track_standings'));
+  assert.deepEqual(
+    standings.map((item) => item.args),
+    [
+      [80, 1, null, 'standard', 'bull'],
+      [-90, 0, null, 'standard', 'bear'],
+    ]
+  );
+  assert.ok(db.executed.some((item) => item.sql.startsWith('DELETE FROM verdicts')));
+  const event = db.executed.find((item) => item.sql.startsWith('INSERT INTO round_events'));
+  assert.equal(event?.args[3], 'round_voided');
+  assert.equal(JSON.parse(String(event?.args[4])).reason, 'admin');
+});
+
+test('voidRound tags refunds with the season the round was scored in', async () => {
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT * FROM score_events')) {
+      return [{ agent_id: 'bull', confidence: 80, score_change: 80, season_id: 's1' }];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  await service.voidRound(roundFixture({ status: 'settled' }), 'admin');
+  const refund = db.executed.find((item) => item.sql.startsWith('UPDATE agents SET score'));
+  assert.match(refund!.sql, /status = 'active'/);
+  assert.deepEqual(refund!.args, [80, 'bull', 's1', 's1']);
+  const event = db.executed.find((item) => item.sql.startsWith('INSERT INTO score_events'));
+  assert.equal(event?.args.at(-1), 's1');
+});
+
+test('voidRound backs out the level standings of a settled round', async () => {
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT * FROM score_events')) {
+      return [
+        { agent_id: 'bull', confidence: 80, correct: 1, score_change: 80, target_error_pct: 1.5 },
+        {
+          agent_id: 'bear',
+          confidence: 60,
+          correct: 0,
+          score_change: -90,
+          range_hit: 1,
+          range_width_pct: 2.5,
+        },
+      ];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  await service.voidRound(roundFixture({ status: 'settled' }), 'admin');
+  const reversals = db.executed.filter((item) => item.sql.startsWith('UPDATE level_standings'));
+  assert.deepEqual(
+    reversals.map((item) => item.args),
+    [
+      [1.5, 0, 0, 'standard', 'bull', 'target'],
+      [0, 1, 2.5, 'standard', 'bear', 'range'],
+    ]
+  );
+});
+
+test('voidRound backs out the rating change of a settled round', async () => {
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT agent_id, rating_change FROM rating_history')) {
+      return [
+        { agent_id: 'bull', rating_change: 42.5 },
+        { agent_id: 'bear', rating_change: -40.1 },
+      ];
+    }
+    if (sql.startsWith('SELECT * FROM score_events')) {
+      return [
+        { agent_id: 'bull', confidence: 80, correct: 1, score_change: 80 },
+        { agent_id: 'bear', confidence: 60, correct: 0, score_change: -90 },
+      ];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  await service.voidRound(roundFixture({ status: 'settled' }), 'admin');
+  const reversals = db.executed.filter((item) => item.sql.startsWith('UPDATE agents SET rating'));
+  assert.deepEqual(
+    reversals.map((item) => item.args),
+    [
+      [42.5, 'bull'],
+      [-40.1, 'bear'],
+    ]
+  );
+  assert.ok(db.executed.some((item) => item.sql.startsWith('DELETE FROM rating_history')));
+});
+
+test('voidRound refuses a settled round whose score events were trimmed', async () => {
+  const db = new MockDB((sql) =>
+    sql.startsWith('SELECT * FROM score_events')
+      ? [{ agent_id: 'bull', confidence: 80, correct: 1, score_change: 80 }]
+      : []
+  );
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  await assert.rejects(
+    service.voidRound(roundFixture({ status: 'settled', scored_events: 3 }), 'admin'),
+    /have been trimmed/
+  );
+  // Rounds settled before scored_events existed need at least one event left.
+  const empty = new MockDB();
+  const emptyEnv = { ...baseEnv, DB: empty } as unknown as Env;
+  await assert.rejects(
+    createRoundService(emptyEnv, getRuntimeConfig(emptyEnv)).voidRound(
+      roundFixture({ status: 'settled' }),
+      'admin'
+    ),
+    /have been trimmed/
+  );
+  assert.equal(db.executed.length + empty.executed.length, 0);
+});
+
+test('voidRound skips refunds for rounds that never settled', async () => {
+  const db = new MockDB();
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  await service.voidRound(roundFixture({ status: 'locked' }), 'price_unavailable');
+  assert.equal(db.executed.filter((item) => item.sql.startsWith('UPDATE agents')).length, 0);
+  assert.deepEqual(db.executed[0].args.slice(0, 2), ['voided', 'price_unavailable']);
+  assert.equal(await service.voidRound(roundFixture({ status: 'voided' }), 'admin'), false);
+});
+
+test('voidRound applies no refunds when the round status changed meanwhile', async () => {
+  let status = 'voided';
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT * FROM score_events')) {
+      return [{ agent_id: 'bull', confidence: 80, correct: 1, score_change: 80 }];
+    }
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status }];
+    return [];
+  });
+  db.changes = 0;
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  // The status UPDATE leads the batch and its transition record rolls everything back.
+  assert.equal(await service.voidRound(roundFixture({ status: 'settled' }), 'admin'), false);
+  assert.equal(db.executed.length, 0);
+  assert.match(db.rolledBack[0].sql, /WHERE round_id = \? AND status = \?$/);
+  assert.deepEqual(db.rolledBack[0].args.slice(3), ['r_standard_eth_20260204_1200', 'settled']);
+  assert.match(db.rolledBack[1].sql, /^INSERT INTO round_transitions .* changes\(\)/);
+  assert.ok(db.rolledBack.some((item) => item.sql.startsWith('UPDATE agents SET score')));
+
+  // A failure with the round still settled is not a lost race.
+  status = 'settled';
+  await assert.rejects(
+    service.voidRound(roundFixture({ status: 'settled' }), 'admin'),
+    /CHECK constraint failed/
+  );
+});
+
+test('getNextTransitionMs picks the earliest lock or end deadline', async () => {
+  const now = Date.parse('2026-02-04T12:05:00Z');
+  const db = new MockDB((sql) =>
+    sql.includes("status IN ('betting', 'locked')")
+      ? [
+          roundFixture({ status: 'locked', end_time: '2026-02-04T12:30:07.250Z' }),
+          roundFixture({
+            round_id: 'r_sprint_eth_20260204_1204',
+            track_id: 'sprint',
+            status: 'betting',
+            lock_time: '2026-02-04T12:06:00.000Z',
+          }),
+        ]
+      : []
+  );
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  assert.equal(await service.getNextTransitionMs(now), Date.parse('2026-02-04T12:06:00.000Z'));
+  // Past-due rounds (e.g. waiting on the end candle) are retried shortly instead of immediately.
+  const later = Date.parse('2026-02-04T12:31:00Z');
+  assert.equal(await service.getNextTransitionMs(later), later + SETTLE_RETRY_MS);
+});
+
+test('settleRound refuses a stale copy of a round that already settled', async () => {
+  const db = new MockDB((sql) =>
+    sql.startsWith('SELECT status FROM rounds') ? [{ status: 'settled' }] : []
+  );
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  assert.equal(await service.settleRound(roundFixture({ status: 'locked' })), false);
+  assert.equal(db.executed.length, 0);
+});
+
+test('settleRound writes nothing when the round settles during price fetching', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000), candleClosingAt(endClose, 2050)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  // Locked when checked, settled by the time the batch runs.
+  const statuses = ['locked', 'settled'];
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status: statuses.shift() }];
+    if (sql.startsWith('SELECT * FROM judgments')) {
+      return [{ agent_id: 'bull', direction: 'UP', confidence: 80 }];
+    }
+    if (sql.startsWith('SELECT id, name')) return [{ id: 'bull', name: 'Bull', score: 0 }];
+    return [];
+  });
+  db.changes = 0;
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+
+  try {
+    const service = createRoundService(env, getRuntimeConfig(env));
+    assert.equal(await service.settleRound(roundFixture({ status: 'locked' })), false);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  assert.equal(db.executed.length, 0);
+  assert.match(db.rolledBack[0].sql, /^UPDATE rounds SET .* AND status = 'locked'$/);
+  assert.match(db.rolledBack[1].sql, /^INSERT INTO round_transitions/);
+  assert.ok(db.rolledBack.some((item) => item.sql.startsWith('INSERT INTO score_events')));
+});
+
+test('lockRound writes the consensus and event only with the status change', async () => {
+  const db = new MockDB((sql) =>
+    /^SELECT (\*|status) FROM rounds/.test(sql) ? [roundFixture({ status: 'locked' })] : []
+  );
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  await service.lockRound(roundFixture({ status: 'betting' }));
+  assert.deepEqual(
+    db.executed.slice(0, 4).map((item) => item.sql.split(' ').slice(0, 4).join(' ')),
+    [
+      'UPDATE rounds SET status',
+      'INSERT INTO round_transitions (round_id,',
+      'INSERT OR REPLACE INTO',
+      'INSERT INTO round_events (round_id,',
+    ]
+  );
+
+  // Locking again: the guard rolls the batch back and the current round comes back.
+  const again = new MockDB(db.rows);
+  again.changes = 0;
+  const againEnv = { ...baseEnv, DB: again } as unknown as Env;
+  const locked = await createRoundService(againEnv, getRuntimeConfig(againEnv)).lockRound(
+    roundFixture({ status: 'betting' })
+  );
+  assert.equal(locked.status, 'locked');
+  assert.equal(again.executed.filter((item) => item.sql.startsWith('INSERT')).length, 0);
+});
+
+test('settleRound scores with the round strategy and records it on score events', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000), candleClosingAt(endClose, 2050)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status: 'locked' }];
+    if (sql.startsWith('SELECT * FROM judgments')) {
+      return [
+        { agent_id: 'bull', direction: 'UP', confidence: 80 },
+        { agent_id: 'bear', direction: 'DOWN', confidence: 60 },
+      ];
+    }
+    if (sql.startsWith('SELECT id, name')) {
+      return [
+        { id: 'bull', name: 'Bull', score: 0 },
+        { id: 'bear', name: 'Bear', score: 0 },
+      ];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+
+  try {
+    const service = createRoundService(env, getRuntimeConfig(env));
+    const settled = await service.settleRound(
+      roundFixture({ status: 'locked', scoring_strategy: 'symmetric' })
+    );
+    assert.equal(settled, true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  const events = db.executed.filter((item) => item.sql.startsWith('INSERT INTO score_events'));
+  assert.deepEqual(
+    events.map((item) => [item.args[0], item.args[5], item.args[7]]),
+    [
+      ['bull', 80, 'symmetric'],
+      ['bear', -60, 'symmetric'],
+    ]
+  );
+  const settled = db.executed.find((item) => item.sql.startsWith('UPDATE rounds'));
+  assert.deepEqual(settled?.args.slice(2, 4), ['settled', 2]);
+  // The track leaderboard reads these running totals, which outlive trimmed score events.
+  const standings = db.executed.filter((item) =>
+    item.sql.startsWith('INSERT INTO track_standings')
+  );
+  assert.deepEqual(
+    standings.map((item) => item.args),
+    [
+      ['standard', 'bull', 80, 1],
+      ['standard', 'bear', -60, 0],
+    ]
+  );
+});
+
+test('settleRound pays pool rounds into bankrolls instead of scores', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000), candleClosingAt(endClose, 2050)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status: 'locked' }];
+    if (sql.startsWith('SELECT * FROM judgments')) {
+      return [
+        { agent_id: 'bull', direction: 'UP', confidence: 80, stake: 100 },
+        { agent_id: 'bear', direction: 'DOWN', confidence: 60, stake: 300 },
+      ];
+    }
+    if (sql.startsWith('SELECT id, name')) {
+      return [
+        { id: 'bull', name: 'Bull', score: 0 },
+        { id: 'bear', name: 'Bear', score: 0 },
+      ];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+
+  try {
+    const service = createRoundService(env, getRuntimeConfig(env));
+    const settled = await service.settleRound(
+      roundFixture({ status: 'locked', game_mode: 'pool' })
+    );
+    assert.equal(settled, true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  const scoreUpdates = db.executed.filter((item) => item.sql.startsWith('UPDATE agents SET score'));
+  assert.equal(scoreUpdates.length, 0);
+  const payouts = db.executed.filter((item) =>
+    item.sql.startsWith('UPDATE agents SET bankroll = COALESCE(bankroll, ?) +')
+  );
+  assert.deepEqual(
+    payouts.map((item) => item.args.slice(1)),
+    [
+      [400, 'bull'],
+      [0, 'bear'],
+    ]
+  );
+  const events = db.executed.filter((item) => item.sql.startsWith('INSERT INTO score_events'));
+  assert.deepEqual(
+    events.map((item) => [item.args[0], item.args[5], item.args[7]]),
+    [
+      ['bull', 300, 'pool'],
+      ['bear', -300, 'pool'],
+    ]
+  );
+});
+
+test('settleRound keeps the crowd off pool track standings', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000), candleClosingAt(endClose, 2050)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status: 'locked' }];
+    if (sql.startsWith('SELECT * FROM judgments')) {
+      return [{ agent_id: 'bull', direction: 'UP', confidence: 80, stake: 100 }];
+    }
+    if (sql.startsWith('SELECT id, name')) return [{ id: 'bull', name: 'Bull', score: 0 }];
+    if (sql.startsWith('SELECT direction, confidence FROM round_consensus')) {
+      return [{ direction: 'UP', confidence: 80 }];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+
+  try {
+    const service = createRoundService(env, getRuntimeConfig(env));
+    const round = roundFixture({ status: 'locked', game_mode: 'pool' });
+    assert.equal(await service.settleRound(round), true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  const events = db.executed.filter((item) => item.sql.startsWith('INSERT INTO score_events'));
+  assert.deepEqual(events.map((item) => item.args[0]), ['bull', 'crowd']);
+  const standings = db.executed.filter((item) =>
+    item.sql.startsWith('INSERT INTO track_standings')
+  );
+  assert.deepEqual(standings.map((item) => item.args[1]), ['bull']);
+});
+
+test('voidRound leaves the crowd out of pool track standings', async () => {
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT * FROM score_events')) {
+      return [
+        { agent_id: 'bull', confidence: 80, correct: 1, score_change: 300, strategy: 'pool' },
+        { agent_id: 'crowd', confidence: 80, correct: 1, score_change: 80 },
+      ];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  await service.voidRound(roundFixture({ status: 'settled', game_mode: 'pool' }), 'admin');
+  const standings = db.executed.filter((item) => item.sql.startsWith('UPDATE track_standings'));
+  assert.deepEqual(standings.map((item) => item.args.at(-1)), ['bull']);
+});
+
+test('getPoolOdds prices the live pool from staked judgments', async () => {
+  const db = new MockDB((sql) =>
+    sql.startsWith('SELECT agent_id, direction, stake FROM judgments')
+      ? [
+          { agent_id: 'bull', direction: 'UP', stake: 300 },
+          { agent_id: 'bear', direction: 'DOWN', stake: 100 },
+        ]
+      : []
+  );
+  const env = { ...baseEnv, POOL_HOUSE_CUT_PCT: '0', DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  assert.equal(await service.getPoolOdds(roundFixture()), null);
+  const pool = await service.getPoolOdds(roundFixture({ game_mode: 'pool' }));
+  assert.equal(pool?.total_staked, 400);
+  assert.deepEqual(pool?.odds, { UP: 1.3333, DOWN: 4, FLAT: null });
+  assert.deepEqual(pool?.implied_prob, { UP: 0.75, DOWN: 0.25, FLAT: null });
+});
+
+test('settleRound keeps the escrowed stake of a forfeited pool commitment', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000), candleClosingAt(endClose, 2050)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status: 'locked' }];
+    if (sql.startsWith('SELECT * FROM judgments')) {
+      return [{ agent_id: 'bull', direction: 'UP', confidence: 80, stake: 100 }];
+    }
+    if (sql.startsWith('SELECT * FROM judgment_commits')) {
+      return [{ agent_id: 'bear', stake: 250, status: 'committed' }];
+    }
+    if (sql.startsWith('SELECT id, name')) {
+      return [
+        { id: 'bull', name: 'Bull', score: 0 },
+        { id: 'bear', name: 'Bear', score: 0 },
+      ];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+
+  try {
+    const service = createRoundService(env, getRuntimeConfig(env));
+    const settled = await service.settleRound(
+      roundFixture({ status: 'locked', game_mode: 'pool', submission_mode: 'commit_reveal' })
+    );
+    assert.equal(settled, true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  // The stake left the bankroll at commit; the forfeit only records it, never points.
+  const bearUpdates = db.executed.filter(
+    (item) => /^UPDATE agents SET (score|bankroll)/.test(item.sql) && item.args.includes('bear')
+  );
+  assert.equal(bearUpdates.length, 0);
+  const forfeit = db.executed.find(
+    (item) => item.sql.startsWith('INSERT INTO score_events') && item.args[0] === 'bear'
+  );
+  assert.deepEqual(forfeit?.args.slice(5, 8), [-250, 'Commitment not revealed', 'pool']);
+});
+
+test('settleRound charges forfeits the worst score of the round strategy', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000), candleClosingAt(endClose, 2000)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status: 'locked' }];
+    if (sql.startsWith('SELECT * FROM judgment_commits')) {
+      return [{ agent_id: 'bear', status: 'mismatched' }];
+    }
+    if (sql.startsWith('SELECT id, name')) return [{ id: 'bear', name: 'Bear', score: 0 }];
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+
+  try {
+    const service = createRoundService(env, getRuntimeConfig(env));
+    await service.settleRound(
+      roundFixture({ submission_mode: 'commit_reveal', scoring_strategy: 'flat_aware' })
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  // A FLAT round under flat_aware never costs more than 50.
+  const forfeit = db.executed.find(
+    (item) => item.sql.startsWith('INSERT INTO score_events') && item.args[0] === 'bear'
+  );
+  assert.deepEqual(forfeit?.args.slice(5, 8), [-50, 'Commitment mismatch', 'flat_aware']);
+  const scoreUpdate = db.executed.find((item) => item.sql.startsWith('UPDATE agents SET score'));
+  assert.deepEqual(scoreUpdate?.args, [-50, 'bear']);
+});
+
+test('voidRound returns escrowed stakes of an unsettled pool round', async () => {
+  const db = new MockDB((sql) =>
+    sql.startsWith('SELECT agent_id, stake FROM judgments')
+      ? [
+          { agent_id: 'bull', stake: 100 },
+          { agent_id: 'bear', stake: 40 },
+        ]
+      : []
+  );
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+  const service = createRoundService(env, getRuntimeConfig(env));
+
+  await service.voidRound(roundFixture({ status: 'locked', game_mode: 'pool' }), 'admin');
+  const refunds = db.executed.filter((item) => item.sql.startsWith('UPDATE agents SET bankroll'));
+  assert.deepEqual(
+    refunds.map((item) => item.args),
+    [
+      [100, 'bull'],
+      [40, 'bear'],
+    ]
+  );
+});
+
+test('settleRound scores level forecasts into level standings and flip cards', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000), candleClosingAt(endClose, 2050)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status: 'locked' }];
+    if (sql.startsWith('SELECT * FROM judgments')) {
+      return [
+        { agent_id: 'bull', direction: 'UP', confidence: 80, target_price: 2091 },
+        { agent_id: 'bear', direction: 'DOWN', confidence: 60, range_low: 1900, range_high: 2000 },
+      ];
+    }
+    if (sql.startsWith('SELECT id, name')) {
+      return [
+        { id: 'bull', name: 'Bull', score: 0 },
+        { id: 'bear', name: 'Bear', score: 0 },
+      ];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+
+  try {
+    const service = createRoundService(env, getRuntimeConfig(env));
+    assert.equal(await service.settleRound(roundFixture({ status: 'locked' })), true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  const levels = db.executed.filter((item) => item.sql.startsWith('UPDATE judgments SET target'));
+  assert.deepEqual(
+    levels.map((item) => item.args),
+    [
+      [2, null, 'r_standard_eth_20260204_1200', 'bull'],
+      [null, 0, 'r_standard_eth_20260204_1200', 'bear'],
+    ]
+  );
+  const standings = db.executed.filter((item) => item.sql.startsWith('INSERT INTO level_standings'));
+  assert.deepEqual(
+    standings.map((item) => item.args),
+    [
+      ['standard', 'bull', 'target', 2, 2, 0, 0],
+      ['standard', 'bear', 'range', 0, null, 0, (100 * 100) / 2050],
+    ]
+  );
+  const cards = db.executed.filter((item) => item.sql.startsWith('INSERT INTO flip_cards'));
+  assert.match(String(cards[0].args[1]), /目标价：2091（偏差 2.00%）/);
+  assert.match(String(cards[1].args[1]), /区间：1900–2000（未中）/);
+});
+
+test('settleRound scores the crowd on the consensus frozen at lock', async () => {
+  const startClose = Date.parse('2026-02-04T12:00:00Z') - 1;
+  const endClose = Date.parse('2026-02-04T12:30:00Z') - 1;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    const sample = [candleClosingAt(startClose, 2000), candleClosingAt(endClose, 2050)];
+    return { ok: true, json: async () => sample } as Response;
+  }) as typeof fetch;
+
+  const db = new MockDB((sql) => {
+    if (sql.startsWith('SELECT status FROM rounds')) return [{ status: 'locked' }];
+    if (sql.startsWith('SELECT direction, confidence FROM round_consensus')) {
+      return [{ direction: 'UP', confidence: 64 }];
+    }
+    return [];
+  });
+  const env = { ...baseEnv, DB: db } as unknown as Env;
+
+  try {
+    const service = createRoundService(env, getRuntimeConfig(env));
+    assert.equal(await service.settleRound(roundFixture({ status: 'locked' })), true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  const event = db.executed.find(
+    (item) => item.sql.startsWith('INSERT INTO score_events') && item.args[0] === 'crowd'
+  );
+  assert.deepEqual(event?.args.slice(3, 8), [64, 1, 64, 'Correct', 'asymmetric']);
+  const consensus = db.executed.find((item) => item.sql.startsWith('UPDATE round_consensus'));
+  assert.deepEqual(consensus?.args, ['UP', 1, 'r_standard_eth_20260204_1200']);
+  const ratings = db.executed.filter((item) => item.sql.startsWith('UPDATE agents SET rating'));
+  assert.equal(ratings.length, 0);
+});
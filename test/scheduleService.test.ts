@@ -0,0 +1,65 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getRuntimeConfig } from '../src/config.ts';
+import {
+  listSchedule,
+  nextSlotStartMs,
+  roundIdFor,
+  slotAt,
+} from '../src/services/scheduleService.ts';
+import type { Env } from '../src/types.ts';
+
+const config = getRuntimeConfig({
+  ASSETS: 'BTC,ETH',
+  TRACKS: JSON.stringify([
+    { id: 'sprint', duration_min: 5, lock_window_min: 2 },
+    { id: 'standard', duration_min: 30, lock_window_min: 10 },
+  ]),
+} as Env);
+const [sprint, standard] = config.tracks;
+
+test('slotAt aligns rounds to wall-clock boundaries', () => {
+  const slot = slotAt(standard, 'BTCUSDT', Date.parse('2026-02-04T12:47:31Z'));
+  assert.deepEqual(slot, {
+    round_id: 'r_standard_btc_20260204_1230',
+    track_id: 'standard',
+    symbol: 'BTCUSDT',
+    start_time: '2026-02-04T12:30:00.000Z',
+    lock_time: '2026-02-04T12:40:00.000Z',
+    end_time: '2026-02-04T13:00:00.000Z',
+  });
+  assert.equal(roundIdFor(new Date(slot.start_time), 'standard', 'BTCUSDT'), slot.round_id);
+  assert.equal(
+    slotAt(sprint, 'ETHUSDT', Date.parse('2026-02-04T12:47:31Z')).start_time,
+    '2026-02-04T12:45:00.000Z'
+  );
+});
+
+test('nextSlotStartMs returns the earliest upcoming boundary across tracks', () => {
+  assert.equal(
+    nextSlotStartMs(config.tracks, Date.parse('2026-02-04T12:47:31Z')),
+    Date.parse('2026-02-04T12:50:00Z')
+  );
+});
+
+test('listSchedule lists the current slot and the next rounds in start order', () => {
+  const nowMs = Date.parse('2026-02-04T12:41:00Z');
+  const rounds = listSchedule(config, { nowMs, count: 4, trackIds: ['standard'], symbols: ['BTCUSDT'] });
+  assert.deepEqual(
+    rounds.map((round) => [round.start_time, round.phase]),
+    [
+      ['2026-02-04T12:30:00.000Z', 'locked'],
+      ['2026-02-04T13:00:00.000Z', 'upcoming'],
+      ['2026-02-04T13:30:00.000Z', 'upcoming'],
+      ['2026-02-04T14:00:00.000Z', 'upcoming'],
+    ]
+  );
+
+  const mixed = listSchedule(config, { nowMs, count: 6 });
+  assert.equal(mixed.length, 6);
+  assert.deepEqual(
+    mixed.slice(0, 3).map((round) => round.round_id),
+    ['r_standard_btc_20260204_1230', 'r_standard_eth_20260204_1230', 'r_sprint_btc_20260204_1240']
+  );
+  assert.equal(mixed[2].phase, 'betting');
+});
@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getScoringStrategy,
+  listScoringStrategies,
+  SCORING_STRATEGIES,
+  worstCaseScore,
+} from '../src/services/scoringService.ts';
+
+const score = (id: string, direction: string, confidence: number, result: string) =>
+  getScoringStrategy(id).score({ direction, confidence, result });
+
+test('asymmetric keeps the original +confidence / -1.5×confidence rule', () => {
+  assert.deepEqual(score('asymmetric', 'UP', 80, 'UP'), {
+    correct: true,
+    score_change: 80,
+    reason: 'Correct',
+  });
+  assert.deepEqual(score('asymmetric', 'UP', 75, 'DOWN'), {
+    correct: false,
+    score_change: -113,
+    reason: 'High confidence failure',
+  });
+  assert.equal(getScoringStrategy(null).id, 'asymmetric');
+});
+
+test('symmetric and confidence_squared scale wins and misses alike', () => {
+  assert.equal(score('symmetric', 'DOWN', 60, 'DOWN').score_change, 60);
+  assert.equal(score('symmetric', 'DOWN', 60, 'UP').score_change, -60);
+  assert.equal(score('confidence_squared', 'UP', 90, 'UP').score_change, 81);
+  assert.equal(score('confidence_squared', 'UP', 30, 'FLAT').score_change, -9);
+});
+
+test('flat_aware softens directional misses on flat rounds only', () => {
+  assert.equal(score('flat_aware', 'FLAT', 70, 'FLAT').score_change, 70);
+  assert.deepEqual(score('flat_aware', 'UP', 80, 'FLAT'), {
+    correct: false,
+    score_change: -40,
+    reason: 'Market stayed flat',
+  });
+  assert.equal(score('flat_aware', 'UP', 80, 'DOWN').score_change, -120);
+});
+
+test('worstCaseScore is the lowest score the strategy allows for the result', () => {
+  assert.equal(worstCaseScore(getScoringStrategy('asymmetric'), 'UP'), -150);
+  assert.equal(worstCaseScore(getScoringStrategy('symmetric'), 'DOWN'), -100);
+  assert.equal(worstCaseScore(getScoringStrategy('confidence_squared'), 'FLAT'), -100);
+  // Only directional misses are possible on a flat round, and they cost half.
+  assert.equal(worstCaseScore(getScoringStrategy('flat_aware'), 'FLAT'), -50);
+  assert.equal(worstCaseScore(getScoringStrategy('flat_aware'), 'UP'), -150);
+});
+
+test('getScoringStrategy rejects unknown ids', () => {
+  assert.throws(() => getScoringStrategy('martingale'), /Unknown scoring strategy/);
+  assert.equal(listScoringStrategies().length, SCORING_STRATEGIES.size);
+});
@@ -0,0 +1,151 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getRuntimeConfig } from '../src/config.ts';
+import { alignedSeasonStartMs, createSeasonService } from '../src/services/seasonService.ts';
+import type { Env, Season } from '../src/types.ts';
+
+type Executed = { sql: string; args: unknown[] };
+
+class MockStatement {
+  args: unknown[] = [];
+  constructor(
+    public sql: string,
+    private rows: (sql: string) => unknown[]
+  ) {}
+  bind(...args: unknown[]) {
+    this.args = args;
+    return this;
+  }
+  async all<T>() {
+    return { results: this.rows(this.sql) as T[] };
+  }
+  async first<T>() {
+    return (this.rows(this.sql)[0] ?? null) as T;
+  }
+  async run() {
+    return {};
+  }
+}
+
+class MockDB {
+  executed: Executed[] = [];
+  constructor(private rows: (sql: string) => unknown[] = () => []) {}
+  prepare(sql: string) {
+    return new MockStatement(sql, this.rows);
+  }
+  async batch(statements: MockStatement[]) {
+    for (const stmt of statements) {
+      this.executed.push({ sql: stmt.sql, args: stmt.args });
+    }
+    return [];
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function seasonFixture(overrides: Partial<Season> = {}): Season {
+  return {
+    id: 's1',
+    number: 1,
+    name: 'Season 1',
+    status: 'active',
+    start_time: '2026-01-01T00:00:00.000Z',
+    end_time: '2026-01-31T00:00:00.000Z',
+    baseline_score: 0,
+    closed_at: null,
+    ...overrides,
+  };
+}
+
+test('alignedSeasonStartMs snaps to the latest boundary on the anchor grid', () => {
+  const anchor = Date.parse('2026-01-01T00:00:00Z');
+  assert.equal(alignedSeasonStartMs(anchor, 30 * DAY_MS, anchor - 1000), anchor);
+  assert.equal(alignedSeasonStartMs(anchor, 30 * DAY_MS, anchor + 10 * DAY_MS), anchor);
+  assert.equal(alignedSeasonStartMs(anchor, 30 * DAY_MS, anchor + 65 * DAY_MS), anchor + 60 * DAY_MS);
+});
+
+test('rolloverIfDue opens the first season and adopts untagged score events', async () => {
+  const db = new MockDB();
+  const env = { DB: db, SEASON_START: '2026-01-01T00:00:00Z' } as unknown as Env;
+  const service = createSeasonService(env, getRuntimeConfig(env));
+
+  assert.equal(await service.rolloverIfDue(Date.parse('2025-12-31T00:00:00Z')), null);
+  assert.equal(db.executed.length, 0);
+
+  const result = await service.rolloverIfDue(Date.parse('2026-01-05T00:00:00Z'));
+  assert.deepEqual(result, { closed: null, opened: 's1' });
+  assert.match(db.executed[0].sql, /^INSERT INTO seasons/);
+  assert.deepEqual(db.executed[0].args, [
+    's1',
+    1,
+    'Season 1',
+    '2026-01-01T00:00:00.000Z',
+    '2026-01-31T00:00:00.000Z',
+    0,
+  ]);
+  assert.match(db.executed[1].sql, /season_id IS NULL/);
+  assert.match(db.executed[2].sql, /^UPDATE track_standings SET season_id = \? WHERE season_id = ''/);
+});
+
+test('rolloverIfDue freezes standings, resets scores and opens the next season', async () => {
+  const active = seasonFixture();
+  const db = new MockDB((sql) => (sql.includes("status = 'active'") ? [active] : []));
+  const env = { DB: db, SEASON_BASELINE_SCORE: '100' } as unknown as Env;
+  const service = createSeasonService(env, getRuntimeConfig(env));
+
+  assert.equal(await service.rolloverIfDue(Date.parse('2026-01-20T00:00:00Z')), null);
+
+  const result = await service.rolloverIfDue(Date.parse('2026-01-31T00:01:00Z'));
+  assert.equal(result?.closed?.id, 's1');
+  assert.equal(result?.opened, 's2');
+  assert.deepEqual(
+    db.executed.map((item) => item.sql.trim().split(/\s+/).slice(0, 2).join(' ')),
+    ['INSERT INTO', 'UPDATE seasons', 'UPDATE agents', 'INSERT INTO']
+  );
+  assert.match(db.executed[0].sql, /season_standings/);
+  // Rounds and wins come from the untrimmed per-track totals, not score_events.
+  assert.match(db.executed[0].sql, /FROM track_standings\s+WHERE season_id = \?/);
+  assert.deepEqual(db.executed[0].args, ['s1', '2026-01-31T00:01:00.000Z', 's1', 0]);
+  assert.deepEqual(db.executed[2].args, [100]);
+  assert.deepEqual(db.executed[3].args.slice(0, 5), [
+    's2',
+    2,
+    'Season 2',
+    '2026-01-31T00:00:00.000Z',
+    '2026-03-02T00:00:00.000Z',
+  ]);
+});
+
+test('getSeasonLeaderboard ranks live scores for the active season', async () => {
+  const db = new MockDB(() => [
+    { agent_id: 'alpha', name: 'Alpha', score: '240', rating: 1620, rounds: 5, wins: 4 },
+    { agent_id: 'beta', name: 'Beta', score: '-30', rating: null, rounds: 3, wins: 1 },
+  ]);
+  const env = { DB: db } as unknown as Env;
+  const service = createSeasonService(env, getRuntimeConfig(env));
+
+  const leaderboard = await service.getSeasonLeaderboard(seasonFixture());
+  assert.deepEqual(
+    leaderboard.map((row) => [row.rank, row.agent_id, row.score]),
+    [
+      [1, 'alpha', 240],
+      [2, 'beta', -30],
+    ]
+  );
+});
+
+test('updateSeason only edits the active season with a valid end_time', async () => {
+  const db = new MockDB((sql) =>
+    sql.startsWith('SELECT * FROM seasons WHERE id') ? [seasonFixture()] : []
+  );
+  const env = { DB: db } as unknown as Env;
+  const service = createSeasonService(env, getRuntimeConfig(env));
+
+  await assert.rejects(
+    service.updateSeason('s1', { end_time: '2025-12-01T00:00:00Z' }),
+    /after start_time/
+  );
+  await assert.rejects(service.updateSeason('s1', {}), /No fields/);
+  const updated = await service.updateSeason('s1', { end_time: '2026-02-15T00:00:00Z' });
+  assert.equal(updated.id, 's1');
+});
@@ -0,0 +1,82 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createTickHistory,
+  getTickRetentionMs,
+  parseTimeParam,
+  tickKey,
+  type TickPoint,
+  type TickStorage,
+} from '../src/services/tickHistoryService.ts';
+
+class MapStorage implements TickStorage {
+  data = new Map<string, TickPoint>();
+  puts = 0;
+
+  async put(entries: Record<string, TickPoint>) {
+    this.puts += 1;
+    for (const [key, value] of Object.entries(entries)) this.data.set(key, value);
+  }
+
+  async list<T>(options: { prefix: string; start?: string; end?: string; limit?: number }) {
+    const keys = [...this.data.keys()]
+      .filter((key) => key.startsWith(options.prefix))
+      .filter((key) => (options.start ? key >= options.start : true))
+      .filter((key) => (options.end ? key < options.end : true))
+      .sort()
+      .slice(0, options.limit ?? Infinity);
+    return new Map(keys.map((key) => [key, this.data.get(key) as T]));
+  }
+
+  async delete(keys: string[]) {
+    let count = 0;
+    for (const key of keys) if (this.data.delete(key)) count += 1;
+    return count;
+  }
+}
+
+const T0 = Date.parse('2026-02-04T12:00:00.000Z');
+
+test('tickKey sorts lexicographically in time order', () => {
+  assert.ok(tickKey('BTC', 999_000) < tickKey('BTC', 1_000_000));
+  assert.equal(parseTimeParam('2026-02-04T12:00:00Z'), T0);
+  assert.equal(parseTimeParam(String(T0)), T0);
+  assert.equal(parseTimeParam('nope'), null);
+  assert.equal(getTickRetentionMs(undefined), 48 * 60 * 60 * 1000);
+});
+
+test('createTickHistory keeps the last price per 1s bucket and buffers writes', async () => {
+  const storage = new MapStorage();
+  const ticks = createTickHistory(storage, { retentionMs: 60_000 });
+  ticks.record('BTC', 100, T0 + 100);
+  ticks.record('BTC', 101, T0 + 900);
+  ticks.record('BTC', 102, T0 + 1_200);
+  ticks.record('ETH', 3000, T0 + 1_200);
+  assert.equal(storage.puts, 0);
+
+  const history = await ticks.query('BTC', T0, T0 + 1_500);
+  assert.equal(storage.puts, 1);
+  assert.equal(history.bucket_ms, 1000);
+  assert.deepEqual(history.points, [
+    { t: T0, price: 101 },
+    { t: T0 + 1000, price: 102 },
+  ]);
+  assert.equal(history.truncated, false);
+
+  const narrow = await ticks.query('BTC', T0 + 1000, T0 + 1000);
+  assert.deepEqual(narrow.points, [{ t: T0 + 1000, price: 102 }]);
+});
+
+test('createTickHistory prunes buckets older than the retention window', async () => {
+  const storage = new MapStorage();
+  const ticks = createTickHistory(storage, { retentionMs: 60_000 });
+  for (let i = 0; i < 300; i += 1) {
+    ticks.record('BTC', 100 + i, T0 + i * 1000);
+  }
+  await ticks.flush();
+  await ticks.prune(['BTC'], T0 + 300_000);
+
+  const remaining = [...storage.data.values()].map((point) => point.t);
+  assert.equal(remaining.length, 60);
+  assert.equal(Math.min(...remaining), T0 + 240_000);
+});